@@ -0,0 +1,147 @@
+/**
+ * Booking Status Function
+ *
+ * This Netlify Function lets the success page check what actually happened
+ * to a payment. Paystack redirects the client back with ?reference=...
+ * before (or after) the webhook arrives, so the page polls this endpoint
+ * until the booking is confirmed or the payment has failed.
+ *
+ * USAGE:
+ * GET /.netlify/functions/booking-status?reference=BEL_xxx
+ *
+ * Balance payment references (BEL_BAL_xxx) report the state of that balance
+ * payment; the booking itself is already confirmed.
+ *
+ * The response only contains appointment and payment details, never the
+ * client's contact information, since the reference appears in the URL.
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { getBookingByPaymentRef } from '../../src/lib/db';
+import { isHoldExpired } from '../../src/lib/availability';
+import { isBalanceReference } from '../../src/lib/paystack';
+import { loadSettings } from '../../src/lib/settings';
+import { Booking, BookingStatusResponse } from '../../src/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Maps a stored booking to the simplified status shown to the client.
+ *
+ * @param booking - The booking found for the reference
+ * @param reference - The reference that was looked up
+ * @returns Public booking status
+ */
+function toStatusResponse(booking: Booking, reference: string): BookingStatusResponse {
+  if (isBalanceReference(reference)) {
+    return toBalanceStatusResponse(booking, reference);
+  }
+
+  const paymentReceived = booking.paymentStatus === 'paid';
+  const failed =
+    booking.paymentStatus === 'failed' ||
+    (booking.bookingStatus === 'cancelled' && !paymentReceived);
+
+  return {
+    status: booking.bookingStatus === 'confirmed' ? 'confirmed' : failed ? 'failed' : 'pending',
+    paymentReceived,
+    paymentType: 'deposit',
+    reference,
+    serviceName: booking.serviceName,
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+    depositAmount: booking.depositAmount,
+    totalPaid: booking.totalPaid,
+    balanceDue: booking.balanceDue,
+    ...(failed && { failureReason: booking.paymentFailureReason }),
+    // Only offer a retry while the slot can still be held for this client
+    ...(failed && booking.bookingStatus === 'pending' && !isHoldExpired(booking) && {
+      retryPaymentUrl: booking.retryPaymentUrl,
+    }),
+  };
+}
+
+/**
+ * Maps a booking to the status of an online balance payment.
+ * The reference is the booking's latest balance payment (see getBookingByPaymentRef).
+ *
+ * @param booking - The booking found for the balance reference
+ * @param reference - The balance reference that was looked up
+ * @returns Public balance payment status
+ */
+function toBalanceStatusResponse(booking: Booking, reference: string): BookingStatusResponse {
+  const paymentReceived = booking.balancePaymentStatus === 'paid';
+  const failed = booking.balancePaymentStatus === 'failed';
+
+  return {
+    status: paymentReceived ? 'confirmed' : failed ? 'failed' : 'pending',
+    paymentReceived,
+    paymentType: 'balance',
+    reference,
+    serviceName: booking.serviceName,
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+    depositAmount: booking.depositAmount,
+    totalPaid: booking.totalPaid,
+    balanceDue: booking.balanceDue,
+    ...(failed && { failureReason: booking.paymentFailureReason }),
+  };
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store', // Always return the latest status while polling
+  };
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const reference = event.queryStringParameters?.reference;
+
+  if (!reference) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Missing reference' }),
+    };
+  }
+
+  try {
+    await loadSettings();
+
+    const booking = await getBookingByPaymentRef(reference);
+
+    if (!booking) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: 'Booking not found' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(toStatusResponse(booking, reference)),
+    };
+  } catch (error) {
+    console.error('[Booking Status] Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+};
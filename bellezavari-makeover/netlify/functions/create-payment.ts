@@ -7,9 +7,22 @@
  * FLOW:
  * 1. Client submits booking form and clicks "Pay Deposit"
  * 2. Frontend calls this function with booking details
- * 3. We create a payment transaction with Paystack's API
- * 4. We return the authorization URL to the frontend
- * 5. Frontend redirects user to Paystack for payment
+ * 3. We load the booking, check its stylist takes the service, and re-check
+ *    that its slot is still available
+ * 4. We price the booking from the service catalog and store the totals
+ *    (clients with past no-shows are charged the full price upfront)
+ * 5. We create a payment transaction with Paystack's API
+ * 6. We return the authorization URL to the frontend
+ * 7. Frontend redirects user to Paystack for payment
+ * 
+ * BALANCE PAYMENTS:
+ * With paymentType "balance", the same function creates a payment for the
+ * remaining balance of a confirmed booking (reference BEL_BAL_bookingId_timestamp,
+ * see src/lib/balancePayments.ts). Only admins can do this: the request must
+ * carry the admin key (see src/lib/adminAuth.ts). Admins use it to send a
+ * payment link before or on the appointment day; with sendEmail the link is
+ * emailed to the client. The webhook adds the
+ * amount to totalPaid and recalculates balanceDue.
  * 
  * WHY USE A SERVER FUNCTION?
  * - The Paystack secret key must not be exposed in client-side code
@@ -21,9 +34,31 @@
  */
 
 import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
-
-// Secret key from environment (NEVER expose this in client code!)
-const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || '';
+import {
+  attachPaymentReference,
+  cancelBooking,
+  getBookingById,
+  getClientNoShowStatus,
+  releaseBookingIfSlotTaken,
+  updateBookingTotals,
+} from '../../src/lib/db';
+import {
+  checkTimeSlot,
+  fromDateKey,
+  getBusinessDateTime,
+  isHoldExpired,
+} from '../../src/lib/availability';
+import { calculateBookingTotals } from '../../src/lib/pricing';
+import { PaystackInitResponse, initializePaystackTransaction, toPence } from '../../src/lib/paystack';
+import { getBalancePaymentBlocker, startBalancePayment } from '../../src/lib/balancePayments';
+import { isAdminRequest } from '../../src/lib/adminAuth';
+import { verifyBookingToken } from '../../src/lib/tokens';
+import { balancePaymentEmail, sendEmail } from '../../src/lib/email';
+import { loadSettings } from '../../src/lib/settings';
+import { loadServices } from '../../src/lib/catalog';
+import { getServiceById } from '../../src/data/services';
+import { getStylistById, performsService } from '../../src/data/stylists';
+import { Booking } from '../../src/types';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -31,30 +66,137 @@ const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || '';
 
 /**
  * Expected request body from the frontend.
+ * 
+ * Only bookingId (or, from the retry link, a signed token) is required.
+ * Everything we charge for is loaded from the
+ * booking and priced from the service catalog; the optional fields are only
+ * cross-checked so a tampered request is rejected instead of silently fixed.
  */
 interface CreatePaymentRequest {
-  email: string;      // Customer email (required by Paystack)
-  amount: number;     // Amount in dollars (we convert to cents)
-  bookingId: string;  // Our internal booking reference
-  serviceId: string;  // Service being booked
-  serviceName: string; // Human-readable service name
-  clientName: string; // For Paystack metadata display
-  extras?: Array<{ name: string; price: number }>; // Selected add-ons
+  bookingId?: string;  // Our internal booking reference
+  token?: string;      // Signed token from a retry-payment link (instead of bookingId)
+  paymentType?: 'deposit' | 'balance'; // Defaults to "deposit"
+  sendEmail?: boolean; // Balance only: email the payment link to the client
+  amount?: number;     // Amount the client expects to pay, in dollars (must match our calculation)
+  email?: string;      // Customer email (ignored - we use the email on the booking)
+  serviceId?: string;  // Service being booked (must match the booking)
+  serviceName?: string; // Human-readable service name (ignored)
+  clientName?: string; // For Paystack metadata display (ignored)
+  extras?: Array<{ name: string; price: number }>; // Selected add-ons (ignored - priced from catalog)
+}
+
+/**
+ * Machine-readable error codes returned to the frontend.
+ * The booking page uses these to show the right message.
+ */
+type PaymentErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'INVALID_TOKEN'
+  | 'BOOKING_NOT_FOUND'
+  | 'BOOKING_NOT_PENDING'
+  | 'BOOKING_NOT_CONFIRMED'
+  | 'NO_BALANCE_DUE'
+  | 'APPOINTMENT_PASSED'
+  | 'HOLD_EXPIRED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'STYLIST_UNAVAILABLE'
+  | 'SLOT_UNAVAILABLE'
+  | 'AMOUNT_MISMATCH'
+  | 'FULL_PAYMENT_REQUIRED'
+  | 'PAYMENT_INIT_FAILED'
+  | 'INTERNAL_ERROR';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Builds a structured JSON error response.
+ * 
+ * @param statusCode - HTTP status code
+ * @param code - Machine-readable error code
+ * @param error - Human-readable message
+ * @param reason - Optional detail (e.g., why a slot is unavailable)
+ */
+function errorResponse(
+  statusCode: number,
+  code: PaymentErrorCode,
+  error: string,
+  reason?: string
+): HandlerResponse {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify({ error, code, ...(reason && { reason }) }),
+  };
 }
 
 /**
- * Response structure from Paystack's initialize endpoint.
+ * Builds a successful JSON response with the Paystack authorization details.
+ * 
+ * @param data - Paystack initialize response data
+ * @param extra - Additional fields for the response
  */
-interface PaystackInitResponse {
-  status: boolean;
-  message: string;
-  data: {
-    authorization_url: string;  // URL to redirect user to
-    access_code: string;        // Access code for inline payment
-    reference: string;          // Transaction reference
+function successResponse(data: PaystackInitResponse['data'], extra: Record<string, unknown> = {}): HandlerResponse {
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify({
+      success: true,
+      authorizationUrl: data.authorization_url,  // Redirect URL
+      accessCode: data.access_code,              // For inline payment
+      reference: data.reference,                 // Transaction reference
+      ...extra,
+    }),
   };
 }
 
+/**
+ * Creates a Paystack payment for the remaining balance of a confirmed booking.
+ * Available until the end of the appointment day (in the business timezone).
+ * 
+ * @param booking - The booking to collect the balance for
+ * @param body - The request body
+ */
+async function createBalancePayment(booking: Booking, body: CreatePaymentRequest): Promise<HandlerResponse> {
+  const blocker = getBalancePaymentBlocker(booking);
+  if (blocker) {
+    return errorResponse(409, blocker.code, blocker.error);
+  }
+
+  const amount = booking.balanceDue;
+
+  if (body.amount !== undefined && toPence(body.amount) !== toPence(amount)) {
+    return errorResponse(400, 'AMOUNT_MISMATCH', `The balance for this booking is ${amount.toFixed(2)} CAD`);
+  }
+
+  const result = await startBalancePayment(booking);
+
+  if (!result.success || !result.payment) {
+    return errorResponse(400, 'PAYMENT_INIT_FAILED', result.error || 'Payment initialization failed');
+  }
+
+  let emailSent = false;
+  if (body.sendEmail) {
+    const emailResult = await sendEmail(balancePaymentEmail(booking, result.payment.authorization_url));
+    emailSent = emailResult.success;
+  }
+
+  console.log('[Create Payment] Balance payment ready:', {
+    reference: result.payment.reference,
+    emailSent,
+  });
+
+  return successResponse(result.payment, { amount, emailSent });
+}
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
@@ -73,7 +215,7 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
       statusCode: 200,
       headers: {
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, X-Admin-Key',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
       },
       body: '',
@@ -93,93 +235,178 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
   }
 
   try {
+    await Promise.all([loadSettings(), loadServices()]);
+
     // Parse the request body
     const body: CreatePaymentRequest = JSON.parse(event.body || '{}');
-    const { email, amount, bookingId, serviceId, serviceName, clientName, extras } = body;
+    let { bookingId } = body;
+
+    // Retry links carry a signed token instead of the booking ID
+    if (body.token) {
+      const verified = verifyBookingToken(body.token);
+      if (!verified.success || !verified.bookingId) {
+        return errorResponse(401, 'INVALID_TOKEN', verified.error || 'Invalid link');
+      }
+      bookingId = verified.bookingId;
+    }
 
     // Validate required fields
-    if (!email || !amount || !bookingId || !serviceId) {
-      console.error('[Create Payment] Missing required fields:', { email: !!email, amount: !!amount, bookingId: !!bookingId, serviceId: !!serviceId });
-      return {
-        statusCode: 400,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({ error: 'Missing required fields' }),
-      };
+    if (!bookingId) {
+      console.error('[Create Payment] Missing required fields:', { bookingId: !!bookingId });
+      return errorResponse(400, 'INVALID_REQUEST', 'Missing required fields');
+    }
+
+    // Balance links are sent by admins only
+    if (body.paymentType === 'balance' && !isAdminRequest(event.headers)) {
+      return errorResponse(401, 'UNAUTHORIZED', 'Admin key required');
+    }
+
+    // Load the booking - never trust the slot details sent by the browser
+    const booking = await getBookingById(bookingId);
+
+    if (!booking) {
+      return errorResponse(404, 'BOOKING_NOT_FOUND', 'Booking not found');
+    }
+
+    if (body.paymentType === 'balance') {
+      return createBalancePayment(booking, body);
+    }
+
+    if (booking.bookingStatus !== 'pending' || booking.paymentStatus === 'paid') {
+      return errorResponse(409, 'BOOKING_NOT_PENDING', 'This booking is not awaiting payment');
+    }
+
+    if (isHoldExpired(booking)) {
+      return errorResponse(409, 'HOLD_EXPIRED', 'Your reservation has expired. Please start a new booking.');
+    }
+
+    if (body.serviceId && body.serviceId !== booking.serviceId) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Service does not match the booking');
+    }
+
+    const service = getServiceById(booking.serviceId);
+
+    if (!service || !service.isActive) {
+      return errorResponse(400, 'SERVICE_UNAVAILABLE', 'This service is no longer available');
+    }
+
+    // New bookings must name a stylist who takes this service - an empty
+    // stylistId would otherwise be checked as "any stylist"
+    const stylist = booking.stylistId ? getStylistById(booking.stylistId) : undefined;
+
+    if (!stylist || !stylist.isActive || !performsService(stylist, service)) {
+      console.warn('[Create Payment] Invalid stylist:', { bookingId, stylistId: booking.stylistId });
+      return errorResponse(400, 'STYLIST_UNAVAILABLE', 'This stylist is not available for this service');
     }
 
+    // Re-run the availability rules against the latest bookings (excluding this one).
+    // If the slot was taken, the pending booking is released in the same transaction
+    // so it doesn't hold a slot it can't have
+    const { date, time } = getBusinessDateTime(booking.startTime);
+    const businessDay = fromDateKey(date);
+    const slot = await releaseBookingIfSlotTaken(bookingId, (otherBookings, blocks) =>
+      checkTimeSlot(service, businessDay, time, otherBookings, stylist.id, blocks)
+    );
+
+    if (!slot.isAvailable) {
+      console.warn('[Create Payment] Slot no longer available:', { bookingId, date, time, reason: slot.reason });
+      return errorResponse(409, 'SLOT_UNAVAILABLE', 'This time slot is no longer available', slot.reason);
+    }
+
+    // Price the booking ourselves - never trust amounts from the browser.
+    // Clients with past no-shows pay the full price upfront.
+    const noShowStatus = await getClientNoShowStatus(booking.client.email, booking.client.phone);
+    const pricing = calculateBookingTotals(service, booking.extras.map(e => e.extraId), {
+      requireFullPayment: noShowStatus.requiresFullPayment,
+    });
+
+    if (!pricing.success || !pricing.totals) {
+      return errorResponse(400, 'INVALID_REQUEST', pricing.error || 'Invalid extras');
+    }
+
+    const totals = pricing.totals;
+    const amount = totals.depositAmount;
+
+    if (
+      (body.amount !== undefined && toPence(body.amount) !== toPence(amount)) ||
+      toPence(booking.depositAmount) !== toPence(amount)
+    ) {
+      console.warn('[Create Payment] Amount mismatch:', {
+        bookingId,
+        requested: body.amount,
+        stored: booking.depositAmount,
+        expected: amount,
+        fullPaymentRequired: totals.fullPaymentRequired,
+      });
+      if (totals.fullPaymentRequired) {
+        // Release the slot - the client must review the new amount and book again
+        await cancelBooking(bookingId, 'Full payment required');
+        return errorResponse(
+          400,
+          'FULL_PAYMENT_REQUIRED',
+          `Because of a previous missed appointment, this booking must be paid in full (${amount.toFixed(2)} CAD)`
+        );
+      }
+      return errorResponse(400, 'AMOUNT_MISMATCH', `The deposit for this booking is ${amount.toFixed(2)} CAD`);
+    }
+
+    // Store the authoritative totals on the booking, with the service they came from
+    await updateBookingTotals(bookingId, totals, service);
+
+    const email = booking.client.email;
+    const serviceName = service.name;
+    const clientName = `${booking.client.firstName} ${booking.client.lastName}`;
+    const extras = totals.extras.map(e => ({ name: e.name, price: e.price }));
+
     // Generate a unique reference with our prefix for easy identification
     // Format: BEL_bookingId_timestamp
     const reference = `BEL_${bookingId}_${Date.now()}`;
 
-    // Convert amount from dollars to cents (Paystack requirement)
-    const amountInCents = Math.round(amount * 100);
-
     // Log the payment initialization
     console.log('[Create Payment] Initializing:', {
       reference,
       amount,
-      amountInCents,
       email,
       bookingId,
       serviceName,
     });
 
-    // Call Paystack's transaction initialize API
-    const response = await fetch('https://api.paystack.co/transaction/initialize', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
-        'Content-Type': 'application/json',
+    const data = await initializePaystackTransaction({
+      email,
+      amount,
+      reference,
+      metadata: {
+        bookingId,
+        paymentType: 'deposit',
+        serviceId: service.id,
+        serviceName,
+        clientName,
+        extras,
+        // Custom fields appear on Paystack dashboard and receipts
+        custom_fields: [
+          {
+            display_name: 'Service',
+            variable_name: 'service',
+            value: serviceName,
+          },
+          {
+            display_name: 'Client',
+            variable_name: 'client',
+            value: clientName,
+          },
+        ],
       },
-      body: JSON.stringify({
-        email,
-        amount: amountInCents,
-        currency: 'CAD',
-        reference,
-        // Callback URL - where Paystack redirects after payment
-        callback_url: `${process.env.URL || 'https://bellezavari.com'}/book/success`,
-        // Metadata - attached to the transaction for webhook processing
-        metadata: {
-          bookingId,
-          serviceId,
-          serviceName,
-          clientName,
-          extras: extras || [],
-          // Custom fields appear on Paystack dashboard and receipts
-          custom_fields: [
-            {
-              display_name: 'Service',
-              variable_name: 'service',
-              value: serviceName,
-            },
-            {
-              display_name: 'Client',
-              variable_name: 'client',
-              value: clientName,
-            },
-          ],
-        },
-      }),
     });
 
-    const data: PaystackInitResponse = await response.json();
-
     // Check if Paystack accepted the request
     if (!data.status) {
       console.error('[Create Payment] Paystack rejected request:', data.message);
-      return {
-        statusCode: 400,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({ error: data.message || 'Payment initialization failed' }),
-      };
+      return errorResponse(400, 'PAYMENT_INIT_FAILED', data.message || 'Payment initialization failed');
     }
 
+    // Store the reference on the booking so the webhook can find it by reference
+    await attachPaymentReference(bookingId, data.data.reference);
+
     // Log successful initialization
     console.log('[Create Payment] Success:', {
       reference: data.data.reference,
@@ -187,29 +414,10 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
     });
 
     // Return the authorization details to the frontend
-    return {
-      statusCode: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({
-        success: true,
-        authorizationUrl: data.data.authorization_url,  // Redirect URL
-        accessCode: data.data.access_code,              // For inline payment
-        reference: data.data.reference,                 // Transaction reference
-      }),
-    };
+    return successResponse(data.data);
 
   } catch (error) {
     console.error('[Create Payment] Error:', error);
-    return {
-      statusCode: 500,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({ error: 'Internal server error' }),
-    };
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error');
   }
 };
@@ -0,0 +1,183 @@
+/**
+ * Manage Booking Function
+ *
+ * This Netlify Function backs the /book/manage page, which clients reach
+ * through the signed link in their confirmation email.
+ *
+ * USAGE:
+ * POST /.netlify/functions/manage-booking
+ *
+ * 1. View:   { token }
+ *    Returns the booking details.
+ * 2. Cancel: { token, action: "cancel", acknowledgeDepositForfeit: true }
+ *    Cancels the booking. The deposit is non-refundable (policies.deposit),
+ *    so the client must explicitly acknowledge that it is forfeited.
+ *
+ * SECURITY:
+ * - Every request must carry a valid token (see src/lib/tokens.ts)
+ * - Tampered or expired tokens are rejected with 401
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { cancelBooking, getBookingById } from '../../src/lib/db';
+import { hasRescheduleNotice } from '../../src/lib/availability';
+import { bookingCancelledEmail, sendEmail } from '../../src/lib/email';
+import { verifyBookingToken } from '../../src/lib/tokens';
+import { loadSettings } from '../../src/lib/settings';
+import { Booking, ManageBookingResponse } from '../../src/types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Expected request body from the manage page.
+ */
+interface ManageBookingRequest {
+  token: string;                        // Signed token from the manage link
+  action?: 'view' | 'cancel';           // Defaults to "view"
+  acknowledgeDepositForfeit?: boolean;  // Required to cancel
+}
+
+/**
+ * Machine-readable error codes returned to the frontend.
+ */
+type ManageErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_TOKEN'
+  | 'BOOKING_NOT_FOUND'
+  | 'CANNOT_CANCEL'
+  | 'INTERNAL_ERROR';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-store',
+};
+
+/**
+ * Builds a structured JSON error response.
+ *
+ * @param statusCode - HTTP status code
+ * @param code - Machine-readable error code
+ * @param error - Human-readable message
+ */
+function errorResponse(statusCode: number, code: ManageErrorCode, error: string): HandlerResponse {
+  return {
+    statusCode,
+    headers,
+    body: JSON.stringify({ error, code }),
+  };
+}
+
+/**
+ * Checks if the client can still cancel the booking themselves.
+ * Only upcoming confirmed bookings can be cancelled.
+ */
+function canCancel(booking: Booking, now: Date = new Date()): boolean {
+  return booking.bookingStatus === 'confirmed' && booking.startTime > now;
+}
+
+/**
+ * Maps a booking to the details shown on the manage page.
+ */
+function toManageResponse(booking: Booking): ManageBookingResponse {
+  return {
+    reference: booking.paymentReference,
+    serviceName: booking.serviceName,
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+    bookingStatus: booking.bookingStatus,
+    client: booking.client,
+    extras: booking.extras,
+    totalPrice: booking.subtotal + booking.extrasTotal,
+    totalPaid: booking.totalPaid,
+    balanceDue: booking.balanceDue,
+    canCancel: canCancel(booking),
+    canReschedule: booking.bookingStatus === 'confirmed' && hasRescheduleNotice(booking),
+  };
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    await loadSettings();
+
+    const body: ManageBookingRequest = JSON.parse(event.body || '{}');
+    const { token, action = 'view' } = body;
+
+    if (!token) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Missing booking link');
+    }
+
+    // Step 1: Verify the signed link
+    const verification = verifyBookingToken(token);
+
+    if (!verification.success || !verification.bookingId) {
+      console.warn('[Manage Booking] Rejected token:', verification.error);
+      return errorResponse(401, 'INVALID_TOKEN', verification.error || 'Invalid link');
+    }
+
+    const booking = await getBookingById(verification.bookingId);
+
+    if (!booking) {
+      return errorResponse(404, 'BOOKING_NOT_FOUND', 'Booking not found');
+    }
+
+    if (action === 'view') {
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(toManageResponse(booking)),
+      };
+    }
+
+    if (action !== 'cancel') {
+      return errorResponse(400, 'INVALID_REQUEST', 'Unknown action');
+    }
+
+    // Step 2: Cancel - the client must accept losing the deposit
+    if (!body.acknowledgeDepositForfeit) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Please confirm that you understand the deposit is forfeited');
+    }
+
+    if (!canCancel(booking)) {
+      return errorResponse(409, 'CANNOT_CANCEL', 'This booking can no longer be cancelled online');
+    }
+
+    if (!(await cancelBooking(booking.id, 'Cancelled by client'))) {
+      return errorResponse(409, 'CANNOT_CANCEL', 'This booking can no longer be cancelled online');
+    }
+
+    console.log('[Manage Booking] Booking cancelled by client:', {
+      bookingId: booking.id,
+      reference: booking.paymentReference,
+    });
+
+    const cancelled: Booking = { ...booking, bookingStatus: 'cancelled', cancellationReason: 'Cancelled by client' };
+    await sendEmail(bookingCancelledEmail(cancelled));
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(toManageResponse(cancelled)),
+    };
+  } catch (error) {
+    console.error('[Manage Booking] Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+};
@@ -9,9 +9,14 @@
  * 1. Client pays deposit via Paystack
  * 2. Paystack sends POST request to this endpoint with event details
  * 3. We verify the webhook signature to ensure it's from Paystack
- * 4. We check idempotency to prevent duplicate processing
+ * 4. We check idempotency (Firestore processedPayments) to prevent duplicate processing
  * 5. If payment successful, we confirm the booking in Firestore
  * 6. We send confirmation email to the client
+ * 7. If payment failed, we release the slot and email the client a retry link
+ *    (balance payments - BEL_BAL_ references - are recorded against the
+ *    confirmed booking instead, updating totalPaid and balanceDue)
+ * 8. Refunds and disputes update the booking, flag it for review and are
+ *    recorded in paymentEvents, since they are exceptions to the no-refund policy
  * 
  * SECURITY CONSIDERATIONS:
  * - ALWAYS verify webhook signatures before processing
@@ -27,6 +32,20 @@
 
 import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
 import * as crypto from 'crypto';
+import {
+  confirmBalancePayment,
+  confirmBookingPayment,
+  findBookingIdByPaymentEntry,
+  getBookingById,
+  getBookingByPaymentRef,
+  markBalancePaymentFailed,
+  markPaymentFailed,
+  recordDisputeEvent,
+  recordRefundEvent,
+} from '../../src/lib/db';
+import { bookingConfirmationEmail, getRetryPaymentUrl, paymentFailedEmail, sendEmail } from '../../src/lib/email';
+import { isBalanceReference } from '../../src/lib/paystack';
+import { loadSettings } from '../../src/lib/settings';
 
 // Secret key for verifying webhook signatures (from environment)
 const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || '';
@@ -36,37 +55,76 @@ const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || '';
 // ============================================================================
 
 /**
- * Structure of the webhook payload from Paystack.
+ * Payload data for charge.success and charge.failed events.
  * We only use the fields we need; Paystack sends more.
  */
-interface PaystackWebhookPayload {
-  event: string;  // Event type: "charge.success", "charge.failed", etc.
-  data: {
+interface PaystackChargeData {
+  id: number;
+  domain: string;           // "test" or "live"
+  status: string;           // "success", "failed", etc.
+  reference: string;        // Our reference (BEL_xxx)
+  amount: number;           // Amount in cents
+  message: string | null;
+  gateway_response: string;
+  paid_at: string;
+  created_at: string;
+  channel: string;
+  currency: string;
+  metadata: {
+    bookingId?: string;     // We send this when creating payment
+    paymentType?: 'deposit' | 'balance';
+    serviceId?: string;
+    serviceName?: string;
+    clientEmail?: string;
+  };
+  customer: {
     id: number;
-    domain: string;           // "test" or "live"
-    status: string;           // "success", "failed", etc.
-    reference: string;        // Our reference (BEL_xxx)
-    amount: number;           // Amount in cents
-    message: string | null;
-    gateway_response: string;
-    paid_at: string;
-    created_at: string;
-    channel: string;
-    currency: string;
-    metadata: {
-      bookingId?: string;     // We send this when creating payment
-      serviceId?: string;
-      serviceName?: string;
-      clientEmail?: string;
-    };
-    customer: {
-      id: number;
-      email: string;
-      customer_code: string;
-    };
+    email: string;
+    customer_code: string;
+  };
+}
+
+/**
+ * Payload data for refund.processed and refund.failed events.
+ */
+interface PaystackRefundData {
+  id?: number;
+  status: string;                 // "processed", "failed", etc.
+  transaction_reference: string;  // Reference of the refunded charge (BEL_xxx)
+  refund_reference: string | null;
+  amount: number | string;        // Amount refunded in cents
+  currency: string;
+}
+
+/**
+ * Payload data for charge.dispute.create and charge.dispute.resolve events.
+ */
+interface PaystackDisputeData {
+  id: number;                     // Dispute ID
+  status: string;                 // "awaiting-merchant-feedback", "resolved", etc.
+  resolution: string | null;      // "merchant-accepted" or "declined" once resolved
+  category: string;               // "chargeback" or "fraud"
+  refund_amount: number;          // Amount disputed in cents
+  dueAt: string | null;           // Deadline to respond
+  transaction: {
+    id: number;
+    reference: string;            // Reference of the disputed charge (BEL_xxx)
+    amount: number;
+    metadata?: {
+      bookingId?: string;
+    } | null;
   };
 }
 
+/**
+ * Structure of the webhook payload from Paystack, by event type.
+ * Events we don't handle are acknowledged without reading their data.
+ */
+type PaystackWebhookPayload =
+  | { event: 'charge.success' | 'charge.failed'; data: PaystackChargeData }
+  | { event: 'refund.processed' | 'refund.failed'; data: PaystackRefundData }
+  | { event: 'charge.dispute.create' | 'charge.dispute.resolve'; data: PaystackDisputeData };
+
 // ============================================================================
 // SIGNATURE VERIFICATION
 // ============================================================================
@@ -91,39 +149,53 @@ function verifySignature(payload: string, signature: string): boolean {
   return hash === signature;
 }
 
-// ============================================================================
-// IDEMPOTENCY
-// ============================================================================
-
 /**
- * In-memory set of processed payment references.
- * 
- * NOTE: This is a simple implementation for demonstration.
- * In production, use the Firestore processedPayments collection instead,
- * as in-memory storage is lost when the function cold starts.
+ * Finds the booking a charge belongs to.
+ * Prefers the booking ID sent in the charge metadata, falling back to the reference.
  */
-const processedReferences = new Set<string>();
+async function findBookingId(reference: string, metadataBookingId?: string): Promise<string | undefined> {
+  return metadataBookingId || (await getBookingByPaymentRef(reference))?.id;
+}
 
 /**
- * Checks if we've already processed this payment reference.
- * Paystack may send the same webhook multiple times (retries).
+ * Finds the booking a refunded or disputed charge belongs to.
+ * Looks the reference up in the payments ledger first, since a booking only
+ * keeps the reference of its latest balance payment, then falls back to findBookingId.
  */
-function isAlreadyProcessed(reference: string): boolean {
-  return processedReferences.has(reference);
+async function findChargedBookingId(reference: string, metadataBookingId?: string): Promise<string | undefined> {
+  return (await findBookingIdByPaymentEntry(reference)) || findBookingId(reference, metadataBookingId);
 }
 
 /**
- * Marks a payment reference as processed.
- * Called immediately after successful processing to prevent duplicates.
+ * Picks the fields worth logging for each event type.
  */
-function markAsProcessed(reference: string): void {
-  processedReferences.add(reference);
-  
-  // Clean up old references after 1 hour to prevent memory bloat
-  // In production, this would be handled by Firestore TTL or cleanup job
-  setTimeout(() => {
-    processedReferences.delete(reference);
-  }, 3600000); // 1 hour
+function describeEvent(webhookData: PaystackWebhookPayload): Record<string, unknown> {
+  switch (webhookData.event) {
+    case 'charge.success':
+    case 'charge.failed':
+      return {
+        reference: webhookData.data.reference,
+        status: webhookData.data.status,
+        amount: webhookData.data.amount / 100, // Convert to dollars for logging
+        email: webhookData.data.customer?.email,
+      };
+    case 'refund.processed':
+    case 'refund.failed':
+      return {
+        reference: webhookData.data.transaction_reference,
+        status: webhookData.data.status,
+        amount: Number(webhookData.data.amount) / 100,
+      };
+    case 'charge.dispute.create':
+    case 'charge.dispute.resolve':
+      return {
+        reference: webhookData.data.transaction?.reference,
+        status: webhookData.data.status,
+        amount: webhookData.data.refund_amount / 100,
+      };
+    default:
+      return {};
+  }
 }
 
 // ============================================================================
@@ -169,52 +241,89 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
 
   // Step 3: Parse and process the webhook
   try {
+    await loadSettings();
+
     const webhookData: PaystackWebhookPayload = JSON.parse(payload);
     const { event: eventType, data } = webhookData;
 
     // Log the event for debugging/auditing
-    console.log(`[Paystack Webhook] Event: ${eventType}`, {
-      reference: data.reference,
-      status: data.status,
-      amount: data.amount / 100, // Convert to dollars for logging
-      email: data.customer?.email,
-    });
+    console.log(`[Paystack Webhook] Event: ${eventType}`, describeEvent(webhookData));
 
     // Step 4: Handle charge.success event
     if (eventType === 'charge.success') {
       const { reference, status, metadata } = data;
 
-      // Check idempotency - skip if already processed
-      if (isAlreadyProcessed(reference)) {
-        console.log(`[Paystack Webhook] Reference ${reference} already processed, skipping`);
-        return {
-          statusCode: 200,
-          body: JSON.stringify({ message: 'Already processed' }),
-        };
-      }
-
       if (status === 'success') {
-        // Mark as processed IMMEDIATELY to prevent race conditions
-        markAsProcessed(reference);
+        // Resolve the booking this payment is for
+        const bookingId = await findBookingId(reference, metadata?.bookingId);
+
+        if (!bookingId) {
+          console.error(`[Paystack Webhook] No booking found for reference ${reference}`);
+          return {
+            statusCode: 200,
+            body: JSON.stringify({ message: 'Booking not found' }),
+          };
+        }
+
+        // Balance payments only update the totals of an already confirmed booking
+        if (isBalanceReference(reference)) {
+          const balanceResult = await confirmBalancePayment(bookingId, reference, data.amount / 100);
+
+          console.log(`[Paystack Webhook] Balance payment ${balanceResult}:`, {
+            reference,
+            bookingId,
+            amount: data.amount / 100,
+          });
+
+          return {
+            statusCode: 200,
+            body: JSON.stringify({
+              message: balanceResult === 'recorded' ? 'Balance payment recorded' : 'Already processed',
+              reference,
+            }),
+          };
+        }
+
+        // Idempotency check, processed-payment record, ledger entry and booking update run atomically
+        const result = await confirmBookingPayment(bookingId, reference, data.amount / 100, data.currency);
+
+        if (result === 'already-processed') {
+          console.log(`[Paystack Webhook] Reference ${reference} already processed, skipping`);
+          return {
+            statusCode: 200,
+            body: JSON.stringify({ message: 'Already processed' }),
+          };
+        }
+
+        if (result === 'needs-review') {
+          console.warn(`[Paystack Webhook] Payment ${reference} couldn't confirm the booking, flagged for review`, {
+            bookingId,
+            amount: data.amount / 100,
+            currency: data.currency,
+          });
+          return {
+            statusCode: 200,
+            body: JSON.stringify({ message: 'Payment recorded, booking flagged for review', reference }),
+          };
+        }
 
         // Log successful payment details
-        console.log('[Paystack Webhook] Payment successful:', {
+        console.log('[Paystack Webhook] Booking confirmed:', {
           reference,
-          bookingId: metadata.bookingId,
-          serviceId: metadata.serviceId,
+          bookingId,
+          serviceId: metadata?.serviceId,
           email: data.customer.email,
           amount: data.amount / 100,
           currency: data.currency,
         });
 
-        // TODO: Implement these in production:
-        // 1. Update booking status in Firestore
-        // await updateBookingStatus(metadata.bookingId, 'confirmed', reference);
-        
-        // 2. Send confirmation email to client
-        // await sendConfirmationEmail(data.customer.email, metadata);
-        
-        // 3. Optionally notify stylist of new booking
+        // Send confirmation email with a calendar invite attached
+        const booking = await getBookingById(bookingId);
+        if (booking) {
+          await sendEmail(bookingConfirmationEmail(booking));
+        }
+
+        // TODO: Optionally notify stylist of new booking
         // await notifyStylist(metadata);
 
         return {
@@ -229,13 +338,133 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
 
     // Step 5: Handle charge.failed event
     if (eventType === 'charge.failed') {
+      const { reference, metadata } = data;
+      const reason = data.gateway_response || data.message || 'Payment was declined';
+
       console.log('[Paystack Webhook] Payment failed:', {
-        reference: data.reference,
-        reason: data.gateway_response,
+        reference,
+        reason,
       });
-      
-      // TODO: Optionally clean up pending booking or notify client
-      // await handleFailedPayment(data.reference);
+
+      const bookingId = await findBookingId(reference, metadata?.bookingId);
+
+      if (!bookingId) {
+        console.error(`[Paystack Webhook] No booking found for failed reference ${reference}`);
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ message: 'Booking not found' }),
+        };
+      }
+
+      // A failed balance payment leaves the booking as it is
+      if (isBalanceReference(reference)) {
+        const recorded = await markBalancePaymentFailed(bookingId, reference, reason);
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            message: recorded ? 'Balance payment failure recorded' : 'Stale event ignored',
+            reference,
+          }),
+        };
+      }
+
+      // Mark the payment failed (releases the slot) and give the client a signed retry link
+      const failedBooking = await getBookingById(bookingId);
+      const retryPaymentUrl = failedBooking ? getRetryPaymentUrl(failedBooking) : null;
+      const booking = await markPaymentFailed(bookingId, reference, reason, retryPaymentUrl || undefined);
+
+      if (!booking) {
+        console.log(`[Paystack Webhook] Ignoring stale failure for booking ${bookingId}`, { reference });
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ message: 'Stale event ignored' }),
+        };
+      }
+
+      // Only offer a retry while the booking is still pending (hold not expired)
+      if (booking.bookingStatus === 'pending') {
+        await sendEmail(paymentFailedEmail(booking, reason, retryPaymentUrl));
+      }
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: 'Payment failure recorded', reference }),
+      };
+    }
+
+    // Step 6: Handle refunds (issued from the Paystack dashboard)
+    if (eventType === 'refund.processed' || eventType === 'refund.failed') {
+      const refund = data;
+      const reference = refund.transaction_reference;
+      const bookingId = await findChargedBookingId(reference);
+
+      if (!bookingId) {
+        console.error(`[Paystack Webhook] No booking found for refunded reference ${reference}`);
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ message: 'Booking not found' }),
+        };
+      }
+
+      const recorded = await recordRefundEvent(bookingId, {
+        eventId: `${eventType}:${refund.refund_reference || refund.id || reference}`,
+        event: eventType,
+        reference,
+        amount: Number(refund.amount) / 100,
+        status: refund.status,
+      });
+
+      console.log(`[Paystack Webhook] Refund ${recorded ? 'recorded' : 'already recorded'}:`, {
+        bookingId,
+        reference,
+        status: refund.status,
+        amount: Number(refund.amount) / 100,
+      });
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: recorded ? 'Refund recorded' : 'Already processed', reference }),
+      };
+    }
+
+    // Step 7: Handle chargeback disputes
+    if (eventType === 'charge.dispute.create' || eventType === 'charge.dispute.resolve') {
+      const dispute = data;
+      const reference = dispute.transaction.reference;
+      const bookingId = await findChargedBookingId(reference, dispute.transaction.metadata?.bookingId);
+
+      if (!bookingId) {
+        console.error(`[Paystack Webhook] No booking found for disputed reference ${reference}`);
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ message: 'Booking not found' }),
+        };
+      }
+
+      const recorded = await recordDisputeEvent(bookingId, {
+        eventId: `${eventType}:${dispute.id}`,
+        event: eventType,
+        reference,
+        disputeId: String(dispute.id),
+        status: dispute.status,
+        category: dispute.category,
+        ...(dispute.resolution && { resolution: dispute.resolution }),
+        refundAmount: dispute.refund_amount / 100,
+        ...(dispute.dueAt && { dueAt: new Date(dispute.dueAt) }),
+      });
+
+      console.warn(`[Paystack Webhook] Dispute ${recorded ? 'recorded' : 'already recorded'}:`, {
+        bookingId,
+        reference,
+        disputeId: dispute.id,
+        status: dispute.status,
+        resolution: dispute.resolution,
+      });
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: recorded ? 'Dispute recorded' : 'Already processed', reference }),
+      };
     }
 
     // For all other events, just acknowledge receipt
@@ -0,0 +1,144 @@
+/**
+ * Paystack Reconciliation Job
+ *
+ * This scheduled Netlify Function catches payments the webhook missed.
+ * Every night it lists the Paystack transactions for the last
+ * RECONCILIATION_LOOKBACK_HOURS (default 48, so consecutive runs overlap),
+ * matches them to bookings by their BEL_ reference and reports:
+ * - bookings that were paid but never confirmed or recorded
+ * - confirmed bookings with no successful charge
+ * - amounts that don't match what was expected
+ * - charges that don't belong to any booking
+ *
+ * Each report is written to the reconciliationReports collection. The job
+ * only reports - fixing a booking is left to an admin.
+ *
+ * LOCAL TESTING (Paystack stand-in + Firestore emulator):
+ * 1. firebase emulators:start --only firestore
+ * 2. PAYSTACK_BASE_URL=http://localhost:4010 FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *    netlify functions:invoke reconcile-payments
+ *
+ * SCHEDULE: every night at 03:00 UTC (see https://ntl.fyi/sched-func)
+ */
+
+import { schedule } from '@netlify/functions';
+import {
+  getBookingById,
+  getBookingsCreatedBetween,
+  getPaymentEntries,
+  recordReconciliationReport,
+} from '../../src/lib/db';
+import {
+  countReconciliationIssues,
+  getTransactionBookingId,
+  listPaystackTransactions,
+  reconcilePayments,
+  ReconciliationReport,
+} from '../../src/lib/reconciliation';
+import { loadSettings } from '../../src/lib/settings';
+import { PaymentEntry } from '../../src/types';
+
+// Default period checked on each run
+const DEFAULT_LOOKBACK_HOURS = 48;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Reads the reconciliation period from the environment.
+ *
+ * @returns Lookback period in hours
+ */
+function getLookbackHours(): number {
+  const configured = Number(process.env.RECONCILIATION_LOOKBACK_HOURS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_LOOKBACK_HOURS;
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Reconciles Paystack transactions with bookings for a period and records the report.
+ * Exported separately from the handler so it can be run directly
+ * against a local Paystack stand-in and the Firestore emulator.
+ *
+ * @param from - Start of the period
+ * @param to - End of the period (defaults to now)
+ * @returns The report (also written to reconciliationReports)
+ * @throws If Paystack transactions can't be listed
+ */
+export async function runReconciliation(
+  from: Date = new Date(Date.now() - getLookbackHours() * 60 * 60 * 1000),
+  to: Date = new Date()
+): Promise<ReconciliationReport> {
+  const listed = await listPaystackTransactions(from, to);
+
+  if (!listed.success || !listed.data) {
+    throw new Error(`Could not list Paystack transactions: ${listed.error}`);
+  }
+
+  const transactions = listed.data;
+  const bookings = await getBookingsCreatedBetween(from, to);
+  const bookingIds = new Set(bookings.map(booking => booking.id));
+
+  // Balance payments and late deposits can belong to bookings created before the period
+  for (const transaction of transactions) {
+    const bookingId = getTransactionBookingId(transaction);
+    if (!bookingId || bookingIds.has(bookingId)) continue;
+
+    bookingIds.add(bookingId);
+    const booking = await getBookingById(bookingId);
+    if (booking) bookings.push(booking);
+  }
+
+  const ledgers: Record<string, PaymentEntry[]> = {};
+  for (const booking of bookings) {
+    ledgers[booking.id] = await getPaymentEntries(booking.id);
+  }
+
+  const report = reconcilePayments({ from, to, transactions, bookings, ledgers, now: to });
+  await recordReconciliationReport(report);
+
+  const issues = countReconciliationIssues(report);
+  const log = issues > 0 ? console.warn : console.log;
+  log('[Reconciliation] Run complete:', {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    transactions: report.transactionsChecked,
+    bookings: report.bookingsChecked,
+    paidUnconfirmed: report.paidUnconfirmed.length,
+    confirmedUnpaid: report.confirmedUnpaid.length,
+    amountMismatches: report.amountMismatches.length,
+    unmatchedTransactions: report.unmatchedTransactions.length,
+  });
+
+  return report;
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler = schedule('0 3 * * *', async () => {
+  try {
+    await loadSettings();
+
+    const report = await runReconciliation();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        transactions: report.transactionsChecked,
+        bookings: report.bookingsChecked,
+        issues: countReconciliationIssues(report),
+      }),
+    };
+  } catch (error) {
+    console.error('[Reconciliation] Error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+});
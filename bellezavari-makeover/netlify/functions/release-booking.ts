@@ -0,0 +1,113 @@
+/**
+ * Release Booking Function
+ *
+ * This Netlify Function lets the booking page give up a pending booking it
+ * created but hasn't paid for, when the client changes their details and the
+ * page has to create a new booking instead. Without it the old hold would keep
+ * the slot until it expired, and a new booking for the same slot would be
+ * turned away as taken.
+ *
+ * USAGE:
+ * POST /.netlify/functions/release-booking
+ * Body: { bookingId, holdSecret }
+ * Returns: { released: boolean }
+ *
+ * SECURITY:
+ * - The hold secret is only known to the page that created the booking;
+ *   the booking stores its hash (see createBooking in src/lib/db.ts)
+ * - Paid or confirmed bookings are never released
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { getBookingById, releasePendingBooking } from '../../src/lib/db';
+import { loadSettings } from '../../src/lib/settings';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Expected request body from the booking page.
+ */
+interface ReleaseBookingRequest {
+  bookingId: string;   // Pending booking to release
+  holdSecret: string;  // Secret createBooking returned for it
+}
+
+/**
+ * Machine-readable error codes returned to the frontend.
+ */
+type ReleaseErrorCode =
+  | 'INVALID_REQUEST'
+  | 'BOOKING_NOT_FOUND'
+  | 'INTERNAL_ERROR';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-store',
+};
+
+/**
+ * Builds a structured JSON error response.
+ *
+ * @param statusCode - HTTP status code
+ * @param code - Machine-readable error code
+ * @param error - Human-readable message
+ */
+function errorResponse(statusCode: number, code: ReleaseErrorCode, error: string): HandlerResponse {
+  return {
+    statusCode,
+    headers,
+    body: JSON.stringify({ error, code }),
+  };
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    await loadSettings();
+
+    const body: ReleaseBookingRequest = JSON.parse(event.body || '{}');
+    const { bookingId, holdSecret } = body;
+
+    if (!bookingId || !holdSecret) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Missing booking or hold secret');
+    }
+
+    if (!(await getBookingById(bookingId))) {
+      return errorResponse(404, 'BOOKING_NOT_FOUND', 'Booking not found');
+    }
+
+    // A wrong secret, or a booking that was paid for or already let go,
+    // is simply not released - the page goes on either way
+    const released = await releasePendingBooking(bookingId, holdSecret);
+
+    if (released) {
+      console.log('[Release Booking] Released pending booking:', { bookingId });
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ released }),
+    };
+  } catch (error) {
+    console.error('[Release Booking] Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+};
@@ -0,0 +1,272 @@
+/**
+ * Reschedule Booking Function
+ *
+ * This Netlify Function lets clients move their own confirmed booking to a
+ * new time, following the cancellation policy: changes made more than
+ * settings.rescheduleNoticeHours (48) before the appointment keep the
+ * deposit; inside that window the booking can't be moved.
+ *
+ * USAGE:
+ * POST /.netlify/functions/reschedule-booking
+ *
+ * 1. Look up: { reference, email }
+ *    Returns the current appointment and whether it can be rescheduled.
+ * 2. Reschedule: { reference, email, date: "YYYY-MM-DD", time: "HH:MM" }
+ *    Re-checks the new slot with the availability engine, moves the booking
+ *    and emails the client an updated calendar invite.
+ *
+ * The reference and email together identify the client; a mismatch returns
+ * the same "not found" error as an unknown reference. Instead of reference
+ * and email, the signed token from a manage link can be sent as { token }.
+ *
+ * The deposit, payment reference and totals are carried over unchanged.
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { getBookingById, getBookingByPaymentRef, rescheduleBooking } from '../../src/lib/db';
+import {
+  calculateEndTime,
+  fromDateKey,
+  getAvailableTimeSlots,
+  getBusinessDateTime,
+  hasRescheduleNotice,
+  zonedTimeToUtc,
+} from '../../src/lib/availability';
+import { bookingRescheduledEmail, sendEmail } from '../../src/lib/email';
+import { getMaxBookingDate } from '../../src/lib/utils';
+import { verifyBookingToken } from '../../src/lib/tokens';
+import { loadSettings } from '../../src/lib/settings';
+import { loadServices } from '../../src/lib/catalog';
+import { getServiceById } from '../../src/data/services';
+import { getBookingStylistId } from '../../src/data/stylists';
+import { settings } from '../../src/data/settings';
+import { Booking, RescheduleBookingResponse } from '../../src/types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Expected request body from the reschedule page.
+ */
+interface RescheduleRequest {
+  reference?: string; // Paystack reference from the confirmation email
+  email?: string;     // Email the booking was made with
+  token?: string;     // Signed manage-link token (alternative to reference + email)
+  date?: string;      // New date in YYYY-MM-DD format (omit to look up only)
+  time?: string;      // New start time in HH:MM format (omit to look up only)
+}
+
+/**
+ * Machine-readable error codes returned to the frontend.
+ */
+type RescheduleErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_TOKEN'
+  | 'BOOKING_NOT_FOUND'
+  | 'BOOKING_NOT_CONFIRMED'
+  | 'NOTICE_TOO_SHORT'
+  | 'SERVICE_UNAVAILABLE'
+  | 'SLOT_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-store',
+};
+
+/**
+ * Builds a structured JSON error response.
+ *
+ * @param statusCode - HTTP status code
+ * @param code - Machine-readable error code
+ * @param error - Human-readable message
+ * @param reason - Optional detail (e.g., why a slot is unavailable)
+ */
+function errorResponse(
+  statusCode: number,
+  code: RescheduleErrorCode,
+  error: string,
+  reason?: string
+): HandlerResponse {
+  return {
+    statusCode,
+    headers,
+    body: JSON.stringify({ error, code, ...(reason && { reason }) }),
+  };
+}
+
+/**
+ * Explains why a booking can't be rescheduled, or returns undefined if it can.
+ */
+function getRescheduleBlocker(booking: Booking): string | undefined {
+  if (booking.bookingStatus !== 'confirmed') {
+    return 'Only confirmed bookings can be rescheduled';
+  }
+  if (!hasRescheduleNotice(booking)) {
+    return `Bookings can't be rescheduled within ${settings.rescheduleNoticeHours} hours of the appointment`;
+  }
+  return undefined;
+}
+
+/**
+ * Maps a booking to the details returned to the reschedule page.
+ */
+function toRescheduleResponse(booking: Booking): RescheduleBookingResponse {
+  const reason = getRescheduleBlocker(booking);
+  return {
+    reference: booking.paymentReference,
+    serviceId: booking.serviceId,
+    serviceName: booking.serviceName,
+    stylistId: getBookingStylistId(booking),
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+    canReschedule: !reason,
+    ...(reason && { reason }),
+  };
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    await Promise.all([loadSettings(), loadServices()]);
+
+    const body: RescheduleRequest = JSON.parse(event.body || '{}');
+    const { reference, email, token, date, time } = body;
+
+    if (!token && (!reference || !email)) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Booking reference and email are required');
+    }
+
+    // Step 1: Find the booking and check it belongs to this client
+    let booking: Booking | null;
+
+    if (token) {
+      const verification = verifyBookingToken(token);
+      if (!verification.success || !verification.bookingId) {
+        return errorResponse(401, 'INVALID_TOKEN', verification.error || 'Invalid link');
+      }
+      booking = await getBookingById(verification.bookingId);
+    } else {
+      booking = await getBookingByPaymentRef(reference!.trim());
+      if (booking && booking.client.email.trim().toLowerCase() !== email!.trim().toLowerCase()) {
+        booking = null;
+      }
+    }
+
+    if (!booking) {
+      return errorResponse(404, 'BOOKING_NOT_FOUND', 'We couldn\'t find a booking with that reference and email');
+    }
+
+    // Look-up only: return the current appointment
+    if (!date && !time) {
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(toRescheduleResponse(booking)),
+      };
+    }
+
+    if (!date || !time || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}$/.test(time)) {
+      return errorResponse(400, 'INVALID_REQUEST', 'A new date (YYYY-MM-DD) and time (HH:MM) are required');
+    }
+
+    // Step 2: Enforce the cancellation policy
+    if (booking.bookingStatus !== 'confirmed') {
+      return errorResponse(409, 'BOOKING_NOT_CONFIRMED', 'Only confirmed bookings can be rescheduled');
+    }
+
+    if (!hasRescheduleNotice(booking)) {
+      return errorResponse(
+        409,
+        'NOTICE_TOO_SHORT',
+        `Bookings can't be rescheduled within ${settings.rescheduleNoticeHours} hours of the appointment`
+      );
+    }
+
+    const service = getServiceById(booking.serviceId);
+
+    if (!service) {
+      return errorResponse(400, 'SERVICE_UNAVAILABLE', 'This service is no longer available');
+    }
+
+    // Step 3: Work out the new times and check they are in the booking window.
+    // The booking keeps the length it was made with, even if the service's
+    // duration has changed in the catalog since
+    const bookedMinutes = Math.round((booking.endTime.getTime() - booking.startTime.getTime()) / 60000);
+    const bookedService = { ...service, durationMinutes: bookedMinutes };
+    const startTime = zonedTimeToUtc(date, time);
+    const endTime = zonedTimeToUtc(date, calculateEndTime(time, bookedMinutes));
+
+    const current = getBusinessDateTime(booking.startTime);
+    if (current.date === date && current.time === time) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Your booking is already at this time');
+    }
+
+    if (startTime <= new Date() || startTime > getMaxBookingDate()) {
+      return errorResponse(409, 'SLOT_UNAVAILABLE', 'This date is outside the booking window');
+    }
+
+    // Step 4: Move the booking. Status, notice and the slot (against the other
+    // bookings that business day) are checked atomically
+    const businessDay = fromDateKey(date);
+    const outcome = await rescheduleBooking(booking.id, startTime, endTime, (otherBookings, blocks) =>
+      getAvailableTimeSlots(
+        bookedService,
+        businessDay,
+        otherBookings,
+        getBookingStylistId(booking), // Rescheduling keeps the same stylist
+        blocks
+      ).find(s => s.time === time)
+    );
+
+    if (outcome.status === 'not-reschedulable') {
+      return errorResponse(409, 'NOTICE_TOO_SHORT', 'This booking can no longer be rescheduled');
+    }
+
+    if (outcome.status === 'slot-unavailable') {
+      return errorResponse(
+        409,
+        'SLOT_UNAVAILABLE',
+        'This time slot is not available',
+        outcome.reason || 'Not an available start time for this service'
+      );
+    }
+
+    const updated = outcome.booking;
+
+    console.log('[Reschedule Booking] Booking moved:', {
+      bookingId: booking.id,
+      reference: booking.paymentReference,
+      from: booking.startTime.toISOString(),
+      to: startTime.toISOString(),
+    });
+
+    // Step 5: Let the client know, with an updated calendar invite
+    await sendEmail(bookingRescheduledEmail(updated));
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(toRescheduleResponse(updated)),
+    };
+  } catch (error) {
+    console.error('[Reschedule Booking] Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+};
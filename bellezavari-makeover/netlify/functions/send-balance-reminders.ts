@@ -0,0 +1,125 @@
+/**
+ * Balance Reminder Emails
+ *
+ * This scheduled Netlify Function emails clients a link to pay their
+ * remaining balance online the day before their appointment. It's optional:
+ * nothing is sent unless BALANCE_REMINDERS_ENABLED is "true".
+ *
+ * WHO GETS A REMINDER:
+ * - Confirmed bookings starting tomorrow (in the business timezone)
+ * - with a balance left to pay
+ * - that haven't had a reminder yet (balanceReminderSentAt)
+ *
+ * Each reminder starts a new balance payment (see src/lib/balancePayments.ts),
+ * so the webhook records it against the booking like an admin-sent link.
+ *
+ * LOCAL TESTING (Firestore emulator):
+ * 1. firebase emulators:start --only firestore
+ * 2. BALANCE_REMINDERS_ENABLED=true FIRESTORE_EMULATOR_HOST=localhost:8080 netlify functions:invoke send-balance-reminders
+ *
+ * SCHEDULE: daily at 14:00 UTC, mid-morning in Toronto (see https://ntl.fyi/sched-func)
+ */
+
+import { schedule } from '@netlify/functions';
+import { getBookingsForDate, markBalanceReminderSent } from '../../src/lib/db';
+import { getBusinessToday, toDateKey } from '../../src/lib/availability';
+import { getBalancePaymentBlocker, startBalancePayment } from '../../src/lib/balancePayments';
+import { balancePaymentEmail, sendEmail } from '../../src/lib/email';
+import { loadSettings } from '../../src/lib/settings';
+
+/**
+ * Summary of one reminder run.
+ */
+interface ReminderSummary {
+  date: string;                 // Appointment day the reminders were for (YYYY-MM-DD)
+  found: number;                // Bookings that needed a reminder
+  sentBookingIds: string[];
+  failedBookingIds: string[];
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * Sends balance reminders for tomorrow's appointments.
+ * Exported separately from the handler so it can be run directly
+ * against the Firestore emulator.
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Summary of the run
+ */
+export async function sendBalanceReminders(now: Date = new Date()): Promise<ReminderSummary> {
+  const tomorrow = getBusinessToday(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  const bookings = (await getBookingsForDate(tomorrow)).filter(booking =>
+    !booking.balanceReminderSentAt && !getBalancePaymentBlocker(booking, now)
+  );
+
+  const summary: ReminderSummary = {
+    date: toDateKey(tomorrow),
+    found: bookings.length,
+    sentBookingIds: [],
+    failedBookingIds: [],
+  };
+
+  for (const booking of bookings) {
+    try {
+      const payment = await startBalancePayment(booking);
+      if (!payment.success || !payment.payment) {
+        throw new Error(payment.error);
+      }
+
+      const email = await sendEmail(balancePaymentEmail(booking, payment.payment.authorization_url));
+      if (!email.success) {
+        throw new Error(email.error);
+      }
+
+      await markBalanceReminderSent(booking.id);
+      summary.sentBookingIds.push(booking.id);
+    } catch (error) {
+      console.error(`[Balance Reminders] Failed to remind booking ${booking.id}:`, error);
+      summary.failedBookingIds.push(booking.id);
+    }
+  }
+
+  console.log('[Balance Reminders] Run complete:', {
+    date: summary.date,
+    found: summary.found,
+    sent: summary.sentBookingIds.length,
+    failed: summary.failedBookingIds.length,
+  });
+
+  return summary;
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler = schedule('0 14 * * *', async () => {
+  if (process.env.BALANCE_REMINDERS_ENABLED !== 'true') {
+    return { statusCode: 200, body: JSON.stringify({ skipped: 'Balance reminders are turned off' }) };
+  }
+
+  try {
+    await loadSettings();
+
+    const summary = await sendBalanceReminders();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        found: summary.found,
+        sent: summary.sentBookingIds.length,
+        failed: summary.failedBookingIds.length,
+      }),
+    };
+  } catch (error) {
+    console.error('[Balance Reminders] Error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+});
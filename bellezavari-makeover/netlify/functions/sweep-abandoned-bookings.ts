@@ -0,0 +1,131 @@
+/**
+ * Abandoned Booking Sweeper
+ *
+ * This scheduled Netlify Function cancels bookings that were started but
+ * never paid for. A booking is created as pending before the client goes to
+ * Paystack; if they close the checkout, it stays pending forever and
+ * clutters the bookings collection.
+ *
+ * WHAT COUNTS AS ABANDONED:
+ * - bookingStatus is 'pending'
+ * - paymentStatus is 'pending' or 'failed' (paid bookings are left alone)
+ * - created more than ABANDONED_BOOKING_MAX_AGE_MINUTES ago (default 60)
+ *
+ * Each run cancels the matches with reason "abandoned" and writes a
+ * summary to the sweeperRuns collection. Each booking is checked again as
+ * it is cancelled, so one paid for during the run is skipped.
+ *
+ * LOCAL TESTING (Firestore emulator):
+ * 1. firebase emulators:start --only firestore
+ * 2. FIRESTORE_EMULATOR_HOST=localhost:8080 netlify functions:invoke sweep-abandoned-bookings
+ *
+ * SCHEDULE: every 15 minutes (see https://ntl.fyi/sched-func)
+ */
+
+import { schedule } from '@netlify/functions';
+import { cancelAbandonedBooking, getAbandonedBookings, recordSweepRun, SweepSummary } from '../../src/lib/db';
+import { loadSettings } from '../../src/lib/settings';
+import { settings } from '../../src/data/settings';
+
+// Default age after which an unpaid pending booking is considered abandoned
+const DEFAULT_MAX_AGE_MINUTES = 60;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Reads the abandonment age from the environment.
+ * Never shorter than the slot hold, so a client still in checkout
+ * is never cancelled from under them.
+ *
+ * @returns Age threshold in minutes
+ */
+function getMaxAgeMinutes(): number {
+  const configured = Number(process.env.ABANDONED_BOOKING_MAX_AGE_MINUTES);
+  const maxAge = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_AGE_MINUTES;
+  return Math.max(maxAge, settings.slotHoldMinutes);
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+/**
+ * Cancels all abandoned bookings older than the age threshold.
+ * Exported separately from the handler so it can be run directly
+ * against the Firestore emulator.
+ *
+ * @param maxAgeMinutes - Age threshold in minutes
+ * @param now - Reference time (defaults to now)
+ * @returns Summary of the run (also written to sweeperRuns)
+ */
+export async function sweepAbandonedBookings(
+  maxAgeMinutes: number = getMaxAgeMinutes(),
+  now: Date = new Date()
+): Promise<SweepSummary> {
+  const cutoff = new Date(now.getTime() - maxAgeMinutes * 60 * 1000);
+  const abandoned = await getAbandonedBookings(cutoff);
+
+  const summary: SweepSummary = {
+    ranAt: now,
+    maxAgeMinutes,
+    cutoff,
+    found: abandoned.length,
+    cancelledBookingIds: [],
+    skippedBookingIds: [],
+    failedBookingIds: [],
+  };
+
+  for (const booking of abandoned) {
+    try {
+      if (await cancelAbandonedBooking(booking.id)) {
+        summary.cancelledBookingIds.push(booking.id);
+      } else {
+        summary.skippedBookingIds.push(booking.id);
+      }
+    } catch (error) {
+      console.error(`[Sweeper] Failed to cancel booking ${booking.id}:`, error);
+      summary.failedBookingIds.push(booking.id);
+    }
+  }
+
+  await recordSweepRun(summary);
+
+  console.log('[Sweeper] Run complete:', {
+    cutoff: cutoff.toISOString(),
+    found: summary.found,
+    cancelled: summary.cancelledBookingIds.length,
+    skipped: summary.skippedBookingIds.length,
+    failed: summary.failedBookingIds.length,
+  });
+
+  return summary;
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+export const handler = schedule('*/15 * * * *', async () => {
+  try {
+    await loadSettings();
+
+    const summary = await sweepAbandonedBookings();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        found: summary.found,
+        cancelled: summary.cancelledBookingIds.length,
+        skipped: summary.skippedBookingIds.length,
+        failed: summary.failedBookingIds.length,
+      }),
+    };
+  } catch (error) {
+    console.error('[Sweeper] Error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+});
@@ -0,0 +1,406 @@
+/**
+ * Local Paystack Stand-in
+ *
+ * A small HTTP server that behaves like the parts of the Paystack API we use,
+ * so the whole booking-to-confirmation loop can run offline:
+ *
+ * 1. create-payment calls POST /transaction/initialize and gets a checkout URL
+ * 2. The client is redirected to the hosted checkout page (GET /checkout/:code)
+ * 3. Paying or declining there sends a signed charge.success / charge.failed
+ *    webhook to our paystack-webhook function
+ * 4. The client is redirected back to the callback URL (/book/success)
+ *
+ * ENDPOINTS:
+ * - POST /transaction/initialize          Start a transaction
+ * - GET  /transaction/verify/:reference   Verify a transaction
+ * - GET  /transaction                     List transactions (used by reconcile-payments)
+ * - GET  /checkout/:accessCode            Hosted checkout page
+ * - POST /mock/transactions/:reference/webhook
+ *                                         Resend the webhook for a transaction
+ *                                         (to test duplicate deliveries)
+ *
+ * Transactions are kept in memory and lost when the server stops.
+ *
+ * USAGE:
+ * 1. PAYSTACK_SECRET_KEY=sk_test_local npm run paystack:mock
+ * 2. In .env.local, set PAYSTACK_BASE_URL=http://localhost:4010 and the same
+ *    PAYSTACK_SECRET_KEY, then run the site with `netlify dev`
+ *
+ * CONFIGURATION (environment variables):
+ * - PAYSTACK_SECRET_KEY        Must match the functions' key - used to check
+ *                              API calls and sign webhooks (default sk_test_local)
+ * - PAYSTACK_MOCK_PORT         Port to listen on (default 4010)
+ * - PAYSTACK_MOCK_WEBHOOK_URL  Where webhooks are sent (default: the
+ *                              paystack-webhook function under netlify dev)
+ */
+
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+
+const SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || 'sk_test_local';
+const PORT = Number(process.env.PAYSTACK_MOCK_PORT) || 4010;
+const WEBHOOK_URL =
+  process.env.PAYSTACK_MOCK_WEBHOOK_URL || 'http://localhost:8888/.netlify/functions/paystack-webhook';
+
+// Transactions by reference, in creation order
+const transactions = new Map();
+let nextTransactionId = 1;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Sends a JSON response in Paystack's { status, message, data } shape.
+ */
+function sendJson(res, statusCode, body) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Sends an error response the way Paystack does.
+ */
+function sendError(res, statusCode, message) {
+  sendJson(res, statusCode, { status: false, message });
+}
+
+/**
+ * Reads the raw request body.
+ */
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Checks the Bearer secret key on API requests.
+ */
+function isAuthorized(req) {
+  return req.headers.authorization === `Bearer ${SECRET_KEY}`;
+}
+
+/**
+ * Escapes text for the checkout page HTML.
+ */
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Converts a stored transaction to the shape Paystack returns from the API
+ * and sends in webhooks.
+ */
+function toPaystackTransaction(transaction) {
+  return {
+    id: transaction.id,
+    domain: 'test',
+    status: transaction.status,
+    reference: transaction.reference,
+    amount: transaction.amount,
+    message: null,
+    gateway_response: transaction.gatewayResponse,
+    paid_at: transaction.paidAt,
+    created_at: transaction.createdAt,
+    channel: 'card',
+    currency: transaction.currency,
+    metadata: transaction.metadata,
+    customer: {
+      id: transaction.id,
+      email: transaction.email,
+      customer_code: `CUS_mock${transaction.id}`,
+    },
+  };
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+/**
+ * Sends a webhook for the transaction's current status, signed with
+ * HMAC-SHA512 of the raw body like Paystack's x-paystack-signature.
+ * Failures are logged, not thrown - Paystack doesn't block checkout on them.
+ *
+ * @returns The webhook response status, or null if it couldn't be delivered
+ */
+async function sendWebhook(transaction) {
+  const event = transaction.status === 'success' ? 'charge.success' : 'charge.failed';
+  const body = JSON.stringify({ event, data: toPaystackTransaction(transaction) });
+  const signature = crypto.createHmac('sha512', SECRET_KEY).update(body).digest('hex');
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-paystack-signature': signature,
+      },
+      body,
+    });
+    console.log(`[Paystack Mock] ${event} webhook for ${transaction.reference}: ${response.status}`);
+    return response.status;
+  } catch (error) {
+    console.error(`[Paystack Mock] Could not deliver ${event} webhook to ${WEBHOOK_URL}:`, error.message);
+    return null;
+  }
+}
+
+// ============================================================================
+// API ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /transaction/initialize
+ * Amounts are in cents. The transaction stays "abandoned" until checkout.
+ */
+async function initializeTransaction(req, res) {
+  let params;
+  try {
+    params = JSON.parse(await readBody(req));
+  } catch {
+    return sendError(res, 400, 'Invalid JSON body');
+  }
+
+  if (!params.email) return sendError(res, 400, 'Email is required');
+  if (!Number.isInteger(Number(params.amount)) || Number(params.amount) <= 0) {
+    return sendError(res, 400, 'Invalid amount');
+  }
+
+  const reference = params.reference || `mock_${crypto.randomBytes(6).toString('hex')}`;
+  if (transactions.has(reference)) {
+    return sendError(res, 400, 'Duplicate Transaction Reference');
+  }
+
+  const transaction = {
+    id: nextTransactionId++,
+    reference,
+    accessCode: crypto.randomBytes(8).toString('hex'),
+    amount: Number(params.amount),
+    currency: params.currency || 'NGN',
+    email: params.email,
+    metadata: params.metadata || {},
+    callbackUrl: params.callback_url || null,
+    status: 'abandoned',
+    gatewayResponse: 'The transaction was not completed',
+    paidAt: null,
+    createdAt: new Date().toISOString(),
+  };
+  transactions.set(reference, transaction);
+
+  console.log(`[Paystack Mock] Initialized ${reference} for ${transaction.amount} ${transaction.currency}`);
+
+  sendJson(res, 200, {
+    status: true,
+    message: 'Authorization URL created',
+    data: {
+      authorization_url: `http://${req.headers.host}/checkout/${transaction.accessCode}`,
+      access_code: transaction.accessCode,
+      reference,
+    },
+  });
+}
+
+/**
+ * GET /transaction/verify/:reference
+ */
+function verifyTransaction(res, reference) {
+  const transaction = transactions.get(reference);
+  if (!transaction) return sendError(res, 400, 'Transaction reference not found');
+
+  sendJson(res, 200, {
+    status: true,
+    message: 'Verification successful',
+    data: toPaystackTransaction(transaction),
+  });
+}
+
+/**
+ * GET /transaction?perPage&page&from&to&status
+ * Newest first, like Paystack.
+ */
+function listTransactions(res, query) {
+  const perPage = Math.max(1, Number(query.get('perPage')) || 50);
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const from = query.get('from') ? new Date(query.get('from')) : null;
+  const to = query.get('to') ? new Date(query.get('to')) : null;
+  const status = query.get('status');
+
+  const matching = [...transactions.values()]
+    .filter(transaction => {
+      const createdAt = new Date(transaction.createdAt);
+      if (from && createdAt < from) return false;
+      if (to && createdAt > to) return false;
+      return !status || transaction.status === status;
+    })
+    .reverse();
+
+  sendJson(res, 200, {
+    status: true,
+    message: 'Transactions retrieved',
+    data: matching.slice((page - 1) * perPage, page * perPage).map(toPaystackTransaction),
+    meta: {
+      total: matching.length,
+      skipped: (page - 1) * perPage,
+      perPage,
+      page,
+      pageCount: Math.max(1, Math.ceil(matching.length / perPage)),
+    },
+  });
+}
+
+// ============================================================================
+// HOSTED CHECKOUT
+// ============================================================================
+
+/**
+ * Finds a transaction by its checkout access code.
+ */
+function findByAccessCode(accessCode) {
+  return [...transactions.values()].find(transaction => transaction.accessCode === accessCode);
+}
+
+/**
+ * GET /checkout/:accessCode
+ * Lets the tester pay, decline, or pay without sending the webhook
+ * (to simulate a missed webhook for reconcile-payments).
+ */
+function showCheckout(res, transaction) {
+  const amount = `${(transaction.amount / 100).toFixed(2)} ${transaction.currency}`;
+  const isOpen = transaction.status === 'abandoned';
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Paystack Mock Checkout</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f5f5f5; display: flex; justify-content: center; padding: 4rem 1rem; }
+    main { background: #fff; border-radius: 8px; padding: 2rem; max-width: 420px; width: 100%; box-shadow: 0 2px 8px rgba(0,0,0,.08); }
+    dt { color: #666; font-size: .85rem; margin-top: .75rem; }
+    dd { margin: 0; font-weight: 600; word-break: break-all; }
+    form { display: inline; }
+    button { margin: 1.5rem .5rem 0 0; padding: .6rem 1.2rem; border: 0; border-radius: 4px; cursor: pointer; }
+    .pay { background: #0ba4db; color: #fff; }
+    .decline { background: #e53e3e; color: #fff; }
+    .silent { background: #eee; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>Test Checkout</h1>
+    <dl>
+      <dt>Amount</dt><dd>${escapeHtml(amount)}</dd>
+      <dt>Email</dt><dd>${escapeHtml(transaction.email)}</dd>
+      <dt>Reference</dt><dd>${escapeHtml(transaction.reference)}</dd>
+      <dt>Status</dt><dd>${escapeHtml(transaction.status)}</dd>
+    </dl>
+    ${isOpen ? `
+    <form method="post"><input type="hidden" name="outcome" value="success"><button class="pay">Pay</button></form>
+    <form method="post"><input type="hidden" name="outcome" value="failed"><button class="decline">Decline</button></form>
+    <form method="post"><input type="hidden" name="outcome" value="success-no-webhook"><button class="silent">Pay without webhook</button></form>
+    ` : '<p>This transaction has already been completed.</p>'}
+  </main>
+</body>
+</html>`);
+}
+
+/**
+ * POST /checkout/:accessCode
+ * Completes the transaction, sends the webhook and redirects to the callback URL.
+ */
+async function completeCheckout(req, res, transaction) {
+  if (transaction.status !== 'abandoned') {
+    return showCheckout(res, transaction);
+  }
+
+  const outcome = new URLSearchParams(await readBody(req)).get('outcome');
+  const succeeded = outcome === 'success' || outcome === 'success-no-webhook';
+
+  transaction.status = succeeded ? 'success' : 'failed';
+  transaction.gatewayResponse = succeeded ? 'Successful' : 'Declined';
+  transaction.paidAt = succeeded ? new Date().toISOString() : null;
+
+  console.log(`[Paystack Mock] Checkout ${transaction.reference}: ${outcome}`);
+
+  if (outcome !== 'success-no-webhook') {
+    await sendWebhook(transaction);
+  }
+
+  if (!transaction.callbackUrl) {
+    return showCheckout(res, transaction);
+  }
+
+  const redirect = new URL(transaction.callbackUrl);
+  redirect.searchParams.set('trxref', transaction.reference);
+  redirect.searchParams.set('reference', transaction.reference);
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const path = url.pathname.replace(/\/+$/, '');
+
+  try {
+    // Hosted checkout is opened by the client's browser, so it has no API key
+    const checkoutMatch = /^\/checkout\/([^/]+)$/.exec(path);
+    if (checkoutMatch) {
+      const transaction = findByAccessCode(checkoutMatch[1]);
+      if (!transaction) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        return res.end('Checkout not found');
+      }
+      return req.method === 'POST'
+        ? await completeCheckout(req, res, transaction)
+        : showCheckout(res, transaction);
+    }
+
+    const resendMatch = /^\/mock\/transactions\/([^/]+)\/webhook$/.exec(path);
+    if (resendMatch && req.method === 'POST') {
+      const transaction = transactions.get(decodeURIComponent(resendMatch[1]));
+      if (!transaction || transaction.status === 'abandoned') {
+        return sendError(res, 404, 'No completed transaction with that reference');
+      }
+      const webhookStatus = await sendWebhook(transaction);
+      return sendJson(res, 200, { status: true, message: 'Webhook sent', data: { webhookStatus } });
+    }
+
+    if (!isAuthorized(req)) {
+      return sendError(res, 401, 'Invalid key');
+    }
+
+    if (path === '/transaction/initialize' && req.method === 'POST') {
+      return await initializeTransaction(req, res);
+    }
+
+    const verifyMatch = /^\/transaction\/verify\/([^/]+)$/.exec(path);
+    if (verifyMatch && req.method === 'GET') {
+      return verifyTransaction(res, decodeURIComponent(verifyMatch[1]));
+    }
+
+    if (path === '/transaction' && req.method === 'GET') {
+      return listTransactions(res, url.searchParams);
+    }
+
+    sendError(res, 404, `No mock for ${req.method} ${path}`);
+  } catch (error) {
+    console.error('[Paystack Mock] Error:', error);
+    sendError(res, 500, 'Mock server error');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[Paystack Mock] Listening on http://localhost:${PORT}`);
+  console.log(`[Paystack Mock] Sending webhooks to ${WEBHOOK_URL}`);
+});
@@ -3,9 +3,10 @@
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { ArrowRight, Crown, Heart, Sparkles, Star, Instagram } from 'lucide-react';
-import { settings } from '@/data/settings';
+import { useSettings } from '@/components/SettingsProvider';
 
 export default function AboutPage() {
+  const settings = useSettings();
   return (
     <>
       {/* Hero Section */}
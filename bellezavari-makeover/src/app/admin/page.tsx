@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { 
   Calendar, 
@@ -14,102 +15,110 @@ import {
   AlertCircle,
   DollarSign,
   Eye,
-  X
+  X,
+  UserX,
+  RotateCcw,
+  Link2,
+  Plus,
+  Scissors,
+  Lock,
+  Trash2,
+  Settings
 } from 'lucide-react';
-import { Booking } from '@/types';
-import { formatPrice, formatTime, formatDate, formatDuration } from '@/lib/utils';
-import { services } from '@/data/services';
-
-// Mock bookings for demo (in production, fetch from Firestore)
-const mockBookings: Booking[] = [
-  {
-    id: '1',
-    serviceId: 'knotless-braids-medium',
-    serviceName: 'Medium Knotless Braids',
-    startTime: new Date(Date.now() + 86400000), // Tomorrow
-    endTime: new Date(Date.now() + 86400000 + 6 * 3600000),
-    client: {
-      firstName: 'Sarah',
-      lastName: 'Johnson',
-      email: 'sarah.j@email.com',
-      phone: '07700 900123',
-      notes: 'First time client, referred by Instagram',
-    },
-    extras: [{ extraId: 'hair-provided', name: 'Hair Provided', price: 40 }],
-    subtotal: 220,
-    extrasTotal: 40,
-    depositAmount: 80,
-    totalPaid: 80,
-    balanceDue: 180,
-    paymentReference: 'PAY_abc123',
-    paymentStatus: 'paid',
-    bookingStatus: 'confirmed',
-    createdAt: new Date(Date.now() - 172800000),
-    updatedAt: new Date(Date.now() - 172800000),
-    policyAcknowledged: true,
-  },
-  {
-    id: '2',
-    serviceId: 'butterfly-locs',
-    serviceName: 'Butterfly Locs',
-    startTime: new Date(Date.now() + 172800000), // Day after tomorrow
-    endTime: new Date(Date.now() + 172800000 + 7 * 3600000),
-    client: {
-      firstName: 'Michelle',
-      lastName: 'Williams',
-      email: 'michelle.w@email.com',
-      phone: '07700 900456',
-    },
-    extras: [
-      { extraId: 'home-service', name: 'Home Service', price: 50 },
-      { extraId: 'takedown', name: 'Takedown Service', price: 30 },
-    ],
-    subtotal: 260,
-    extrasTotal: 80,
-    depositAmount: 100,
-    totalPaid: 100,
-    balanceDue: 240,
-    paymentReference: 'PAY_def456',
-    paymentStatus: 'paid',
-    bookingStatus: 'confirmed',
-    createdAt: new Date(Date.now() - 86400000),
-    updatedAt: new Date(Date.now() - 86400000),
-    policyAcknowledged: true,
-  },
-  {
-    id: '3',
-    serviceId: 'silk-press',
-    serviceName: 'Silk Press',
-    startTime: new Date(Date.now() + 259200000), // 3 days from now
-    endTime: new Date(Date.now() + 259200000 + 2.5 * 3600000),
-    client: {
-      firstName: 'Amara',
-      lastName: 'Okafor',
-      email: 'amara.o@email.com',
-      phone: '07700 900789',
-      notes: 'Regular client',
-    },
-    extras: [],
-    subtotal: 90,
-    extrasTotal: 0,
-    depositAmount: 40,
-    totalPaid: 40,
-    balanceDue: 50,
-    paymentReference: 'PAY_ghi789',
-    paymentStatus: 'paid',
-    bookingStatus: 'confirmed',
-    createdAt: new Date(Date.now() - 43200000),
-    updatedAt: new Date(Date.now() - 43200000),
-    policyAcknowledged: true,
-  },
-];
+import { Block, Booking, ClientNoShowStatus, PaymentEntry, PaymentEvent } from '@/types';
+import { formatPrice, formatTime, formatDate, formatDateShort, formatDuration } from '@/lib/utils';
+import { settings } from '@/data/settings';
+import { getBookingStylistId, getStylistById, stylists } from '@/data/stylists';
+import {
+  fromDateKey,
+  getBusinessDateTime,
+  getBusinessDayBounds,
+  getBusinessToday,
+  toDateKey,
+  zonedTimeToUtc,
+} from '@/lib/availability';
+import {
+  clearClientFlag,
+  createBlock,
+  deleteBlock,
+  getBlocksForDateRange,
+  getBookingsForDateRange,
+  getClientNoShowStatus,
+  getPaymentEntries,
+  getPaymentEventsForBooking,
+  isDemoMode,
+  markNoShow,
+  recordManualPayment,
+} from '@/lib/db';
+import { LedgerTotals, getBookingLedgerTotals } from '@/lib/ledger';
+import { useServices } from '@/components/CatalogProvider';
 
 type ViewMode = 'day' | 'week';
 
+const paymentTypeLabels: Record<PaymentEntry['type'], string> = {
+  deposit: 'Deposit',
+  balance: 'Balance',
+  tip: 'Tip',
+  refund: 'Refund',
+};
+
+const paymentMethodLabels: Record<PaymentEntry['method'], string> = {
+  paystack: 'Paystack',
+  cash: 'Cash',
+  card: 'Card',
+  'e-transfer': 'E-transfer',
+  other: 'Other',
+};
+
+/**
+ * In-person payment being entered in the booking detail view.
+ */
+interface ManualPaymentForm {
+  amount: string;
+  type: 'balance' | 'tip';
+  method: Exclude<PaymentEntry['method'], 'paystack'>;
+  note: string;
+}
+
+const emptyPaymentForm: ManualPaymentForm = { amount: '', type: 'balance', method: 'cash', note: '' };
+
+/**
+ * Block being entered from the schedule. Times are in the business timezone.
+ */
+interface BlockForm {
+  date: string;       // YYYY-MM-DD
+  startTime: string;  // HH:MM
+  endTime: string;    // HH:MM
+  stylistId: string;  // Empty for every stylist
+  reason: string;
+}
+
+const ADMIN_KEY_STORAGE = 'bellezavari-admin-key';
+
+/**
+ * Gets the admin key sent to admin-only functions (see src/lib/adminAuth.ts),
+ * asking for it once per browser session.
+ */
+function getAdminKey(): string | null {
+  let key = sessionStorage.getItem(ADMIN_KEY_STORAGE);
+  if (!key) {
+    key = window.prompt('Enter the admin key')?.trim() || null;
+    if (key) sessionStorage.setItem(ADMIN_KEY_STORAGE, key);
+  }
+  return key;
+}
+
 export default function AdminPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('week');
-  const [currentDate, setCurrentDate] = useState(new Date());
+  // A calendar date; the schedule shows business days in settings.timezone
+  const [currentDate, setCurrentDate] = useState(() => getBusinessToday());
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [showBlockForm, setShowBlockForm] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Bumped to reload the schedule after a booking is changed in the detail view
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Get the start of the week (Monday)
   const getWeekStart = (date: Date) => {
@@ -128,16 +137,53 @@ export default function AdminPage() {
     return date;
   });
 
+  // Period shown: the whole week, or just the current day
+  const rangeStartTime = getBusinessDayBounds(viewMode === 'week' ? weekStart : currentDate).start.getTime();
+  const rangeEndTime = getBusinessDayBounds(viewMode === 'week' ? weekDays[6] : currentDate).end.getTime();
+
+  // Load the bookings and blocks for the period shown
+  useEffect(() => {
+    let cancelled = false;
+    const rangeStart = new Date(rangeStartTime);
+    const rangeEnd = new Date(rangeEndTime);
+
+    Promise.all([getBookingsForDateRange(rangeStart, rangeEnd), getBlocksForDateRange(rangeStart, rangeEnd, { withReasons: true })])
+      .then(([bookingResults, blockResults]) => {
+        if (cancelled) return;
+        setBookings(bookingResults);
+        setBlocks(blockResults);
+        setLoadError(null);
+      })
+      .catch((error) => {
+        console.error('Schedule load error:', error);
+        if (!cancelled) setLoadError('Could not load bookings. Please refresh the page.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeStartTime, rangeEndTime, refreshKey]);
+
   // Filter bookings for current view
   const getBookingsForDate = (date: Date) => {
-    return mockBookings.filter(booking => {
-      const bookingDate = new Date(booking.startTime);
-      return (
-        bookingDate.getDate() === date.getDate() &&
-        bookingDate.getMonth() === date.getMonth() &&
-        bookingDate.getFullYear() === date.getFullYear()
-      );
-    });
+    const dateKey = toDateKey(date);
+    return bookings.filter(booking => getBusinessDateTime(new Date(booking.startTime)).date === dateKey);
+  };
+
+  // Blocks that cover any part of the day
+  const getBlocksForDate = (date: Date) => {
+    const { start, end } = getBusinessDayBounds(date);
+    return blocks.filter(block => new Date(block.startTime) <= end && new Date(block.endTime) > start);
+  };
+
+  const handleDeleteBlock = async (blockId: string) => {
+    try {
+      await deleteBlock(blockId);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Block delete error:', error);
+      setLoadError('Could not remove the block. Please try again.');
+    }
   };
 
   const navigate = (direction: 'prev' | 'next') => {
@@ -151,16 +197,11 @@ export default function AdminPage() {
   };
 
   const goToToday = () => {
-    setCurrentDate(new Date());
+    setCurrentDate(getBusinessToday());
   };
 
   const isToday = (date: Date) => {
-    const today = new Date();
-    return (
-      date.getDate() === today.getDate() &&
-      date.getMonth() === today.getMonth() &&
-      date.getFullYear() === today.getFullYear()
-    );
+    return toDateKey(date) === getBusinessDateTime(new Date()).date;
   };
 
   return (
@@ -178,28 +219,52 @@ export default function AdminPage() {
               </p>
             </div>
 
-            {/* View Mode Toggle */}
-            <div className="flex items-center gap-2 bg-white rounded-lg p-1 shadow-sm">
-              <button
-                onClick={() => setViewMode('day')}
-                className={`px-4 py-2 rounded text-sm font-medium transition-all ${
-                  viewMode === 'day'
-                    ? 'bg-primary text-white'
-                    : 'text-charcoal hover:bg-cream'
-                }`}
+            <div className="flex items-center gap-3">
+              <Link
+                href="/admin/services"
+                className="btn btn-outline py-2 px-4 text-sm flex items-center gap-2"
               >
-                Day
-              </button>
+                <Scissors size={16} />
+                Services
+              </Link>
+              <Link
+                href="/admin/settings"
+                className="btn btn-outline py-2 px-4 text-sm flex items-center gap-2"
+              >
+                <Settings size={16} />
+                Settings
+              </Link>
               <button
-                onClick={() => setViewMode('week')}
-                className={`px-4 py-2 rounded text-sm font-medium transition-all ${
-                  viewMode === 'week'
-                    ? 'bg-primary text-white'
-                    : 'text-charcoal hover:bg-cream'
-                }`}
+                onClick={() => setShowBlockForm(true)}
+                className="btn btn-outline py-2 px-4 text-sm flex items-center gap-2"
               >
-                Week
+                <Lock size={16} />
+                Block Time
               </button>
+
+              {/* View Mode Toggle */}
+              <div className="flex items-center gap-2 bg-white rounded-lg p-1 shadow-sm">
+                <button
+                  onClick={() => setViewMode('day')}
+                  className={`px-4 py-2 rounded text-sm font-medium transition-all ${
+                    viewMode === 'day'
+                      ? 'bg-primary text-white'
+                      : 'text-charcoal hover:bg-cream'
+                  }`}
+                >
+                  Day
+                </button>
+                <button
+                  onClick={() => setViewMode('week')}
+                  className={`px-4 py-2 rounded text-sm font-medium transition-all ${
+                    viewMode === 'week'
+                      ? 'bg-primary text-white'
+                      : 'text-charcoal hover:bg-cream'
+                  }`}
+                >
+                  Week
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -238,7 +303,7 @@ export default function AdminPage() {
             </h2>
 
             <div className="text-sm text-charcoal/60">
-              {mockBookings.length} bookings total
+              {bookings.length} {bookings.length === 1 ? 'booking' : 'bookings'} this {viewMode}
             </div>
           </div>
         </div>
@@ -247,11 +312,27 @@ export default function AdminPage() {
       {/* Schedule View */}
       <section className="section bg-cream-dark/30 min-h-[60vh]">
         <div className="container">
+          {isDemoMode && (
+            <div className="bg-white border border-warning/30 rounded-lg p-4 mb-6 flex items-start gap-3">
+              <AlertCircle size={20} className="text-warning flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-charcoal/70">
+                Demo mode: Firebase isn&apos;t configured, so these are sample bookings kept in this
+                browser tab. Changes are lost when the page reloads.
+              </p>
+            </div>
+          )}
+          {loadError && (
+            <div className="bg-error/5 border border-error/20 rounded-lg p-4 mb-6 flex items-start gap-3">
+              <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-error">{loadError}</p>
+            </div>
+          )}
           {viewMode === 'week' ? (
             // Week View
             <div className="grid grid-cols-7 gap-3">
               {weekDays.map((date) => {
                 const dayBookings = getBookingsForDate(date);
+                const dayBlocks = getBlocksForDate(date);
                 const dayName = date.toLocaleDateString('en-CA', { weekday: 'short' });
                 const dayNum = date.getDate();
 
@@ -276,6 +357,20 @@ export default function AdminPage() {
 
                     {/* Bookings */}
                     <div className="p-2 min-h-[200px] space-y-2">
+                      {dayBlocks.map((block) => (
+                        <div
+                          key={block.id}
+                          className="p-2 bg-charcoal/5 rounded border-l-4 border-charcoal/30"
+                        >
+                          <div className="text-xs text-charcoal/60 font-medium flex items-center gap-1">
+                            <Lock size={10} />
+                            {formatBlockTimes(block)}
+                          </div>
+                          <div className="text-xs text-charcoal/60 truncate">
+                            {getBlockStylistLabel(block)}
+                          </div>
+                        </div>
+                      ))}
                       {dayBookings.length > 0 ? (
                         dayBookings.map((booking) => (
                           <motion.button
@@ -285,9 +380,7 @@ export default function AdminPage() {
                             className="w-full text-left p-2 bg-primary/10 rounded border-l-4 border-primary hover:bg-primary/20 transition-colors"
                           >
                             <div className="text-xs text-primary font-medium">
-                              {formatTime(
-                                `${new Date(booking.startTime).getHours()}:${new Date(booking.startTime).getMinutes().toString().padStart(2, '0')}`
-                              )}
+                              {formatTime(getBusinessDateTime(new Date(booking.startTime)).time)}
                             </div>
                             <div className="text-sm font-medium text-secondary truncate">
                               {booking.serviceName}
@@ -297,7 +390,7 @@ export default function AdminPage() {
                             </div>
                           </motion.button>
                         ))
-                      ) : (
+                      ) : dayBlocks.length === 0 && (
                         <div className="h-full flex items-center justify-center text-charcoal/30 text-sm">
                           No bookings
                         </div>
@@ -316,6 +409,13 @@ export default function AdminPage() {
                 </h3>
               </div>
               <div className="divide-y divide-cream-dark">
+                {getBlocksForDate(currentDate).map((block) => (
+                  <BlockRow
+                    key={block.id}
+                    block={block}
+                    onDelete={() => handleDeleteBlock(block.id)}
+                  />
+                ))}
                 {getBookingsForDate(currentDate).length > 0 ? (
                   getBookingsForDate(currentDate).map((booking) => (
                     <BookingRow
@@ -324,7 +424,7 @@ export default function AdminPage() {
                       onClick={() => setSelectedBooking(booking)}
                     />
                   ))
-                ) : (
+                ) : getBlocksForDate(currentDate).length === 0 && (
                   <div className="p-12 text-center text-charcoal/50">
                     <Calendar className="w-12 h-12 mx-auto mb-4 opacity-30" />
                     <p>No bookings for this day</p>
@@ -336,21 +436,222 @@ export default function AdminPage() {
         </div>
       </section>
 
+      {/* Block Time Modal */}
+      {showBlockForm && (
+        <BlockTimeModal
+          initialDate={toDateKey(currentDate)}
+          onClose={(saved) => {
+            setShowBlockForm(false);
+            if (saved) setRefreshKey(key => key + 1);
+          }}
+        />
+      )}
+
       {/* Booking Detail Modal */}
       {selectedBooking && (
         <BookingDetailModal
           booking={selectedBooking}
-          onClose={() => setSelectedBooking(null)}
+          onClose={() => {
+            setSelectedBooking(null);
+            setRefreshKey(key => key + 1);
+          }}
         />
       )}
     </>
   );
 }
 
+/**
+ * Formats a block's times in the business timezone, e.g. "2:00 PM - 4:00 PM".
+ */
+function formatBlockTimes(block: Block): string {
+  const start = getBusinessDateTime(new Date(block.startTime));
+  const end = getBusinessDateTime(new Date(block.endTime));
+  return `${formatTime(start.time)} - ${formatTime(end.time)}`;
+}
+
+/**
+ * Who a block applies to: a stylist's name, or every stylist.
+ */
+function getBlockStylistLabel(block: Block): string {
+  if (!block.stylistId) return 'All stylists';
+  return getStylistById(block.stylistId)?.name || block.stylistId;
+}
+
+function BlockRow({ block, onDelete }: { block: Block; onDelete: () => void }) {
+  return (
+    <div className="p-4 bg-charcoal/5 flex items-center gap-4">
+      <Lock size={18} className="text-charcoal/40 flex-shrink-0" />
+      <div className="flex-1">
+        <div className="font-medium text-secondary">
+          Blocked {formatBlockTimes(block)}
+        </div>
+        <div className="text-sm text-charcoal/60">
+          {getBlockStylistLabel(block)}
+          {block.reason && ` · ${block.reason}`}
+        </div>
+      </div>
+      <button
+        onClick={onDelete}
+        className="p-2 hover:bg-cream rounded transition-colors"
+        title="Remove block"
+      >
+        <Trash2 size={18} className="text-charcoal/50" />
+      </button>
+    </div>
+  );
+}
+
+function BlockTimeModal({ initialDate, onClose }: { initialDate: string; onClose: (saved: boolean) => void }) {
+  const [form, setForm] = useState<BlockForm>({
+    date: initialDate,
+    startTime: '14:00',
+    endTime: '16:00',
+    stylistId: '',
+    reason: '',
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!form.date || !form.startTime || !form.endTime) {
+      setError('Choose a date, start time and end time.');
+      return;
+    }
+    if (form.endTime <= form.startTime) {
+      setError('The end time must be after the start time.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createBlock({
+        stylistId: form.stylistId || undefined,
+        startTime: zonedTimeToUtc(form.date, form.startTime),
+        endTime: zonedTimeToUtc(form.date, form.endTime),
+        reason: form.reason.trim() || undefined,
+      });
+      onClose(true);
+    } catch (saveError) {
+      console.error('Block create error:', saveError);
+      setError('Could not block this time. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-charcoal/50 flex items-center justify-center p-4"
+      onClick={() => onClose(false)}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-lg shadow-xl max-w-md w-full"
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-cream-dark flex items-start justify-between">
+          <div>
+            <h2 className="font-display text-2xl text-secondary">Block Time</h2>
+            <p className="text-charcoal/60">Clients can&apos;t book appointments during a block.</p>
+          </div>
+          <button
+            onClick={() => onClose(false)}
+            className="p-2 hover:bg-cream rounded transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Form */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="label">Stylist</label>
+            <select
+              value={form.stylistId}
+              onChange={(e) => setForm(prev => ({ ...prev, stylistId: e.target.value }))}
+              className="input"
+            >
+              <option value="">All stylists</option>
+              {stylists.map((stylist) => (
+                <option key={stylist.id} value={stylist.id}>{stylist.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Date</label>
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+              className="input"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">From</label>
+              <input
+                type="time"
+                value={form.startTime}
+                onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">To</label>
+              <input
+                type="time"
+                value={form.endTime}
+                onChange={(e) => setForm(prev => ({ ...prev, endTime: e.target.value }))}
+                className="input"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="label">Reason (Optional)</label>
+            <input
+              type="text"
+              value={form.reason}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="e.g. Doctor's appointment"
+              className="input"
+            />
+          </div>
+          <p className="text-xs text-charcoal/50">
+            Times are in {settings.timezone}. Existing bookings in this period are not affected.
+          </p>
+          {error && <p className="text-sm text-error">{error}</p>}
+        </div>
+
+        {/* Actions */}
+        <div className="p-6 border-t border-cream-dark flex justify-end gap-3">
+          <button onClick={() => onClose(false)} className="btn btn-outline py-2 px-4 text-sm">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="btn btn-primary py-2 px-4 text-sm disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Block Time'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
 function BookingRow({ booking, onClick }: { booking: Booking; onClick: () => void }) {
-  const startTime = new Date(booking.startTime);
-  const endTime = new Date(booking.endTime);
-  const service = services.find(s => s.id === booking.serviceId);
+  const start = getBusinessDateTime(new Date(booking.startTime));
+  const end = getBusinessDateTime(new Date(booking.endTime));
+  const service = useServices().find(s => s.id === booking.serviceId);
+  const stylist = getStylistById(getBookingStylistId(booking));
 
   return (
     <div
@@ -361,10 +662,10 @@ function BookingRow({ booking, onClick }: { booking: Booking; onClick: () => voi
         {/* Time */}
         <div className="w-24 flex-shrink-0">
           <div className="text-lg font-display text-primary">
-            {formatTime(`${startTime.getHours()}:${startTime.getMinutes().toString().padStart(2, '0')}`)}
+            {formatTime(start.time)}
           </div>
           <div className="text-xs text-charcoal/50">
-            to {formatTime(`${endTime.getHours()}:${endTime.getMinutes().toString().padStart(2, '0')}`)}
+            to {formatTime(end.time)}
           </div>
         </div>
 
@@ -372,12 +673,29 @@ function BookingRow({ booking, onClick }: { booking: Booking; onClick: () => voi
         <div className="flex-1">
           <h4 className="font-display text-lg text-secondary">
             {booking.serviceName}
+            {booking.needsReview && (
+              <span className="badge badge-warning ml-2 align-middle">Needs Review</span>
+            )}
+            {booking.dispute && !booking.dispute.resolvedAt && (
+              <span className="badge badge-warning ml-2 align-middle">Disputed</span>
+            )}
+            {!!booking.refundedAmount && (
+              <span className="badge badge-warning ml-2 align-middle">
+                {booking.paymentStatus === 'refunded' ? 'Refunded' : 'Partly Refunded'}
+              </span>
+            )}
           </h4>
           <div className="flex items-center gap-4 text-sm text-charcoal/60 mt-1">
             <span className="flex items-center gap-1">
               <User size={14} />
               {booking.client.firstName} {booking.client.lastName}
             </span>
+            {stylist && (
+              <span className="flex items-center gap-1">
+                <Scissors size={14} />
+                {stylist.name}
+              </span>
+            )}
             {service && (
               <span className="flex items-center gap-1">
                 <Clock size={14} />
@@ -422,6 +740,143 @@ function BookingRow({ booking, onClick }: { booking: Booking; onClick: () => voi
 function BookingDetailModal({ booking, onClose }: { booking: Booking; onClose: () => void }) {
   const startTime = new Date(booking.startTime);
   const endTime = new Date(booking.endTime);
+  const stylist = getStylistById(getBookingStylistId(booking));
+
+  const [bookingStatus, setBookingStatus] = useState(booking.bookingStatus);
+  const [noShowStatus, setNoShowStatus] = useState<ClientNoShowStatus | null>(null);
+  const [paymentEvents, setPaymentEvents] = useState<PaymentEvent[]>([]);
+  const [totals, setTotals] = useState<LedgerTotals>(() => getBookingLedgerTotals(booking));
+  const [paymentEntries, setPaymentEntries] = useState<PaymentEntry[]>([]);
+  const [paymentForm, setPaymentForm] = useState<ManualPaymentForm | null>(null);
+  const [balanceLink, setBalanceLink] = useState<string | null>(null);
+  const [balanceLinkNote, setBalanceLinkNote] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Load the client's no-show history (by email and phone)
+  useEffect(() => {
+    let cancelled = false;
+
+    getClientNoShowStatus(booking.client.email, booking.client.phone)
+      .then((status) => {
+        if (!cancelled) setNoShowStatus(status);
+      })
+      .catch((error) => {
+        console.error('No-show status error:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.client.email, booking.client.phone]);
+
+  // Load the booking's payments ledger
+  useEffect(() => {
+    let cancelled = false;
+
+    getPaymentEntries(booking.id)
+      .then((entries) => {
+        if (!cancelled) setPaymentEntries(entries);
+      })
+      .catch((error) => {
+        console.error('Payments ledger error:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  // Load refunds and disputes recorded by the Paystack webhook
+  useEffect(() => {
+    let cancelled = false;
+
+    getPaymentEventsForBooking(booking.id)
+      .then((events) => {
+        if (!cancelled) setPaymentEvents(events);
+      })
+      .catch((error) => {
+        console.error('Payment events error:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsUpdating(true);
+    setActionError(null);
+    try {
+      await action();
+      setNoShowStatus(await getClientNoShowStatus(booking.client.email, booking.client.phone));
+    } catch (error) {
+      console.error('Admin action error:', error);
+      setActionError('Could not update the booking. Please try again.');
+    }
+    setIsUpdating(false);
+  };
+
+  const handleMarkNoShow = () => runAction(async () => {
+    await markNoShow(booking.id);
+    setBookingStatus('no-show');
+  });
+
+  // Balance can be paid online until the end of the appointment day
+  const canCollectBalance =
+    bookingStatus === 'confirmed' &&
+    totals.balanceDue > 0 &&
+    getBusinessDateTime(startTime).date >= getBusinessDateTime(new Date()).date;
+
+  const handleCreateBalanceLink = async (sendEmail: boolean) => {
+    setIsUpdating(true);
+    setActionError(null);
+    setBalanceLinkNote(null);
+    const adminKey = getAdminKey();
+    if (!adminKey) {
+      setActionError('The admin key is needed to create payment links.');
+      setIsUpdating(false);
+      return;
+    }
+    try {
+      const response = await fetch('/.netlify/functions/create-payment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': adminKey },
+        body: JSON.stringify({ bookingId: booking.id, paymentType: 'balance', sendEmail }),
+      });
+      const data = await response.json();
+      if (response.status === 401) {
+        sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+        setActionError('The admin key was not accepted. Please try again.');
+      } else if (!response.ok) {
+        setActionError(data.error || 'Could not create the payment link.');
+      } else {
+        setBalanceLink(data.authorizationUrl);
+        if (sendEmail) {
+          setBalanceLinkNote(data.emailSent ? `Emailed to ${booking.client.email}` : 'Link created, but the email could not be sent');
+        }
+      }
+    } catch (error) {
+      console.error('Balance link error:', error);
+      setActionError('Could not create the payment link. Please try again.');
+    }
+    setIsUpdating(false);
+  };
+
+  const handleRecordPayment = () => runAction(async () => {
+    if (!paymentForm) return;
+    const updated = await recordManualPayment(booking.id, {
+      type: paymentForm.type,
+      method: paymentForm.method,
+      amount: Math.round(parseFloat(paymentForm.amount) * 100) / 100,
+      ...(paymentForm.note.trim() && { note: paymentForm.note.trim() }),
+    });
+    setTotals(getBookingLedgerTotals(updated));
+    setPaymentEntries(await getPaymentEntries(booking.id));
+    setPaymentForm(null);
+  });
+
+  const handleClearFlag = () => runAction(() => clearClientFlag(booking.client.email, booking.client.phone));
 
   return (
     <motion.div
@@ -458,6 +913,38 @@ function BookingDetailModal({ booking, onClose }: { booking: Booking; onClose: (
 
         {/* Content */}
         <div className="p-6 space-y-6">
+          {/* Review Flag */}
+          {booking.needsReview && (
+            <div className="flex items-start gap-3 bg-warning/10 border border-warning/30 rounded p-3 text-sm">
+              <AlertCircle size={18} className="text-warning flex-shrink-0 mt-0.5" />
+              <div>
+                <h4 className="font-medium text-secondary">Needs Review</h4>
+                <p className="text-charcoal/70">{booking.reviewReason}</p>
+              </div>
+            </div>
+          )}
+
+          {/* No-Show Flag */}
+          {noShowStatus?.requiresFullPayment && (
+            <div className="flex items-start gap-3 bg-error/5 border border-error/20 rounded p-3 text-sm">
+              <UserX size={18} className="text-error flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <h4 className="font-medium text-secondary">Full Payment Required</h4>
+                <p className="text-charcoal/70">
+                  This client has {noShowStatus.noShowCount} recorded no-show
+                  {noShowStatus.noShowCount === 1 ? '' : 's'} and must pay in full for new bookings.
+                </p>
+                <button
+                  onClick={handleClearFlag}
+                  disabled={isUpdating}
+                  className="mt-2 text-primary hover:underline disabled:opacity-50"
+                >
+                  Clear flag
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Date & Time */}
           <div className="flex items-start gap-4">
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
@@ -466,9 +953,15 @@ function BookingDetailModal({ booking, onClose }: { booking: Booking; onClose: (
             <div>
               <h4 className="font-medium text-secondary">Date & Time</h4>
               <p className="text-charcoal/70">
-                {formatDate(startTime)}
+                {formatDate(fromDateKey(getBusinessDateTime(startTime).date))}
                 <br />
-                {formatTime(`${startTime.getHours()}:${startTime.getMinutes().toString().padStart(2, '0')}`)} - {formatTime(`${endTime.getHours()}:${endTime.getMinutes().toString().padStart(2, '0')}`)}
+                {formatTime(getBusinessDateTime(startTime).time)} - {formatTime(getBusinessDateTime(endTime).time)}
+                {stylist && (
+                  <>
+                    <br />
+                    with {stylist.name}
+                  </>
+                )}
               </p>
             </div>
           </div>
@@ -545,19 +1038,167 @@ function BookingDetailModal({ booking, onClose }: { booking: Booking; onClose: (
                   <span className="font-semibold">{formatPrice(booking.subtotal + booking.extrasTotal)}</span>
                 </div>
                 <div className="flex justify-between text-success">
-                  <span>Deposit Paid</span>
-                  <span className="font-semibold">{formatPrice(booking.totalPaid)}</span>
+                  <span>{totals.totalPaid > booking.depositAmount ? 'Paid' : 'Deposit Paid'}</span>
+                  <span className="font-semibold">{formatPrice(totals.totalPaid)}</span>
                 </div>
+                {totals.refundedAmount > 0 && (
+                  <div className="flex justify-between text-error">
+                    <span>Refunded (included above)</span>
+                    <span className="font-semibold">-{formatPrice(totals.refundedAmount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-primary font-semibold">
                   <span>Balance Due</span>
-                  <span>{formatPrice(booking.balanceDue)}</span>
+                  <span>{formatPrice(totals.balanceDue)}</span>
                 </div>
+                {totals.tipsTotal > 0 && (
+                  <div className="flex justify-between text-charcoal/60">
+                    <span>Tips</span>
+                    <span>{formatPrice(totals.tipsTotal)}</span>
+                  </div>
+                )}
               </div>
+
+              {/* Payments ledger */}
+              {paymentEntries.length > 0 && (
+                <ul className="mt-3 divide-y divide-cream-dark text-xs">
+                  {paymentEntries.map((entry) => (
+                    <li key={entry.id} className="flex justify-between gap-2 py-1.5">
+                      <span className="text-charcoal/70">
+                        {formatDateShort(entry.createdAt)} · {paymentTypeLabels[entry.type]} · {paymentMethodLabels[entry.method]}
+                        {entry.note && <span className="block text-charcoal/50">{entry.note}</span>}
+                      </span>
+                      <span className={entry.type === 'refund' ? 'text-error' : 'text-charcoal'}>
+                        {entry.type === 'refund' ? '-' : ''}{formatPrice(entry.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {paymentForm ? (
+                <div className="mt-3 border border-cream-dark rounded p-3 space-y-2 text-sm">
+                  <div className="grid grid-cols-3 gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={paymentForm.amount}
+                      onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                      className="input py-1 text-sm"
+                      placeholder="Amount"
+                    />
+                    <select
+                      value={paymentForm.type}
+                      onChange={(e) => setPaymentForm({ ...paymentForm, type: e.target.value as ManualPaymentForm['type'] })}
+                      className="input py-1 text-sm"
+                    >
+                      <option value="balance">Balance</option>
+                      <option value="tip">Tip</option>
+                    </select>
+                    <select
+                      value={paymentForm.method}
+                      onChange={(e) => setPaymentForm({ ...paymentForm, method: e.target.value as ManualPaymentForm['method'] })}
+                      className="input py-1 text-sm"
+                    >
+                      <option value="cash">Cash</option>
+                      <option value="card">Card</option>
+                      <option value="e-transfer">E-transfer</option>
+                      <option value="other">Other</option>
+                    </select>
+                  </div>
+                  <input
+                    type="text"
+                    value={paymentForm.note}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, note: e.target.value })}
+                    className="input py-1 text-sm"
+                    placeholder="Note (optional)"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setPaymentForm(null)} className="btn btn-outline py-1 px-3 text-xs">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleRecordPayment}
+                      disabled={isUpdating || !(parseFloat(paymentForm.amount) > 0)}
+                      className="btn btn-primary py-1 px-3 text-xs disabled:opacity-50"
+                    >
+                      Save Payment
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setPaymentForm(emptyPaymentForm)}
+                  className="mt-3 text-sm text-primary hover:underline flex items-center gap-1"
+                >
+                  <Plus size={14} />
+                  Record in-person payment
+                </button>
+              )}
               <p className="text-xs text-charcoal/50 mt-2">
                 Ref: {booking.paymentReference}
               </p>
+              {booking.balancePaymentStatus && (
+                <p className="text-xs text-charcoal/50 mt-1">
+                  Online balance payment: <span className="capitalize">{booking.balancePaymentStatus}</span>
+                </p>
+              )}
+              {canCollectBalance && (
+                <div className="mt-3">
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => handleCreateBalanceLink(false)}
+                      disabled={isUpdating}
+                      className="btn btn-outline py-1 px-3 text-xs disabled:opacity-50"
+                    >
+                      <Link2 size={14} />
+                      Create Balance Link
+                    </button>
+                    <button
+                      onClick={() => handleCreateBalanceLink(true)}
+                      disabled={isUpdating}
+                      className="btn btn-outline py-1 px-3 text-xs disabled:opacity-50"
+                    >
+                      <Mail size={14} />
+                      Email Balance Link
+                    </button>
+                  </div>
+                  {balanceLink && (
+                    <input
+                      readOnly
+                      value={balanceLink}
+                      onFocus={(e) => e.target.select()}
+                      className="input mt-2 text-xs font-mono"
+                    />
+                  )}
+                  {balanceLinkNote && <p className="text-xs text-charcoal/60 mt-1">{balanceLinkNote}</p>}
+                </div>
+              )}
             </div>
           </div>
+
+          {/* Refunds & Disputes */}
+          {paymentEvents.length > 0 && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-full bg-error/10 flex items-center justify-center flex-shrink-0">
+                <RotateCcw size={18} className="text-error" />
+              </div>
+              <div className="flex-1">
+                <h4 className="font-medium text-secondary">Refunds & Disputes</h4>
+                <ul className="mt-2 space-y-2 text-sm">
+                  {paymentEvents.map((paymentEvent) => (
+                    <li key={paymentEvent.id} className="bg-cream/50 rounded p-2">
+                      <p className="text-charcoal/80">{paymentEvent.summary}</p>
+                      <p className="text-xs text-charcoal/50 mt-1">
+                        {paymentEvent.event} · {formatDate(paymentEvent.receivedAt)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -565,20 +1206,32 @@ function BookingDetailModal({ booking, onClose }: { booking: Booking; onClose: (
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 text-sm">
               <span className={`w-2 h-2 rounded-full ${
-                booking.bookingStatus === 'confirmed' ? 'bg-success' :
-                booking.bookingStatus === 'completed' ? 'bg-charcoal' :
-                booking.bookingStatus === 'cancelled' ? 'bg-error' :
+                bookingStatus === 'confirmed' ? 'bg-success' :
+                bookingStatus === 'completed' ? 'bg-charcoal' :
+                bookingStatus === 'cancelled' ? 'bg-error' :
                 'bg-warning'
               }`} />
-              <span className="capitalize text-charcoal/70">{booking.bookingStatus}</span>
+              <span className="capitalize text-charcoal/70">{bookingStatus}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              {bookingStatus === 'confirmed' && startTime < new Date() && (
+                <button
+                  onClick={handleMarkNoShow}
+                  disabled={isUpdating}
+                  className="btn btn-outline py-2 px-4 text-sm disabled:opacity-50"
+                >
+                  Mark No-Show
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="btn btn-primary py-2 px-4 text-sm"
+              >
+                Close
+              </button>
             </div>
-            <button
-              onClick={onClose}
-              className="btn btn-primary py-2 px-4 text-sm"
-            >
-              Close
-            </button>
           </div>
+          {actionError && <p className="text-sm text-error mt-3">{actionError}</p>}
         </div>
       </motion.div>
     </motion.div>
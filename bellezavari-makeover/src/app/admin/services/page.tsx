@@ -0,0 +1,553 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { AlertCircle, ChevronLeft, History, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Service, ServiceExtraOption, ServiceVersion } from '@/types';
+import { categoryNames, globalExtras } from '@/data/services';
+import { formatDateShort, formatDuration, formatPrice } from '@/lib/utils';
+import { getServiceVersions, isDemoMode } from '@/lib/db';
+import { createService, deleteService, loadServices, updateService } from '@/lib/catalog';
+import { getStandardExtraPrice } from '@/lib/pricing';
+import { useRefreshServices } from '@/components/CatalogProvider';
+
+/**
+ * Fields edited in the form. Start times are typed as a comma-separated list.
+ */
+interface ServiceForm {
+  service: Service;
+  startTimes: string;
+  isNew: boolean;
+}
+
+const changeLabels: Record<ServiceVersion['change'], string> = {
+  created: 'Created',
+  updated: 'Updated',
+  deleted: 'Deleted',
+};
+
+const emptyService: Service = {
+  id: '',
+  name: '',
+  description: '',
+  price: 0,
+  depositAmount: 0,
+  durationMinutes: 60,
+  allowedStartTimes: ['09:00'],
+  extras: [],
+  category: 'braids',
+  isActive: true,
+};
+
+/**
+ * Admin screen for the service catalog stored in Firestore.
+ * Every save creates a new version of the service; existing bookings keep
+ * the name and prices they were booked with.
+ */
+export default function AdminServicesPage() {
+  const refreshServices = useRefreshServices();
+  const [catalog, setCatalog] = useState<Service[] | null>(null);
+  const [form, setForm] = useState<ServiceForm | null>(null);
+  const [historyFor, setHistoryFor] = useState<Service | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadServices({ force: true })
+      .then(loaded => setCatalog([...loaded]))
+      .catch((error) => {
+        console.error('Catalog load error:', error);
+        setLoadError('Could not load the services. Please refresh the page.');
+      });
+  }, []);
+
+  // Shows the catalog after a change, here and across the site
+  const handleSaved = (saved: Service[]) => {
+    setCatalog([...saved]);
+    setForm(null);
+    refreshServices();
+  };
+
+  const visibleServices = (catalog || []).filter(service => !service.deletedAt);
+
+  return (
+    <>
+      {/* Header */}
+      <section className="pt-32 pb-8 bg-cream">
+        <div className="container">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline mb-4"
+          >
+            <ChevronLeft size={16} />
+            Back to schedule
+          </Link>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="font-display text-4xl text-secondary mb-2">
+                Services
+              </h1>
+              <p className="text-charcoal/60">
+                Prices, durations and start times for everything on the menu
+              </p>
+            </div>
+            <button
+              onClick={() => setForm({ service: structuredClone(emptyService), startTimes: '09:00', isNew: true })}
+              className="btn btn-primary py-2 px-4 text-sm flex items-center gap-2"
+            >
+              <Plus size={16} />
+              New Service
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <section className="section bg-cream-dark/30 min-h-[60vh]">
+        <div className="container">
+          {isDemoMode && (
+            <div className="bg-white border border-warning/30 rounded-lg p-4 mb-6 flex items-start gap-3">
+              <AlertCircle size={20} className="text-warning flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-charcoal/70">
+                Demo mode: Firebase isn&apos;t configured, so catalog changes are kept in this
+                browser tab only and are lost when the page reloads.
+              </p>
+            </div>
+          )}
+          {loadError && (
+            <div className="bg-error/5 border border-error/20 rounded-lg p-4 mb-6 flex items-start gap-3">
+              <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-error">{loadError}</p>
+            </div>
+          )}
+
+          {!catalog && !loadError && <p className="text-charcoal/60">Loading services...</p>}
+
+          {catalog && (
+            <div className="bg-white rounded-lg divide-y divide-cream-dark">
+              {visibleServices.map((service) => (
+                <div key={service.id} className="p-4 flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-charcoal">{service.name}</span>
+                      {!service.isActive && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-charcoal/10 text-charcoal/60">Hidden</span>
+                      )}
+                    </div>
+                    <div className="text-sm text-charcoal/60">
+                      {categoryNames[service.category]} · {formatDuration(service.durationMinutes)} ·{' '}
+                      {formatPrice(service.price)} ({formatPrice(service.depositAmount)} deposit) ·{' '}
+                      Starts {service.allowedStartTimes.join(', ')}
+                    </div>
+                  </div>
+                  <div className="text-xs text-charcoal/50 hidden md:block">
+                    {service.version ? `v${service.version}` : 'Built-in'}
+                  </div>
+                  <button
+                    onClick={() => setHistoryFor(service)}
+                    className="p-2 text-charcoal/50 hover:text-primary transition-colors"
+                    title="Version history"
+                  >
+                    <History size={18} />
+                  </button>
+                  <button
+                    onClick={() => setForm({
+                      service: structuredClone(service),
+                      startTimes: service.allowedStartTimes.join(', '),
+                      isNew: false,
+                    })}
+                    className="p-2 text-charcoal/50 hover:text-primary transition-colors"
+                    title="Edit service"
+                  >
+                    <Pencil size={18} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {form && (
+        <ServiceEditorModal
+          form={form}
+          onClose={() => setForm(null)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {historyFor && (
+        <VersionHistoryModal service={historyFor} onClose={() => setHistoryFor(null)} />
+      )}
+    </>
+  );
+}
+
+function ServiceEditorModal({
+  form: initialForm,
+  onClose,
+  onSaved,
+}: {
+  form: ServiceForm;
+  onClose: () => void;
+  onSaved: (catalog: Service[]) => void;
+}) {
+  const [form, setForm] = useState<ServiceForm>(initialForm);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { service } = form;
+
+  const update = (changes: Partial<Service>) => {
+    setForm(prev => ({ ...prev, service: { ...prev.service, ...changes } }));
+  };
+
+  const toggleExtra = (extraId: string, offered: boolean) => {
+    update({
+      extras: offered
+        ? [...service.extras, { extraId }]
+        : service.extras.filter(option => option.extraId !== extraId),
+    });
+  };
+
+  const updateExtra = (extraId: string, changes: Partial<ServiceExtraOption>) => {
+    update({
+      extras: service.extras.map(option => (option.extraId === extraId ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const save = async (action: 'save' | 'delete') => {
+    if (action === 'delete' && !window.confirm(`Delete ${service.name}? Existing bookings are not affected.`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const values: Service = {
+        ...service,
+        allowedStartTimes: form.startTimes.split(',').map(time => time.trim()).filter(Boolean),
+      };
+      const result = action === 'delete'
+        ? await deleteService(values)
+        : form.isNew ? await createService(values) : await updateService(values);
+
+      if (!result.success) {
+        setErrors(result.errors);
+        setIsSaving(false);
+        return;
+      }
+      onSaved(await loadServices());
+    } catch (saveError) {
+      console.error('Service save error:', saveError);
+      setErrors(['Could not save the service. Please try again.']);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-charcoal/50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-cream-dark flex items-start justify-between">
+          <div>
+            <h2 className="font-display text-2xl text-secondary">
+              {form.isNew ? 'New Service' : `Edit ${initialForm.service.name}`}
+            </h2>
+            <p className="text-charcoal/60">
+              {form.isNew
+                ? 'Stylists who work in the chosen category can take bookings for it.'
+                : 'Existing bookings keep the name and prices they were booked with.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-cream rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Form */}
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Name</label>
+              <input
+                type="text"
+                value={service.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">ID</label>
+              <input
+                type="text"
+                value={service.id}
+                onChange={(e) => update({ id: e.target.value })}
+                disabled={!form.isNew}
+                placeholder="e.g. boho-knotless-braids"
+                className="input disabled:opacity-60"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="label">Description</label>
+            <textarea
+              value={service.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={3}
+              className="input resize-none"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="label">Price</label>
+              <input
+                type="number"
+                min={0}
+                value={Number.isNaN(service.price) ? '' : service.price}
+                onChange={(e) => update({ price: e.target.valueAsNumber })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Deposit</label>
+              <input
+                type="number"
+                min={0}
+                value={Number.isNaN(service.depositAmount) ? '' : service.depositAmount}
+                onChange={(e) => update({ depositAmount: e.target.valueAsNumber })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Duration (minutes)</label>
+              <input
+                type="number"
+                min={15}
+                step={15}
+                value={Number.isNaN(service.durationMinutes) ? '' : service.durationMinutes}
+                onChange={(e) => update({ durationMinutes: e.target.valueAsNumber })}
+                className="input"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="label">Start Times</label>
+            <input
+              type="text"
+              value={form.startTimes}
+              onChange={(e) => setForm(prev => ({ ...prev, startTimes: e.target.value }))}
+              placeholder="09:00, 11:00, 13:00"
+              className="input"
+            />
+            <p className="text-xs text-charcoal/50 mt-1">
+              24-hour times, separated by commas. Long services should only start early in the day.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Category</label>
+              <select
+                value={service.category}
+                onChange={(e) => update({ category: e.target.value as Service['category'] })}
+                className="input"
+              >
+                {Object.entries(categoryNames).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Image URL (Optional)</label>
+              <input
+                type="text"
+                value={service.imageUrl || ''}
+                onChange={(e) => update({ imageUrl: e.target.value })}
+                placeholder="https://..."
+                className="input"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-charcoal">
+              <input
+                type="checkbox"
+                checked={service.isActive}
+                onChange={(e) => update({ isActive: e.target.checked })}
+                className="w-4 h-4 accent-primary"
+              />
+              Show on the site and accept bookings
+            </label>
+            <label className="flex items-center gap-2 text-sm text-charcoal">
+              <input
+                type="checkbox"
+                checked={!!service.canSpanBreaks}
+                onChange={(e) => update({ canSpanBreaks: e.target.checked || undefined })}
+                className="w-4 h-4 accent-primary"
+              />
+              Can run through the stylist&apos;s breaks (long installs)
+            </label>
+          </div>
+          <div>
+            <label className="label">Extras</label>
+            <p className="text-xs text-charcoal/50 mb-2">
+              Leave the price blank to use the standard price. Extras with the same group
+              (e.g., &quot;hair&quot;) can&apos;t be chosen together.
+            </p>
+            <div className="space-y-2">
+              {globalExtras.map((extra) => {
+                const option = service.extras.find(o => o.extraId === extra.id);
+                return (
+                  <div key={extra.id} className="grid grid-cols-[1fr_6rem_7rem] items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-charcoal">
+                      <input
+                        type="checkbox"
+                        checked={!!option}
+                        onChange={(e) => toggleExtra(extra.id, e.target.checked)}
+                        className="w-4 h-4 accent-primary"
+                      />
+                      {extra.name}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={option?.price ?? ''}
+                      placeholder={String(getStandardExtraPrice(extra))}
+                      onChange={(e) => updateExtra(extra.id, {
+                        price: Number.isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber,
+                      })}
+                      disabled={!option}
+                      className="input disabled:opacity-50"
+                    />
+                    <input
+                      type="text"
+                      value={option?.group ?? ''}
+                      placeholder="Group"
+                      onChange={(e) => updateExtra(extra.id, { group: e.target.value || undefined })}
+                      disabled={!option}
+                      className="input disabled:opacity-50"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-error/5 border border-error/20 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+              <ul className="text-sm text-error space-y-1">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-6 border-t border-cream-dark flex justify-between gap-3">
+          {form.isNew ? <span /> : (
+            <button
+              onClick={() => save('delete')}
+              disabled={isSaving}
+              className="btn btn-outline py-2 px-4 text-sm flex items-center gap-2 text-error border-error hover:bg-error/5 disabled:opacity-50"
+            >
+              <Trash2 size={16} />
+              Delete
+            </button>
+          )}
+          <div className="flex gap-3">
+            <button onClick={onClose} className="btn btn-outline py-2 px-4 text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={() => save('save')}
+              disabled={isSaving}
+              className="btn btn-primary py-2 px-4 text-sm disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : form.isNew ? 'Create Service' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+function VersionHistoryModal({ service, onClose }: { service: Service; onClose: () => void }) {
+  const [versions, setVersions] = useState<ServiceVersion[] | null>(null);
+
+  useEffect(() => {
+    getServiceVersions(service.id)
+      .then(setVersions)
+      .catch((error) => {
+        console.error('Version history load error:', error);
+        setVersions([]);
+      });
+  }, [service.id]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-charcoal/50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-cream-dark flex items-start justify-between">
+          <div>
+            <h2 className="font-display text-2xl text-secondary">Version History</h2>
+            <p className="text-charcoal/60">{service.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-cream rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {!versions && <p className="text-sm text-charcoal/60">Loading...</p>}
+          {versions?.length === 0 && (
+            <p className="text-sm text-charcoal/60">
+              This service hasn&apos;t been changed since it was added to the built-in catalog.
+            </p>
+          )}
+          <div className="space-y-3">
+            {versions?.slice().reverse().map((version) => (
+              <div key={version.version} className="p-3 bg-cream/50 rounded text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium text-charcoal">
+                    v{version.version} · {changeLabels[version.change]}
+                  </span>
+                  <span className="text-charcoal/60">{formatDateShort(new Date(version.savedAt))}</span>
+                </div>
+                <div className="text-charcoal/60">
+                  {version.service.name} · {formatPrice(version.service.price)} (
+                  {formatPrice(version.service.depositAmount)} deposit) ·{' '}
+                  {formatDuration(version.service.durationMinutes)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,356 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, Check, ChevronLeft, Plus, RotateCcw, X } from 'lucide-react';
+import { Settings, WorkingHours } from '@/types';
+import { dayNames, defaultSettings } from '@/data/settings';
+import { isDemoMode } from '@/lib/db';
+import { loadSettings, saveSettings } from '@/lib/settings';
+import { useRefreshSettings } from '@/components/SettingsProvider';
+
+type NumberField =
+  | 'bufferMinutes'
+  | 'slotHoldMinutes'
+  | 'rescheduleNoticeHours'
+  | 'noShowsBeforeFullPayment'
+  | 'homeServiceFee';
+
+const numberFields: { field: NumberField; label: string; hint: string }[] = [
+  { field: 'bufferMinutes', label: 'Buffer Between Appointments (minutes)', hint: 'Cleanup and prep time after each booking' },
+  { field: 'slotHoldMinutes', label: 'Checkout Hold (minutes)', hint: 'How long an unpaid booking keeps its slot' },
+  { field: 'rescheduleNoticeHours', label: 'Reschedule Notice (hours)', hint: 'Clients can reschedule online up to this long before' },
+  { field: 'noShowsBeforeFullPayment', label: 'No-Shows Before Full Payment', hint: 'After this many no-shows, clients pay in full upfront' },
+  { field: 'homeServiceFee', label: 'Home Service Fee', hint: 'Price of the Home Service extra, unless a service sets its own' },
+];
+
+/**
+ * Admin screen for the business settings stored in Firestore.
+ * Values are validated before saving; nothing changes until Save is pressed.
+ */
+export default function AdminSettingsPage() {
+  const refreshSettings = useRefreshSettings();
+  const [form, setForm] = useState<Settings | null>(null);
+  const [newOffDay, setNewOffDay] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    loadSettings({ force: true }).then(loaded => setForm(structuredClone(loaded)));
+  }, []);
+
+  if (!form) {
+    return (
+      <section className="pt-32 pb-20 bg-cream min-h-screen">
+        <div className="container text-charcoal/60">Loading settings...</div>
+      </section>
+    );
+  }
+
+  const update = (changes: Partial<Settings>) => {
+    setForm(prev => (prev ? { ...prev, ...changes } : prev));
+    setSaved(false);
+  };
+
+  const updateDay = (dayOfWeek: number, changes: Partial<WorkingHours>) => {
+    update({
+      workingHours: form.workingHours.map(day => (day.dayOfWeek === dayOfWeek ? { ...day, ...changes } : day)),
+    });
+  };
+
+  const addOffDay = () => {
+    if (!newOffDay || form.offDays.includes(newOffDay)) return;
+    update({ offDays: [...form.offDays, newOffDay].sort() });
+    setNewOffDay('');
+  };
+
+  const restoreDefaults = () => {
+    setForm(structuredClone(defaultSettings));
+    setErrors([]);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const result = await saveSettings(form);
+      if (!result.success || !result.settings) {
+        setErrors(result.errors);
+        return;
+      }
+      setForm(structuredClone(result.settings));
+      setSaved(true);
+      refreshSettings();
+    } catch (saveError) {
+      console.error('Settings save error:', saveError);
+      setErrors(['Could not save the settings. Please try again.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <section className="pt-32 pb-8 bg-cream">
+        <div className="container">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline mb-4"
+          >
+            <ChevronLeft size={16} />
+            Back to schedule
+          </Link>
+          <h1 className="font-display text-4xl text-secondary mb-2">
+            Business Settings
+          </h1>
+          <p className="text-charcoal/60">
+            Opening hours, booking rules and contact details used across the site
+          </p>
+        </div>
+      </section>
+
+      <section className="section bg-cream-dark/30">
+        <div className="container max-w-3xl space-y-6">
+          {isDemoMode && (
+            <div className="bg-white border border-warning/30 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle size={20} className="text-warning flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-charcoal/70">
+                Demo mode: Firebase isn&apos;t configured, so saved settings are kept in this
+                browser tab only and are lost when the page reloads.
+              </p>
+            </div>
+          )}
+
+          {/* Business */}
+          <div className="bg-white rounded-lg p-6 space-y-4">
+            <h2 className="font-display text-xl text-secondary">Business</h2>
+            <div>
+              <label className="label">Business Name</label>
+              <input
+                type="text"
+                value={form.businessName}
+                onChange={(e) => update({ businessName: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">Timezone</label>
+                <input type="text" value={form.timezone} disabled className="input opacity-60" />
+              </div>
+              <div>
+                <label className="label">Currency</label>
+                <input
+                  type="text"
+                  value={`${form.currency} (${form.currencySymbol})`}
+                  disabled
+                  className="input opacity-60"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-charcoal/50">
+              The timezone and currency are set in the code, since booking times and payments depend on them.
+            </p>
+          </div>
+
+          {/* Opening Hours */}
+          <div className="bg-white rounded-lg p-6 space-y-3">
+            <h2 className="font-display text-xl text-secondary">Opening Hours</h2>
+            <p className="text-sm text-charcoal/60">
+              Shown on the site. Stylists can only be booked while the salon is open, within their own hours.
+            </p>
+            {form.workingHours.map((day) => (
+              <div key={day.dayOfWeek} className="grid grid-cols-[7rem_auto_1fr_1fr] items-center gap-3">
+                <span className="text-sm font-medium text-charcoal">{dayNames[day.dayOfWeek]}</span>
+                <label className="flex items-center gap-2 text-sm text-charcoal">
+                  <input
+                    type="checkbox"
+                    checked={day.isOpen}
+                    onChange={(e) => updateDay(day.dayOfWeek, { isOpen: e.target.checked })}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  Open
+                </label>
+                <input
+                  type="time"
+                  value={day.openTime}
+                  onChange={(e) => updateDay(day.dayOfWeek, { openTime: e.target.value })}
+                  disabled={!day.isOpen}
+                  className="input disabled:opacity-50"
+                />
+                <input
+                  type="time"
+                  value={day.closeTime}
+                  onChange={(e) => updateDay(day.dayOfWeek, { closeTime: e.target.value })}
+                  disabled={!day.isOpen}
+                  className="input disabled:opacity-50"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Closures */}
+          <div className="bg-white rounded-lg p-6 space-y-3">
+            <h2 className="font-display text-xl text-secondary">Salon Closures</h2>
+            <p className="text-sm text-charcoal/60">
+              Dates the whole salon is closed (e.g., holidays). No stylist can be booked on these dates.
+            </p>
+            {form.offDays.length === 0 && (
+              <p className="text-sm text-charcoal/50">No closures set.</p>
+            )}
+            {form.offDays.map((day) => (
+              <div key={day} className="flex items-center justify-between p-2 bg-cream/50 rounded">
+                <span className="text-sm text-charcoal">{day}</span>
+                <button
+                  onClick={() => update({ offDays: form.offDays.filter(offDay => offDay !== day) })}
+                  className="p-1 text-charcoal/50 hover:text-error transition-colors"
+                  title="Remove closure"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-3">
+              <input
+                type="date"
+                value={newOffDay}
+                onChange={(e) => setNewOffDay(e.target.value)}
+                className="input"
+              />
+              <button
+                onClick={addOffDay}
+                disabled={!newOffDay}
+                className="btn btn-outline py-2 px-4 text-sm flex items-center gap-2 disabled:opacity-50"
+              >
+                <Plus size={16} />
+                Add
+              </button>
+            </div>
+          </div>
+
+          {/* Booking Rules */}
+          <div className="bg-white rounded-lg p-6 space-y-4">
+            <h2 className="font-display text-xl text-secondary">Booking Rules</h2>
+            {numberFields.map(({ field, label, hint }) => (
+              <div key={field}>
+                <label className="label">{label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(form[field]) ? '' : form[field]}
+                  onChange={(e) => update({ [field]: e.target.valueAsNumber })}
+                  className="input"
+                />
+                <p className="text-xs text-charcoal/50 mt-1">{hint}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Contact & Location */}
+          <div className="bg-white rounded-lg p-6 space-y-4">
+            <h2 className="font-display text-xl text-secondary">Contact & Location</h2>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">Contact Email</label>
+                <input
+                  type="email"
+                  value={form.contactEmail}
+                  onChange={(e) => update({ contactEmail: e.target.value })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label className="label">Contact Phone (Optional)</label>
+                <input
+                  type="tel"
+                  value={form.contactPhone}
+                  onChange={(e) => update({ contactPhone: e.target.value })}
+                  className="input"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="label">Instagram URL</label>
+              <input
+                type="url"
+                value={form.instagramUrl}
+                onChange={(e) => update({ instagramUrl: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Address</label>
+              <input
+                type="text"
+                value={form.location.address}
+                onChange={(e) => update({ location: { ...form.location, address: e.target.value } })}
+                className="input"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">City</label>
+                <input
+                  type="text"
+                  value={form.location.city}
+                  onChange={(e) => update({ location: { ...form.location, city: e.target.value } })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label className="label">Postcode (Optional)</label>
+                <input
+                  type="text"
+                  value={form.location.postcode}
+                  onChange={(e) => update({ location: { ...form.location, postcode: e.target.value } })}
+                  className="input"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Errors */}
+          {errors.length > 0 && (
+            <div className="bg-error/5 border border-error/20 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+              <ul className="text-sm text-error space-y-1">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-between gap-3">
+            <button
+              onClick={restoreDefaults}
+              className="btn btn-outline py-2 px-4 text-sm flex items-center gap-2"
+            >
+              <RotateCcw size={16} />
+              Restore Defaults
+            </button>
+            <div className="flex items-center gap-3">
+              {saved && (
+                <span className="text-sm text-success flex items-center gap-1">
+                  <Check size={16} />
+                  Saved
+                </span>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="btn btn-primary py-2 px-4 text-sm disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </section>
+    </>
+  );
+}
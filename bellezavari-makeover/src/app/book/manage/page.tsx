@@ -0,0 +1,269 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { AlertCircle, Calendar, Clock, DollarSign, User, XCircle } from 'lucide-react';
+import { policies } from '@/data/settings';
+import { useSettings } from '@/components/SettingsProvider';
+import { ManageBookingResponse } from '@/types';
+import { formatDate, formatPrice, formatTime } from '@/lib/utils';
+import { getBusinessDateTime } from '@/lib/availability';
+
+/**
+ * Calls the manage-booking function with the signed token from the link.
+ */
+async function callManageFunction(payload: Record<string, unknown>) {
+  const response = await fetch('/.netlify/functions/manage-booking', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+}
+
+const statusLabels: Record<ManageBookingResponse['bookingStatus'], string> = {
+  pending: 'Awaiting payment',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  'no-show': 'No-show',
+};
+
+function ManageContent() {
+  const settings = useSettings();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [booking, setBooking] = useState<ManageBookingResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // Load the booking for the signed link
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    callManageFunction({ token })
+      .then(({ ok, data }) => {
+        if (cancelled) return;
+        if (ok) setBooking(data);
+        else setLoadError(data.error || 'This link is invalid or has expired.');
+      })
+      .catch((err) => {
+        console.error('Manage booking error:', err);
+        if (!cancelled) setLoadError('We couldn\'t reach the booking service. Please try again.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleCancel = async () => {
+    if (!token || !acknowledged) return;
+
+    setIsCancelling(true);
+    setCancelError(null);
+
+    try {
+      const { ok, data } = await callManageFunction({
+        token,
+        action: 'cancel',
+        acknowledgeDepositForfeit: true,
+      });
+      if (ok) setBooking(data);
+      else setCancelError(data.error || 'We couldn\'t cancel your booking. Please contact us.');
+    } catch (err) {
+      console.error('Cancel booking error:', err);
+      setCancelError('We couldn\'t reach the booking service. Please try again.');
+    }
+    setIsCancelling(false);
+  };
+
+  if (!token || loadError) {
+    return (
+      <section className="min-h-screen bg-cream bg-pattern flex items-center justify-center py-20">
+        <div className="container max-w-xl mx-auto text-center">
+          <XCircle className="w-14 h-14 text-error mx-auto mb-6" />
+          <h1 className="font-display text-4xl text-secondary mb-4">Link Not Valid</h1>
+          <p className="text-charcoal/70 mb-8">
+            {loadError || 'This link is missing its booking details.'} Please use the link from your
+            most recent booking email, or{' '}
+            <a href={`mailto:${settings.contactEmail}`} className="text-primary hover:underline">
+              contact us
+            </a>
+            .
+          </p>
+          <Link href="/book/reschedule" className="btn btn-outline">
+            Find My Booking
+          </Link>
+        </div>
+      </section>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const start = getBusinessDateTime(new Date(booking.startTime));
+  const end = getBusinessDateTime(new Date(booking.endTime));
+
+  return (
+    <>
+      {/* Header */}
+      <section className="pt-32 pb-8 bg-cream">
+        <div className="container">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-3xl mx-auto text-center"
+          >
+            <h1 className="font-display text-4xl md:text-5xl text-secondary mb-4">
+              Your <span className="italic text-primary">Booking</span>
+            </h1>
+            <p className="text-charcoal/70">Hi {booking.client.firstName}, here are your appointment details.</p>
+          </motion.div>
+        </div>
+      </section>
+
+      <section className="section bg-white min-h-[60vh]">
+        <div className="container">
+          <div className="max-w-2xl mx-auto space-y-8">
+            {/* Booking Details */}
+            <div className="bg-cream/50 rounded-lg p-6">
+              <div className="flex items-start justify-between mb-4">
+                <h2 className="font-display text-2xl text-secondary">{booking.serviceName}</h2>
+                <span className={`badge ${booking.bookingStatus === 'confirmed' ? 'badge-success' : 'badge-warning'}`}>
+                  {statusLabels[booking.bookingStatus]}
+                </span>
+              </div>
+              <div className="space-y-2 text-charcoal">
+                <div className="flex items-center gap-3">
+                  <Calendar size={18} className="text-primary" />
+                  <span>{formatDate(new Date(`${start.date}T12:00:00`))}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Clock size={18} className="text-primary" />
+                  <span>{formatTime(start.time)} - {formatTime(end.time)}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <User size={18} className="text-primary" />
+                  <span>
+                    {booking.client.firstName} {booking.client.lastName} · {booking.client.email}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <DollarSign size={18} className="text-primary" />
+                  <span>
+                    Paid {formatPrice(booking.totalPaid)} of {formatPrice(booking.totalPrice)} ·
+                    Balance due {formatPrice(booking.balanceDue)}
+                  </span>
+                </div>
+              </div>
+              {booking.extras.length > 0 && (
+                <p className="text-sm text-charcoal/60 mt-4">
+                  Extras: {booking.extras.map(e => e.name).join(', ')}
+                </p>
+              )}
+              <p className="text-sm text-charcoal/60 mt-4">
+                Reference: <span className="font-mono">{booking.reference}</span>
+              </p>
+            </div>
+
+            {/* Reschedule */}
+            {booking.canReschedule && (
+              <div className="flex items-center justify-between gap-4 border border-cream-dark rounded-lg p-6">
+                <div>
+                  <h3 className="font-display text-xl text-secondary mb-1">Need a different time?</h3>
+                  <p className="text-sm text-charcoal/60">
+                    Reschedule up to {settings.rescheduleNoticeHours} hours before your appointment.
+                    Your deposit carries over.
+                  </p>
+                </div>
+                <Link href={`/book/reschedule?token=${encodeURIComponent(token)}`} className="btn btn-outline">
+                  Reschedule
+                </Link>
+              </div>
+            )}
+
+            {/* Cancel */}
+            {booking.canCancel && (
+              <div className="border border-error/20 rounded-lg p-6">
+                <h3 className="font-display text-xl text-secondary mb-2">Cancel Booking</h3>
+                <div className="bg-error/5 rounded p-4 mb-4 flex items-start gap-3">
+                  <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-charcoal/80">
+                    <p className="font-medium text-error mb-1">
+                      Your deposit of {formatPrice(booking.totalPaid)} will be forfeited.
+                    </p>
+                    <p className="whitespace-pre-line">{policies.deposit.content.replace(/\*\*/g, '')}</p>
+                  </div>
+                </div>
+
+                <label className="flex items-start gap-3 mb-4 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={acknowledged}
+                    onChange={(e) => setAcknowledged(e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span className="text-sm text-charcoal/80">
+                    I understand that cancelling forfeits my deposit and this can&apos;t be undone.
+                  </span>
+                </label>
+
+                {cancelError && <p className="text-sm text-error mb-4">{cancelError}</p>}
+
+                <button
+                  onClick={handleCancel}
+                  disabled={!acknowledged || isCancelling}
+                  className="btn btn-outline border-error text-error disabled:opacity-50"
+                >
+                  {isCancelling ? 'Cancelling...' : 'Cancel My Booking'}
+                </button>
+              </div>
+            )}
+
+            {booking.bookingStatus === 'cancelled' && (
+              <div className="text-center">
+                <p className="text-charcoal/70 mb-6">This booking has been cancelled.</p>
+                <Link href="/book" className="btn btn-primary">
+                  Book a New Appointment
+                </Link>
+              </div>
+            )}
+
+            <p className="text-sm text-charcoal/50 text-center">
+              Questions about your booking?{' '}
+              <a href={`mailto:${settings.contactEmail}`} className="text-primary hover:underline">
+                Contact us
+              </a>
+            </p>
+          </div>
+        </div>
+      </section>
+    </>
+  );
+}
+
+export default function ManageBookingPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    }>
+      <ManageContent />
+    </Suspense>
+  );
+}
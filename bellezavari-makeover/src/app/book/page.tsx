@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useEffect, useState, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
@@ -15,9 +15,8 @@ import {
   AlertCircle,
   Sparkles
 } from 'lucide-react';
-import { services, globalExtras, getServiceById } from '@/data/services';
-import { settings } from '@/data/settings';
-import { Service, ServiceExtra, ClientDetails, Booking } from '@/types';
+import { getStylistById, getStylistsForService, performsService } from '@/data/stylists';
+import { Service, ClientDetails, Block, Booking, Stylist } from '@/types';
 import { 
   formatPrice, 
   formatDuration, 
@@ -31,8 +30,14 @@ import {
 import { 
   getAvailableTimeSlots, 
   createDateTime, 
-  calculateEndTime 
+  calculateEndTime,
+  getBusinessDayBounds,
 } from '@/lib/availability';
+import { createBooking, getBlocksForDateRange, getBookingsForDateRange, isDemoMode } from '@/lib/db';
+import { OfferedExtra, calculateBookingTotals, getExtrasForService } from '@/lib/pricing';
+import { DatePicker } from '@/components/DatePicker';
+import { TimeSlotPicker } from '@/components/TimeSlotPicker';
+import { useServices } from '@/components/CatalogProvider';
 
 type BookingStep = 'service' | 'date' | 'time' | 'extras' | 'details' | 'review';
 
@@ -48,13 +53,22 @@ const steps: { key: BookingStep; label: string; icon: React.ElementType }[] = [
 function BookingContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const services = useServices();
   
+  // Pre-select service from URL param (only one that can still be booked)
+  const serviceParam = searchParams.get('service') || '';
+  const preselectedService = services.find(s =>
+    s.id === serviceParam && s.isActive && !s.deletedAt
+  ) || null;
+
   // Booking state
-  const [currentStep, setCurrentStep] = useState<BookingStep>('service');
-  const [selectedService, setSelectedService] = useState<Service | null>(null);
+  const [currentStep, setCurrentStep] = useState<BookingStep>(preselectedService ? 'date' : 'service');
+  const [selectedService, setSelectedService] = useState<Service | null>(preselectedService);
+  // Chosen stylist, or null for "any stylist"
+  const [selectedStylistId, setSelectedStylistId] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  const [selectedExtras, setSelectedExtras] = useState<ServiceExtra[]>([]);
+  const [selectedExtras, setSelectedExtras] = useState<OfferedExtra[]>([]);
   const [clientDetails, setClientDetails] = useState<ClientDetails>({
     firstName: '',
     lastName: '',
@@ -63,36 +77,103 @@ function BookingContent() {
     notes: '',
   });
   const [policyAcknowledged, setPolicyAcknowledged] = useState(false);
+
+  // Services added from the admin only appear once the saved catalog loads,
+  // so pre-select then (unless the client has already picked a service)
+  const [preselectApplied, setPreselectApplied] = useState(preselectedService !== null);
+  if (!preselectApplied && preselectedService) {
+    setPreselectApplied(true);
+    if (!selectedService) {
+      setSelectedService(preselectedService);
+      setCurrentStep('date');
+    }
+  }
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Clients with past no-shows must pay the full price upfront
+  const [requiresFullPayment, setRequiresFullPayment] = useState(false);
+
+  // Bookings and blocked-out times on the selected date, so taken times aren't offered
+  const [existingBookings, setExistingBookings] = useState<Booking[]>([]);
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  // Pending booking from an earlier attempt, reused while the details stay the same
+  // (key is the booking data it was created from)
+  const [pendingBooking, setPendingBooking] = useState<{ id: string; holdSecret: string; key: string } | null>(null);
+  // Demo mode only: the booking saved locally instead of going to payment
+  const [demoBookingId, setDemoBookingId] = useState<string | null>(null);
 
-  // Mock bookings for availability (in production, fetch from Firestore)
-  const [existingBookings] = useState<Booking[]>([]);
-
-  // Pre-select service from URL param
+  // Calculate totals
+  // Uses the same pricing rules as the server, so the amount shown is the amount charged
+  const totals = selectedService
+    ? calculateBookingTotals(selectedService, selectedExtras.map(e => e.id), { requireFullPayment: requiresFullPayment }).totals
+    : undefined;
+  const extrasTotal = totals?.extrasTotal || 0;
+  const servicePrice = totals?.subtotal || 0;
+  const depositAmount = totals?.depositAmount || 0;
+  const totalPrice = totals?.totalPrice || 0;
+  const balanceDue = totals?.balanceDue || 0;
+
+  // Load the bookings and blocks for the selected date
+  // (create-payment re-checks the slot, so a failed load only affects what's shown)
+  const selectedDateTime = selectedDate?.getTime();
   useEffect(() => {
-    const serviceId = searchParams.get('service');
-    if (serviceId) {
-      const service = getServiceById(serviceId);
-      if (service) {
-        setSelectedService(service);
-        setCurrentStep('date');
-      }
-    }
-  }, [searchParams]);
+    if (selectedDateTime === undefined) return;
+    let cancelled = false;
 
-  // Calculate totals
-  const extrasTotal = selectedExtras.reduce((sum, extra) => sum + extra.price, 0);
-  const servicePrice = selectedService?.price || 0;
-  const depositAmount = selectedService?.depositAmount || 0;
-  const totalPrice = servicePrice + extrasTotal;
-  const balanceDue = totalPrice - depositAmount;
+    const { start, end } = getBusinessDayBounds(new Date(selectedDateTime));
+
+    Promise.all([getBookingsForDateRange(start, end), getBlocksForDateRange(start, end)])
+      .then(([bookings, dayBlocks]) => {
+        if (cancelled) return;
+        setExistingBookings(bookings);
+        setBlocks(dayBlocks);
+      })
+      .catch((error) => {
+        console.error('Availability load error:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDateTime]);
+
+  // Extras the selected service offers, at its prices
+  const offeredExtras = selectedService ? getExtrasForService(selectedService) : [];
+
+  // Stylists who perform the selected service
+  const serviceStylists = selectedService ? getStylistsForService(selectedService.id) : [];
+  const selectedStylist = selectedStylistId ? getStylistById(selectedStylistId) : undefined;
 
   // Get available time slots
   const availableTimeSlots = selectedService && selectedDate
-    ? getAvailableTimeSlots(selectedService, selectedDate, existingBookings)
+    ? getAvailableTimeSlots(selectedService, selectedDate, existingBookings, selectedStylistId || undefined, blocks)
     : [];
 
+  // The stylist the appointment will be with: the one chosen, or the first free at the selected time
+  const assignedStylist = selectedStylist || getStylistById(
+    availableTimeSlots.find(slot => slot.time === selectedTime)?.stylistId || ''
+  );
+
+  const selectService = (service: Service) => {
+    // Extras and their prices depend on the service, so choose them again
+    if (service.id !== selectedService?.id) {
+      setSelectedExtras([]);
+    }
+    setSelectedService(service);
+    // Keep the chosen stylist only if they perform the new service
+    if (selectedStylist && !performsService(selectedStylist, service)) {
+      setSelectedStylistId(null);
+    }
+  };
+
+  const selectStylist = (stylistId: string | null) => {
+    setSelectedStylistId(stylistId);
+    // Their days and times may differ, so pick again
+    setSelectedDate(null);
+    setSelectedTime(null);
+  };
+
   // Navigation
   const stepIndex = steps.findIndex(s => s.key === currentStep);
   
@@ -142,8 +223,6 @@ function BookingContent() {
   const goNext = () => {
     if (!canGoNext()) return;
     
-    if (currentStep === 'details' && !validateDetails()) return;
-    
     const nextIndex = stepIndex + 1;
     if (nextIndex < steps.length) {
       setCurrentStep(steps[nextIndex].key);
@@ -161,53 +240,127 @@ function BookingContent() {
     if (!policyAcknowledged || !selectedService || !selectedDate || !selectedTime) return;
     
     setIsSubmitting(true);
-    
-    try {
-      // In production, this would:
-      // 1. Create a pending booking in Firestore
-      // 2. Initialize Paystack payment
-      // 3. Redirect to Paystack checkout
-      
-      // For now, simulate payment flow
-      const bookingData = {
-        serviceId: selectedService.id,
-        serviceName: selectedService.name,
-        startTime: createDateTime(selectedDate, selectedTime),
-        endTime: createDateTime(selectedDate, calculateEndTime(selectedTime, selectedService.durationMinutes)),
-        client: clientDetails,
-        extras: selectedExtras.map(e => ({ extraId: e.id, name: e.name, price: e.price })),
-        subtotal: servicePrice,
-        extrasTotal,
-        depositAmount,
-        totalPaid: depositAmount,
-        balanceDue,
-        policyAcknowledged: true,
-      };
-
-      console.log('Booking data:', bookingData);
-      
-      // Redirect to payment (mock for now)
-      alert('In production, this would redirect to Paystack checkout.\n\nBooking Details:\n' + 
-        `Service: ${selectedService.name}\n` +
-        `Date: ${formatDate(selectedDate)}\n` +
-        `Time: ${formatTime(selectedTime)}\n` +
-        `Deposit: ${formatPrice(depositAmount)}`
+    setSubmitError(null);
+
+    if (!assignedStylist) {
+      setSubmitError(
+        `Sorry, ${formatTime(selectedTime)} on ${formatDate(selectedDate)} is no longer available. Please go back and choose another time.`
       );
-      
-      // router.push('/book/success?ref=xxx');
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Step 1: Create a pending booking (holds the slot), or retry with the
+    // booking from an earlier attempt if nothing has changed since
+    const bookingData = {
+      serviceId: selectedService.id,
+      serviceName: selectedService.name,
+      serviceVersion: selectedService.version,
+      stylistId: assignedStylist.id,
+      startTime: createDateTime(selectedDate, selectedTime),
+      endTime: createDateTime(selectedDate, calculateEndTime(selectedTime, selectedService.durationMinutes)),
+      client: clientDetails,
+      extras: totals?.extras || [],
+      subtotal: servicePrice,
+      extrasTotal,
+      depositAmount,
+      policyAcknowledged: true,
+    };
+
+    const bookingKey = JSON.stringify(bookingData);
+    let bookingId: string;
+    try {
+      if (pendingBooking?.key === bookingKey) {
+        bookingId = pendingBooking.id;
+      } else {
+        // Let go of the earlier booking first, or its hold would count against the new one
+        if (pendingBooking) {
+          const release = await fetch('/.netlify/functions/release-booking', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ bookingId: pendingBooking.id, holdSecret: pendingBooking.holdSecret }),
+          });
+          if (!release.ok && release.status !== 404) {
+            throw new Error(`Releasing booking ${pendingBooking.id} failed with status ${release.status}`);
+          }
+          setPendingBooking(null);
+        }
+
+        const created = await createBooking(bookingData);
+        bookingId = created.bookingId;
+        setPendingBooking({ id: bookingId, holdSecret: created.holdSecret, key: bookingKey });
+      }
+    } catch (error) {
+      console.error('Booking creation error:', error);
+      setSubmitError('We couldn\'t reserve your appointment. Please try again, or contact us if the problem continues.');
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Demo mode has no database for the payment functions to read, so stop here
+    if (isDemoMode) {
+      setDemoBookingId(bookingId);
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Step 2: Initialize the Paystack payment for the new booking
+    try {
+      const response = await fetch('/.netlify/functions/create-payment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: clientDetails.email,
+          amount: depositAmount,
+          bookingId,
+          serviceId: selectedService.id,
+          serviceName: selectedService.name,
+          clientName: `${clientDetails.firstName} ${clientDetails.lastName}`,
+          extras: bookingData.extras.map(e => ({ name: e.name, price: e.price })),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.authorizationUrl) {
+        console.error('Payment initialization failed:', data);
+        // The booking was cancelled or can no longer be paid for, so the next attempt needs a new one
+        if (['BOOKING_NOT_FOUND', 'BOOKING_NOT_PENDING', 'HOLD_EXPIRED', 'SLOT_UNAVAILABLE', 'FULL_PAYMENT_REQUIRED'].includes(data.code)) {
+          setPendingBooking(null);
+        }
+        if (data.code === 'FULL_PAYMENT_REQUIRED') {
+          setRequiresFullPayment(true);
+          setSubmitError(`${data.error}. Please review the updated amount and try again.`);
+        } else if (data.code === 'SLOT_UNAVAILABLE' || data.code === 'HOLD_EXPIRED') {
+          setSubmitError(
+            `Sorry, ${formatTime(selectedTime)} on ${formatDate(selectedDate)} is no longer available` +
+            `${data.reason ? ` (${data.reason.toLowerCase()})` : ''}. Please go back and choose another time.`
+          );
+        } else if (data.code === 'BOOKING_NOT_FOUND' || data.code === 'BOOKING_NOT_PENDING') {
+          setSubmitError('Your reservation is no longer active. Please try again to make a new one.');
+        } else {
+          setSubmitError(
+            `Your slot is reserved, but we couldn't start the payment${data.error ? `: ${data.error}` : '.'} Please try again.`
+          );
+        }
+        setIsSubmitting(false);
+        return;
+      }
+
+      // Step 3: Redirect to Paystack checkout (leaves the site, so keep the button disabled)
+      window.location.assign(data.authorizationUrl);
     } catch (error) {
-      console.error('Booking error:', error);
-      alert('Something went wrong. Please try again.');
-    } finally {
+      console.error('Payment request error:', error);
+      setSubmitError('We couldn\'t reach the payment service. Please check your connection and try again.');
       setIsSubmitting(false);
     }
   };
 
-  const toggleExtra = (extra: ServiceExtra) => {
+  const toggleExtra = (extra: OfferedExtra) => {
     setSelectedExtras(prev => 
       prev.some(e => e.id === extra.id)
         ? prev.filter(e => e.id !== extra.id)
-        : [...prev, extra]
+        // Choosing an extra replaces any other from its group
+        : [...prev.filter(e => !extra.group || e.group !== extra.group), extra]
     );
   };
 
@@ -283,7 +436,7 @@ function BookingContent() {
                         key={service.id}
                         service={service}
                         isSelected={selectedService?.id === service.id}
-                        onSelect={() => setSelectedService(service)}
+                        onSelect={() => selectService(service)}
                       />
                     ))}
                   </div>
@@ -299,11 +452,37 @@ function BookingContent() {
                   <p className="text-charcoal/60 mb-6">
                     Select a date for your {selectedService?.name} appointment.
                   </p>
+
+                  {/* Stylist choice - only when more than one stylist offers the service */}
+                  {serviceStylists.length > 1 && (
+                    <div className="mb-6">
+                      <h3 className="text-sm font-medium text-charcoal mb-3">Stylist</h3>
+                      <div className="grid sm:grid-cols-3 gap-3">
+                        <StylistOption
+                          name="Any stylist"
+                          title="First available"
+                          isSelected={!selectedStylistId}
+                          onSelect={() => selectStylist(null)}
+                        />
+                        {serviceStylists.map((stylist) => (
+                          <StylistOption
+                            key={stylist.id}
+                            name={stylist.name}
+                            title={stylist.title}
+                            isSelected={selectedStylistId === stylist.id}
+                            onSelect={() => selectStylist(stylist.id)}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <DatePicker
                     selectedDate={selectedDate}
                     onSelectDate={setSelectedDate}
                     minDate={getMinBookingDate()}
                     maxDate={getMaxBookingDate()}
+                    stylists={selectedStylist ? [selectedStylist] : serviceStylists}
                   />
                 </StepContent>
               )}
@@ -334,35 +513,11 @@ function BookingContent() {
                     </div>
                   )}
 
-                  {availableTimeSlots.length > 0 ? (
-                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
-                      {availableTimeSlots.map((slot) => (
-                        <button
-                          key={slot.time}
-                          onClick={() => slot.isAvailable && setSelectedTime(slot.time)}
-                          disabled={!slot.isAvailable}
-                          className={`p-4 rounded border-2 transition-all ${
-                            selectedTime === slot.time
-                              ? 'border-primary bg-primary/5 text-primary'
-                              : slot.isAvailable
-                              ? 'border-cream-dark hover:border-primary/50 text-charcoal'
-                              : 'border-cream-dark bg-cream-dark/50 text-charcoal/30 cursor-not-allowed'
-                          }`}
-                        >
-                          <span className="font-medium">{formatTime(slot.time)}</span>
-                          {!slot.isAvailable && slot.reason && (
-                            <span className="block text-xs mt-1">{slot.reason}</span>
-                          )}
-                        </button>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-center py-8">
-                      <p className="text-charcoal/60">
-                        No available times for this date. Please select another date.
-                      </p>
-                    </div>
-                  )}
+                  <TimeSlotPicker
+                    slots={availableTimeSlots}
+                    selectedTime={selectedTime}
+                    onSelectTime={setSelectedTime}
+                  />
                 </StepContent>
               )}
 
@@ -377,14 +532,20 @@ function BookingContent() {
                   </p>
                   
                   <div className="space-y-3">
-                    {globalExtras.map((extra) => (
+                    {offeredExtras.map((extra) => (
                       <ExtraOption
                         key={extra.id}
                         extra={extra}
+                        alternatives={offeredExtras
+                          .filter(e => extra.group && e.group === extra.group && e.id !== extra.id)
+                          .map(e => e.name)}
                         isSelected={selectedExtras.some(e => e.id === extra.id)}
                         onToggle={() => toggleExtra(extra)}
                       />
                     ))}
+                    {offeredExtras.length === 0 && (
+                      <p className="text-sm text-charcoal/60">No extras are available for this service.</p>
+                    )}
                   </div>
                 </StepContent>
               )}
@@ -488,6 +649,12 @@ function BookingContent() {
                           {formatTime(selectedTime)} - {formatTime(calculateEndTime(selectedTime, selectedService.durationMinutes))}
                         </span>
                       </div>
+                      {assignedStylist && (
+                        <div className="flex items-center gap-3 text-charcoal mt-2">
+                          <User size={18} className="text-primary" />
+                          <span>with {assignedStylist.name}</span>
+                        </div>
+                      )}
                     </div>
 
                     {/* Extras */}
@@ -530,13 +697,24 @@ function BookingContent() {
                         <span className="font-semibold">{formatPrice(totalPrice)}</span>
                       </div>
                       <div className="flex justify-between pt-2 border-t border-cream-dark">
-                        <span className="font-medium text-secondary">Deposit Due Now</span>
+                        <span className="font-medium text-secondary">
+                          {requiresFullPayment ? 'Full Payment Due Now' : 'Deposit Due Now'}
+                          {!requiresFullPayment && extrasTotal > 0 && (
+                            <span className="block text-xs font-normal text-charcoal/60">Includes extras</span>
+                          )}
+                        </span>
                         <span className="text-xl font-display text-primary">{formatPrice(depositAmount)}</span>
                       </div>
                       <div className="flex justify-between text-sm text-charcoal/60">
                         <span>Balance due at appointment</span>
                         <span>{formatPrice(balanceDue)}</span>
                       </div>
+                      {requiresFullPayment && (
+                        <p className="text-xs text-charcoal/60 pt-2">
+                          Because of a previous missed appointment, bookings under these details must be
+                          paid in full upfront. Contact us if you think this is a mistake.
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -547,7 +725,7 @@ function BookingContent() {
                       <div>
                         <h4 className="font-semibold text-secondary mb-1">Important: Non-Refundable Deposit</h4>
                         <p className="text-sm text-charcoal/70 mb-3">
-                          Your deposit of <strong>{formatPrice(depositAmount)}</strong> is{' '}
+                          Your {requiresFullPayment ? 'payment' : 'deposit'} of <strong>{formatPrice(depositAmount)}</strong> is{' '}
                           <strong>non-refundable</strong>. By proceeding with payment, you acknowledge 
                           and accept our cancellation and deposit policies.
                         </p>
@@ -568,6 +746,26 @@ function BookingContent() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Demo Mode Result */}
+                  {demoBookingId && (
+                    <div className="bg-cream/50 border border-cream-dark rounded-lg p-4 mb-6 flex items-start gap-3">
+                      <Check size={20} className="text-success flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-charcoal/80">
+                        Demo mode: your booking was saved in this browser tab and now appears in the
+                        admin schedule until the page reloads. Payments are turned off until Firebase
+                        and Paystack are configured.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Submission Error */}
+                  {submitError && (
+                    <div className="bg-error/5 border border-error/20 rounded-lg p-4 mb-6 flex items-start gap-3">
+                      <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-error">{submitError}</p>
+                    </div>
+                  )}
                 </StepContent>
               )}
             </AnimatePresence>
@@ -586,10 +784,12 @@ function BookingContent() {
               {currentStep === 'review' ? (
                 <button
                   onClick={handleSubmit}
-                  disabled={!policyAcknowledged || isSubmitting}
+                  disabled={!policyAcknowledged || isSubmitting || !!demoBookingId}
                   className="btn btn-primary"
                 >
-                  {isSubmitting ? 'Processing...' : `Pay Deposit ${formatPrice(depositAmount)}`}
+                  {isSubmitting
+                    ? 'Processing...'
+                    : `${requiresFullPayment ? 'Pay in Full' : 'Pay Deposit'} ${formatPrice(depositAmount)}`}
                   {!isSubmitting && <CreditCard size={18} />}
                 </button>
               ) : (
@@ -662,133 +862,47 @@ function ServiceOption({
   );
 }
 
-function DatePicker({
-  selectedDate,
-  onSelectDate,
-  minDate,
-  maxDate,
+function StylistOption({
+  name,
+  title,
+  isSelected,
+  onSelect,
 }: {
-  selectedDate: Date | null;
-  onSelectDate: (date: Date) => void;
-  minDate: Date;
-  maxDate: Date;
+  name: Stylist['name'];
+  title: Stylist['title'];
+  isSelected: boolean;
+  onSelect: () => void;
 }) {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
-
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const startingDay = firstDay.getDay();
-
-    const days: (Date | null)[] = [];
-    
-    // Add empty slots for days before the first of the month
-    for (let i = 0; i < startingDay; i++) {
-      days.push(null);
-    }
-    
-    // Add all days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      days.push(new Date(year, month, day));
-    }
-
-    return days;
-  };
-
-  const isDateDisabled = (date: Date) => {
-    const dayOfWeek = date.getDay();
-    const workingDay = settings.workingHours.find(wh => wh.dayOfWeek === dayOfWeek);
-    
-    // Check if it's a working day
-    if (!workingDay || !workingDay.isOpen) return true;
-    
-    // Check if it's within allowed range
-    if (date < minDate || date > maxDate) return true;
-    
-    // Check if it's an off day
-    const dateStr = date.toISOString().split('T')[0];
-    if (settings.offDays.includes(dateStr)) return true;
-    
-    return false;
-  };
-
-  const isDateSelected = (date: Date) => {
-    if (!selectedDate) return false;
-    return (
-      date.getDate() === selectedDate.getDate() &&
-      date.getMonth() === selectedDate.getMonth() &&
-      date.getFullYear() === selectedDate.getFullYear()
-    );
-  };
-
-  const days = getDaysInMonth(currentMonth);
-  const monthName = currentMonth.toLocaleDateString('en-CA', { month: 'long', year: 'numeric' });
-
   return (
-    <div className="max-w-md mx-auto">
-      {/* Month Navigation */}
-      <div className="flex items-center justify-between mb-4">
-        <button
-          onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1))}
-          className="p-2 hover:bg-cream rounded"
-        >
-          <ArrowLeft size={20} />
-        </button>
-        <h3 className="font-display text-xl text-secondary">{monthName}</h3>
-        <button
-          onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1))}
-          className="p-2 hover:bg-cream rounded"
-        >
-          <ArrowRight size={20} />
-        </button>
-      </div>
-
-      {/* Day Headers */}
-      <div className="grid grid-cols-7 gap-1 mb-2">
-        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
-          <div key={day} className="text-center text-xs font-medium text-charcoal/60 py-2">
-            {day}
-          </div>
-        ))}
-      </div>
-
-      {/* Calendar Grid */}
-      <div className="grid grid-cols-7 gap-1">
-        {days.map((date, index) => (
-          <div key={index} className="aspect-square">
-            {date ? (
-              <button
-                onClick={() => !isDateDisabled(date) && onSelectDate(date)}
-                disabled={isDateDisabled(date)}
-                className={`w-full h-full rounded flex items-center justify-center text-sm transition-all ${
-                  isDateSelected(date)
-                    ? 'bg-primary text-white'
-                    : isDateDisabled(date)
-                    ? 'text-charcoal/20 cursor-not-allowed'
-                    : 'hover:bg-primary/10 text-charcoal'
-                }`}
-              >
-                {date.getDate()}
-              </button>
-            ) : (
-              <div />
-            )}
-          </div>
-        ))}
+    <button
+      onClick={onSelect}
+      className={`text-left p-4 rounded-lg border-2 transition-all ${
+        isSelected
+          ? 'border-primary bg-primary/5'
+          : 'border-cream-dark hover:border-primary/50'
+      }`}
+    >
+      <div className="flex justify-between items-start">
+        <h4 className="font-medium text-secondary">{name}</h4>
+        {isSelected && (
+          <span className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+            <Check size={12} className="text-white" />
+          </span>
+        )}
       </div>
-    </div>
+      <p className="text-sm text-charcoal/60">{title}</p>
+    </button>
   );
 }
 
 function ExtraOption({
   extra,
+  alternatives,
   isSelected,
   onToggle,
 }: {
-  extra: ServiceExtra;
+  extra: OfferedExtra;
+  alternatives: string[]; // Extras that can't be chosen with this one
   isSelected: boolean;
   onToggle: () => void;
 }) {
@@ -812,6 +926,9 @@ function ExtraOption({
           {extra.description && (
             <p className="text-sm text-charcoal/60">{extra.description}</p>
           )}
+          {alternatives.length > 0 && (
+            <p className="text-xs text-charcoal/50">Instead of {alternatives.join(' or ')}</p>
+          )}
         </div>
       </div>
       <span className="font-semibold text-primary">+{formatPrice(extra.price)}</span>
@@ -0,0 +1,341 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { AlertCircle, ArrowLeft, ArrowRight, Calendar, CheckCircle, Clock } from 'lucide-react';
+import { getStylistById } from '@/data/stylists';
+import { policies } from '@/data/settings';
+import { useSettings } from '@/components/SettingsProvider';
+import { useServices } from '@/components/CatalogProvider';
+import { RescheduleBookingResponse } from '@/types';
+import { formatDate, formatTime, getMaxBookingDate, getMinBookingDate } from '@/lib/utils';
+import { fromDateKey, getAvailableTimeSlots, getBusinessDateTime, toDateKey } from '@/lib/availability';
+import { DatePicker } from '@/components/DatePicker';
+import { TimeSlotPicker } from '@/components/TimeSlotPicker';
+
+type RescheduleStep = 'lookup' | 'date' | 'time' | 'done';
+
+/**
+ * Formats a stored appointment time for display in the business timezone.
+ * Example: "Friday, March 15, 2024 at 9:00 AM"
+ */
+function formatAppointment(isoTime: string): string {
+  const { date, time } = getBusinessDateTime(new Date(isoTime));
+  return `${formatDate(fromDateKey(date))} at ${formatTime(time)}`;
+}
+
+/**
+ * Calls the reschedule-booking function.
+ * Without a date and time it only looks the booking up.
+ */
+async function callRescheduleFunction(payload: Record<string, string | undefined>) {
+  const response = await fetch('/.netlify/functions/reschedule-booking', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+}
+
+function RescheduleContent() {
+  const settings = useSettings();
+  const searchParams = useSearchParams();
+  // Signed link from the manage page - identifies the booking without reference + email
+  const token = searchParams.get('token');
+
+  const [step, setStep] = useState<RescheduleStep>('lookup');
+  const [reference, setReference] = useState(searchParams.get('reference') || '');
+  const [email, setEmail] = useState('');
+  const [booking, setBooking] = useState<RescheduleBookingResponse | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const services = useServices();
+  const service = booking ? services.find(s => s.id === booking.serviceId) : undefined;
+  const stylist = booking ? getStylistById(booking.stylistId) : undefined;
+
+  // Show the service's time slots with the same stylist, for the length the booking
+  // was made with (the server re-checks against live bookings)
+  const bookedService = service && booking
+    ? { ...service, durationMinutes: Math.round((Date.parse(booking.endTime) - Date.parse(booking.startTime)) / 60000) }
+    : undefined;
+  const availableTimeSlots = bookedService && selectedDate
+    ? getAvailableTimeSlots(bookedService, selectedDate, [], booking?.stylistId)
+    : [];
+
+  // Signed links identify the booking on their own
+  const identity = token ? { token } : { reference, email };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reference.trim() || !email.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const { ok, data } = await callRescheduleFunction(identity);
+      if (!ok) {
+        setError(data.error || 'We couldn\'t find your booking. Please check your details.');
+      } else {
+        setBooking(data);
+        if (data.canReschedule) setStep('date');
+      }
+    } catch (err) {
+      console.error('Booking lookup error:', err);
+      setError('We couldn\'t reach the booking service. Please check your connection and try again.');
+    }
+    setIsSubmitting(false);
+  };
+
+  // Signed links skip the lookup form
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    callRescheduleFunction({ token })
+      .then(({ ok, data }) => {
+        if (cancelled) return;
+        if (!ok) {
+          setError(data.error || 'This link is invalid or has expired.');
+        } else {
+          setBooking(data);
+          if (data.canReschedule) setStep('date');
+        }
+      })
+      .catch((err) => {
+        console.error('Booking lookup error:', err);
+        if (!cancelled) setError('We couldn\'t reach the booking service. Please check your connection and try again.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleReschedule = async () => {
+    if (!selectedDate || !selectedTime) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const { ok, data } = await callRescheduleFunction({
+        ...identity,
+        date: toDateKey(selectedDate),
+        time: selectedTime,
+      });
+      if (!ok) {
+        setError(
+          `${data.error || 'We couldn\'t reschedule your booking.'}` +
+          `${data.reason ? ` (${data.reason.toLowerCase()})` : ''}`
+        );
+      } else {
+        setBooking(data);
+        setStep('done');
+      }
+    } catch (err) {
+      console.error('Reschedule error:', err);
+      setError('We couldn\'t reach the booking service. Please check your connection and try again.');
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <section className="pt-32 pb-8 bg-cream">
+        <div className="container">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-3xl mx-auto text-center"
+          >
+            <h1 className="font-display text-4xl md:text-5xl text-secondary mb-4">
+              Reschedule Your <span className="italic text-primary">Appointment</span>
+            </h1>
+            <p className="text-charcoal/70">
+              Move your booking at least {settings.rescheduleNoticeHours} hours before your appointment
+              and your deposit carries over to the new time.
+            </p>
+          </motion.div>
+        </div>
+      </section>
+
+      <section className="section bg-white min-h-[60vh]">
+        <div className="container">
+          <div className="max-w-4xl mx-auto">
+            {/* Current appointment */}
+            {booking && (
+              <div className="bg-cream/50 p-4 rounded mb-8 flex items-start gap-3">
+                <Calendar size={20} className="text-primary flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium text-secondary">
+                    {booking.serviceName}
+                    {stylist && <span className="font-normal text-charcoal/60"> with {stylist.name}</span>}
+                  </p>
+                  <p className="text-sm text-charcoal/70">
+                    {step === 'done' ? 'New time: ' : 'Currently booked for '}
+                    {formatAppointment(booking.startTime)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-error/5 border border-error/20 rounded-lg p-4 mb-8 flex items-start gap-3">
+                <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-error">{error}</p>
+              </div>
+            )}
+
+            {/* Step 1: Find the booking */}
+            {step === 'lookup' && (
+              <>
+                {booking && !booking.canReschedule ? (
+                  <div className="text-center py-8">
+                    <p className="text-charcoal/70 mb-4">{booking.reason}.</p>
+                    <p className="text-sm text-charcoal/60 mb-6">
+                      See our{' '}
+                      <Link href="/policies" className="text-primary hover:underline">
+                        {policies.cancellation.title.toLowerCase()}
+                      </Link>
+                      , or contact us at{' '}
+                      <a href={`mailto:${settings.contactEmail}`} className="text-primary hover:underline">
+                        {settings.contactEmail}
+                      </a>
+                      .
+                    </p>
+                  </div>
+                ) : token ? (
+                  !error && (
+                    <div className="flex justify-center py-8">
+                      <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+                    </div>
+                  )
+                ) : (
+                  <form onSubmit={handleLookup} className="max-w-md mx-auto space-y-4">
+                    <div>
+                      <label className="label">Booking Reference *</label>
+                      <input
+                        type="text"
+                        value={reference}
+                        onChange={(e) => setReference(e.target.value)}
+                        className="input font-mono"
+                        placeholder="BEL_..."
+                      />
+                    </div>
+                    <div>
+                      <label className="label">Email *</label>
+                      <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="input"
+                        placeholder="The email you booked with"
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || !reference.trim() || !email.trim()}
+                      className="btn btn-primary w-full disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Finding Booking...' : 'Find My Booking'}
+                    </button>
+                  </form>
+                )}
+              </>
+            )}
+
+            {/* Step 2: New date */}
+            {step === 'date' && (
+              <>
+                <h2 className="font-display text-2xl text-secondary mb-6">Choose a New Date</h2>
+                <DatePicker
+                  selectedDate={selectedDate}
+                  onSelectDate={(date) => {
+                    setSelectedDate(date);
+                    setSelectedTime(null);
+                  }}
+                  minDate={getMinBookingDate()}
+                  maxDate={getMaxBookingDate()}
+                  stylists={stylist ? [stylist] : undefined}
+                />
+                <div className="flex justify-end mt-8">
+                  <button
+                    onClick={() => setStep('time')}
+                    disabled={!selectedDate}
+                    className="btn btn-primary disabled:opacity-50"
+                  >
+                    Continue
+                    <ArrowRight size={18} />
+                  </button>
+                </div>
+              </>
+            )}
+
+            {/* Step 3: New time */}
+            {step === 'time' && (
+              <>
+                <h2 className="font-display text-2xl text-secondary mb-2">Select a New Time</h2>
+                <p className="text-charcoal/60 mb-6">
+                  Available times for {selectedDate && formatDate(selectedDate)}
+                </p>
+                <TimeSlotPicker
+                  slots={availableTimeSlots}
+                  selectedTime={selectedTime}
+                  onSelectTime={setSelectedTime}
+                />
+                <div className="flex justify-between mt-8">
+                  <button onClick={() => setStep('date')} className="btn btn-outline">
+                    <ArrowLeft size={18} />
+                    Back
+                  </button>
+                  <button
+                    onClick={handleReschedule}
+                    disabled={!selectedTime || isSubmitting}
+                    className="btn btn-primary disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Rescheduling...' : 'Confirm New Time'}
+                    {!isSubmitting && <Clock size={18} />}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {/* Done */}
+            {step === 'done' && (
+              <div className="text-center py-8">
+                <CheckCircle className="w-14 h-14 text-success mx-auto mb-4" />
+                <h2 className="font-display text-2xl text-secondary mb-2">You&apos;re All Set</h2>
+                <p className="text-charcoal/70 mb-6">
+                  Your deposit has been carried over. We&apos;ve emailed you an updated calendar invite.
+                </p>
+                <Link href="/" className="btn btn-primary">
+                  Return Home
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+    </>
+  );
+}
+
+export default function ReschedulePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    }>
+      <RescheduleContent />
+    </Suspense>
+  );
+}
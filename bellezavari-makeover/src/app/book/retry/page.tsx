@@ -0,0 +1,125 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { AlertCircle, ArrowRight, CreditCard } from 'lucide-react';
+import { useSettings } from '@/components/SettingsProvider';
+
+function RetryContent() {
+  const settings = useSettings();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [canRetry, setCanRetry] = useState(true);
+
+  const handleRetry = async () => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // The server re-checks the hold and the slot, and prices the booking itself
+      const response = await fetch('/.netlify/functions/create-payment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.authorizationUrl) {
+        if (['HOLD_EXPIRED', 'SLOT_UNAVAILABLE', 'BOOKING_NOT_PENDING', 'BOOKING_NOT_FOUND', 'FULL_PAYMENT_REQUIRED', 'INVALID_TOKEN'].includes(data.code)) {
+          setCanRetry(false);
+        }
+        setError(data.error || 'We couldn\'t start the payment. Please try again.');
+        setIsSubmitting(false);
+        return;
+      }
+
+      window.location.assign(data.authorizationUrl);
+    } catch (err) {
+      console.error('Payment retry error:', err);
+      setError('We couldn\'t reach the payment service. Please check your connection and try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="min-h-screen bg-cream bg-pattern flex items-center justify-center py-20">
+      <div className="container">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="max-w-xl mx-auto text-center"
+        >
+          <div className="w-24 h-24 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-8">
+            <CreditCard className="w-12 h-12 text-primary" />
+          </div>
+
+          <h1 className="font-display text-4xl md:text-5xl text-secondary mb-4">
+            Retry Your <span className="italic text-primary">Payment</span>
+          </h1>
+
+          <p className="text-charcoal/70 text-lg mb-8">
+            Your last payment attempt didn&apos;t go through. We&apos;re holding your slot for a
+            short time so you can try again.
+          </p>
+
+          {!token && (
+            <p className="text-error mb-8">
+              This link is missing its booking details. Please use the link from your email.
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-error/5 border border-error/20 rounded-lg p-4 mb-8 flex items-start gap-3 text-left">
+              <AlertCircle size={20} className="text-error flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-error">{error}</p>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+            {token && canRetry ? (
+              <button
+                onClick={handleRetry}
+                disabled={isSubmitting}
+                className="btn btn-primary"
+              >
+                {isSubmitting ? 'Processing...' : 'Try Payment Again'}
+                {!isSubmitting && <CreditCard size={18} />}
+              </button>
+            ) : (
+              <Link href="/book" className="btn btn-primary group">
+                Start a New Booking
+                <ArrowRight size={18} className="group-hover:translate-x-1 transition-transform" />
+              </Link>
+            )}
+          </div>
+
+          <p className="text-sm text-charcoal/50 mt-8">
+            Need help?{' '}
+            <a href={`mailto:${settings.contactEmail}`} className="text-primary hover:underline">
+              Contact us
+            </a>
+          </p>
+        </motion.div>
+      </div>
+    </section>
+  );
+}
+
+export default function RetryPaymentPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    }>
+      <RetryContent />
+    </Suspense>
+  );
+}
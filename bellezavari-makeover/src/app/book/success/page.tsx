@@ -1,16 +1,156 @@
 'use client';
 
-import { Suspense } from 'react';
+import { Suspense, useEffect, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { CheckCircle, Calendar, Clock, ArrowRight, Instagram, Download } from 'lucide-react';
-import { settings } from '@/data/settings';
+import { CheckCircle, Calendar, Clock, ArrowRight, Instagram, Download, XCircle, DollarSign } from 'lucide-react';
+import { useSettings } from '@/components/SettingsProvider';
+import { BookingStatusResponse } from '@/types';
+import { formatDate, formatPrice, formatTime } from '@/lib/utils';
+import { getBusinessDateTime } from '@/lib/availability';
+import { CalendarBooking, generateBookingIcs, getBookingIcsFilename } from '@/lib/calendar';
+
+// Poll every 3 seconds for up to 2 minutes while waiting for the webhook
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLL_ATTEMPTS = 40;
 
 function SuccessContent() {
+  const settings = useSettings();
   const searchParams = useSearchParams();
   const reference = searchParams.get('reference') || searchParams.get('trxref');
 
+  const [booking, setBooking] = useState<BookingStatusResponse | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+
+  // Poll the booking status until the payment is confirmed or has failed
+  useEffect(() => {
+    if (!reference) return;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const poll = async () => {
+      attempts++;
+      try {
+        const response = await fetch(
+          `/.netlify/functions/booking-status?reference=${encodeURIComponent(reference)}`
+        );
+        if (cancelled) return;
+
+        if (response.ok) {
+          const data: BookingStatusResponse = await response.json();
+          if (cancelled) return;
+          setBooking(data);
+          if (data.status !== 'pending') return; // Final state reached
+        } else if (response.status !== 404) {
+          // 404 can happen briefly before the reference is stored; keep polling
+          console.error('Booking status error:', response.status);
+        }
+      } catch (error) {
+        console.error('Booking status request failed:', error);
+      }
+
+      if (attempts >= MAX_POLL_ATTEMPTS) {
+        setTimedOut(true);
+        return;
+      }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    timer = setTimeout(poll, 0);
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [reference]);
+
+  if (!reference) {
+    return <StatusMessage title="No Booking Found" tone="error">
+      We couldn&apos;t find a booking reference in this link. If you completed a payment,
+      please check your email or contact us.
+    </StatusMessage>;
+  }
+
+  if (!booking || booking.status === 'pending') {
+    if (timedOut) {
+      return <StatusMessage title="Still Processing" tone="pending" reference={reference}>
+        We haven&apos;t received confirmation from our payment provider yet. This can take a few
+        minutes. You&apos;ll receive an email as soon as your booking is confirmed.
+      </StatusMessage>;
+    }
+
+    return <StatusMessage title="Confirming Your Payment" tone="pending" reference={reference} spinner>
+      {booking?.paymentReceived
+        ? 'Your payment was received. We\'re finalising your appointment slot and will email you shortly.'
+        : 'Please wait while we confirm your payment. This usually takes a few seconds.'}
+    </StatusMessage>;
+  }
+
+  if (booking.paymentType === 'balance') {
+    if (booking.status === 'failed') {
+      return <StatusMessage title="Payment Not Completed" tone="error" reference={reference}>
+        Your balance payment for {booking.serviceName} was not successful
+        {booking.failureReason ? ` (${booking.failureReason})` : ''}. Your appointment is
+        still confirmed - you can pay the balance in person, or contact us for a new payment link.
+      </StatusMessage>;
+    }
+
+    const appointment = getBusinessDateTime(new Date(booking.startTime));
+    return <StatusMessage title="Balance Paid" tone="success" reference={reference}>
+      Thank you! We&apos;ve received your payment for {booking.serviceName} on{' '}
+      {formatDate(new Date(`${appointment.date}T12:00:00`))} at {formatTime(appointment.time)}.
+      <span className="block mt-4 text-base">
+        Total paid {formatPrice(booking.totalPaid)} · Balance due {formatPrice(booking.balanceDue)}
+      </span>
+    </StatusMessage>;
+  }
+
+  if (booking.status === 'failed') {
+    return <StatusMessage title="Payment Not Completed" tone="error" reference={reference}>
+      Your deposit payment for {booking.serviceName} was not successful
+      {booking.failureReason ? ` (${booking.failureReason})` : ''}.
+      {booking.retryPaymentUrl ? (
+        <span className="block mt-6">
+          <a href={booking.retryPaymentUrl} className="btn btn-primary">
+            Try Payment Again
+          </a>
+        </span>
+      ) : (
+        <span className="block mt-6">
+          <Link href="/book" className="btn btn-primary">
+            Start a New Booking
+          </Link>
+        </span>
+      )}
+    </StatusMessage>;
+  }
+
+  const start = getBusinessDateTime(new Date(booking.startTime));
+  const end = getBusinessDateTime(new Date(booking.endTime));
+
+  // Build the .ics file in the browser and trigger a download
+  const handleAddToCalendar = () => {
+    const calendarBooking: CalendarBooking = {
+      paymentReference: booking.reference,
+      serviceName: booking.serviceName,
+      startTime: new Date(booking.startTime),
+      endTime: new Date(booking.endTime),
+      totalPaid: booking.totalPaid,
+      balanceDue: booking.balanceDue,
+    };
+
+    const blob = new Blob([generateBookingIcs(calendarBooking)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getBookingIcsFilename(calendarBooking);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <section className="min-h-screen bg-cream bg-pattern flex items-center justify-center py-20">
       <div className="container">
@@ -49,21 +189,38 @@ function SuccessContent() {
             and a confirmation email has been sent to you.
           </motion.p>
 
-          {/* Reference */}
-          {reference && (
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.5 }}
-              className="bg-white rounded-lg p-6 mb-8 shadow-sm"
-            >
+          {/* Appointment Details */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="bg-white rounded-lg p-6 mb-8 shadow-sm text-left"
+          >
+            <h2 className="font-display text-xl text-secondary mb-4">{booking.serviceName}</h2>
+            <div className="space-y-2 text-charcoal">
+              <div className="flex items-center gap-3">
+                <Calendar size={18} className="text-primary" />
+                <span>{formatDate(new Date(`${start.date}T12:00:00`))}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Clock size={18} className="text-primary" />
+                <span>{formatTime(start.time)} - {formatTime(end.time)}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <DollarSign size={18} className="text-primary" />
+                <span>
+                  Deposit paid {formatPrice(booking.totalPaid)} · Balance due {formatPrice(booking.balanceDue)}
+                </span>
+              </div>
+            </div>
+            <div className="mt-4 pt-4 border-t border-cream-dark">
               <p className="text-sm text-charcoal/60 mb-1">Booking Reference</p>
-              <p className="text-2xl font-mono font-semibold text-secondary">{reference}</p>
+              <p className="text-lg font-mono font-semibold text-secondary break-all">{reference}</p>
               <p className="text-xs text-charcoal/50 mt-2">
                 Please save this reference for your records
               </p>
-            </motion.div>
-          )}
+            </div>
+          </motion.div>
 
           {/* What's Next */}
           <motion.div
@@ -134,6 +291,10 @@ function SuccessContent() {
             transition={{ delay: 0.8 }}
             className="flex flex-col sm:flex-row items-center justify-center gap-4"
           >
+            <button onClick={handleAddToCalendar} className="btn btn-outline">
+              <Download size={18} />
+              Add to Calendar
+            </button>
             <Link href="/" className="btn btn-primary group">
               Return Home
               <ArrowRight size={18} className="group-hover:translate-x-1 transition-transform" />
@@ -156,11 +317,81 @@ function SuccessContent() {
             transition={{ delay: 0.9 }}
             className="text-sm text-charcoal/50 mt-8"
           >
+            Need to change your appointment?{' '}
+            <Link
+              href={`/book/reschedule?reference=${encodeURIComponent(reference)}`}
+              className="text-primary hover:underline"
+            >
+              Reschedule online
+            </Link>{' '}
+            up to {settings.rescheduleNoticeHours} hours before, or{' '}
+            <a href={`mailto:${settings.contactEmail}`} className="text-primary hover:underline">
+              contact us
+            </a>
+          </motion.p>
+        </motion.div>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Centered status card used for the pending, failed and error states,
+ * and for balance payment confirmations.
+ */
+function StatusMessage({
+  title,
+  tone,
+  reference,
+  spinner,
+  children,
+}: {
+  title: string;
+  tone: 'pending' | 'error' | 'success';
+  reference?: string;
+  spinner?: boolean;
+  children: React.ReactNode;
+}) {
+  const settings = useSettings();
+
+  return (
+    <section className="min-h-screen bg-cream bg-pattern flex items-center justify-center py-20">
+      <div className="container">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="max-w-2xl mx-auto text-center"
+        >
+          <div className={`w-24 h-24 rounded-full flex items-center justify-center mx-auto mb-8 ${
+            tone === 'error' ? 'bg-error/10' : tone === 'success' ? 'bg-success/10' : 'bg-primary/10'
+          }`}>
+            {spinner ? (
+              <div className="animate-spin w-12 h-12 border-4 border-primary border-t-transparent rounded-full" />
+            ) : tone === 'error' ? (
+              <XCircle className="w-14 h-14 text-error" />
+            ) : tone === 'success' ? (
+              <CheckCircle className="w-14 h-14 text-success" />
+            ) : (
+              <Clock className="w-14 h-14 text-primary" />
+            )}
+          </div>
+
+          <h1 className="font-display text-4xl md:text-5xl text-secondary mb-4">{title}</h1>
+
+          <div className="text-charcoal/70 text-lg mb-8">{children}</div>
+
+          {reference && (
+            <p className="text-sm text-charcoal/50">
+              Reference: <span className="font-mono">{reference}</span>
+            </p>
+          )}
+
+          <p className="text-sm text-charcoal/50 mt-4">
             Questions about your booking?{' '}
             <a href={`mailto:${settings.contactEmail}`} className="text-primary hover:underline">
               Contact us
             </a>
-          </motion.p>
+          </p>
         </motion.div>
       </div>
     </section>
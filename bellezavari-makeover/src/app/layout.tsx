@@ -3,6 +3,8 @@ import { Cormorant_Garamond, DM_Sans } from "next/font/google";
 import "./globals.css";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
+import { SettingsProvider } from "@/components/SettingsProvider";
+import { CatalogProvider } from "@/components/CatalogProvider";
 
 const cormorant = Cormorant_Garamond({
   variable: "--font-cormorant",
@@ -52,11 +54,15 @@ export default function RootLayout({
       <body
         className={`${cormorant.variable} ${dmSans.variable} antialiased min-h-screen flex flex-col`}
       >
-        <Navigation />
-        <main className="flex-1">
-          {children}
-        </main>
-        <Footer />
+        <SettingsProvider>
+          <CatalogProvider>
+            <Navigation />
+            <main className="flex-1">
+              {children}
+            </main>
+            <Footer />
+          </CatalogProvider>
+        </SettingsProvider>
       </body>
     </html>
   );
@@ -3,8 +3,9 @@
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { ArrowRight, Star, Clock, Sparkles, Crown, Instagram } from 'lucide-react';
-import { services, categoryNames } from '@/data/services';
-import { settings } from '@/data/settings';
+import { categoryNames } from '@/data/services';
+import { useServices } from '@/components/CatalogProvider';
+import { useSettings } from '@/components/SettingsProvider';
 import { formatPrice, formatDuration } from '@/lib/utils';
 
 // Animation variants
@@ -22,11 +23,14 @@ const staggerContainer = {
 };
 
 // Featured services (hand-picked for homepage)
-const featuredServices = services.filter(s => 
-  ['knotless-braids-medium', 'butterfly-locs', 'frontal-install', 'silk-press'].includes(s.id)
-).slice(0, 4);
+const featuredServiceIds = ['knotless-braids-medium', 'butterfly-locs', 'frontal-install', 'silk-press'];
 
 export default function HomePage() {
+  const settings = useSettings();
+  const featuredServices = useServices()
+    .filter(s => s.isActive && featuredServiceIds.includes(s.id))
+    .slice(0, 4);
+
   return (
     <>
       {/* Hero Section */}
@@ -4,17 +4,19 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { ArrowRight, ChevronDown, AlertCircle, Clock, Calendar, MapPin, Shield } from 'lucide-react';
-import { policies, settings, dayNames, formatWorkingHours } from '@/data/settings';
-
-const policyList = [
-  { key: 'deposit', icon: Shield, ...policies.deposit },
-  { key: 'cancellation', icon: Calendar, ...policies.cancellation },
-  { key: 'lateness', icon: Clock, ...policies.lateness },
-  { key: 'homeService', icon: MapPin, ...policies.homeService },
-  { key: 'general', icon: AlertCircle, ...policies.general },
-];
+import { policies, dayNames, formatWorkingHours } from '@/data/settings';
+import { useSettings } from '@/components/SettingsProvider';
 
 export default function PoliciesPage() {
+  const settings = useSettings();
+  // Built on each render, so policy text that depends on settings is current once they load
+  const policyList = [
+    { key: 'deposit', icon: Shield, ...policies.deposit },
+    { key: 'cancellation', icon: Calendar, ...policies.cancellation },
+    { key: 'lateness', icon: Clock, ...policies.lateness },
+    { key: 'homeService', icon: MapPin, ...policies.homeService },
+    { key: 'general', icon: AlertCircle, ...policies.general },
+  ];
   const [openPolicy, setOpenPolicy] = useState<string | null>('deposit');
 
   return (
@@ -4,7 +4,8 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Clock, ArrowRight, Sparkles, Info } from 'lucide-react';
-import { services, categoryNames, getServicesByCategory } from '@/data/services';
+import { categoryNames } from '@/data/services';
+import { useServices } from '@/components/CatalogProvider';
 import { Service } from '@/types';
 import { formatPrice, formatDuration, getStartTimeDescription } from '@/lib/utils';
 
@@ -19,11 +20,12 @@ const categories: { value: Category; label: string }[] = [
 ];
 
 export default function ServicesPage() {
+  const services = useServices();
   const [activeCategory, setActiveCategory] = useState<Category>('all');
 
-  const filteredServices = activeCategory === 'all' 
-    ? services.filter(s => s.isActive)
-    : getServicesByCategory(activeCategory as Service['category']);
+  const filteredServices = services.filter(s =>
+    s.isActive && (activeCategory === 'all' || s.category === activeCategory)
+  );
 
   return (
     <>
@@ -0,0 +1,52 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Service } from '@/types';
+import { services as currentServices } from '@/data/services';
+import { loadServices } from '@/lib/catalog';
+
+const CatalogContext = createContext<{
+  services: Service[];
+  refresh: () => void;
+}>({
+  services: currentServices,
+  refresh: () => {},
+});
+
+/**
+ * Loads the saved service catalog once per visit and re-renders the
+ * components that list services. Until it arrives, the built-in catalog
+ * from src/data/services.ts is shown.
+ */
+export function CatalogProvider({ children }: { children: React.ReactNode }) {
+  const [value, setValue] = useState<Service[]>(() => [...currentServices]);
+
+  // Shows whatever is in the shared services array now (e.g., just saved)
+  const refresh = useCallback(() => setValue([...currentServices]), []);
+
+  useEffect(() => {
+    loadServices().then(loaded => setValue([...loaded]));
+  }, []);
+
+  return (
+    <CatalogContext.Provider value={{ services: value, refresh }}>
+      {children}
+    </CatalogContext.Provider>
+  );
+}
+
+/**
+ * The service catalog, including inactive and deleted services
+ * (filter on isActive before offering them).
+ */
+export function useServices(): Service[] {
+  return useContext(CatalogContext).services;
+}
+
+/**
+ * Returns a function that re-renders the site with the current catalog.
+ * Call it after saving a service.
+ */
+export function useRefreshServices(): () => void {
+  return useContext(CatalogContext).refresh;
+}
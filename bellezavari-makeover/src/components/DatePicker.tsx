@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { Stylist } from '@/types';
+import { isClosedOn } from '@/lib/availability';
+
+/**
+ * Month calendar for picking an appointment date.
+ * Days none of the stylists work, off days and dates outside minDate/maxDate
+ * are disabled. Used by the booking and reschedule flows.
+ */
+export function DatePicker({
+  selectedDate,
+  onSelectDate,
+  minDate,
+  maxDate,
+  stylists,
+}: {
+  selectedDate: Date | null;
+  onSelectDate: (date: Date) => void;
+  minDate: Date;
+  maxDate: Date;
+  stylists?: Stylist[]; // Stylists who could take the booking (defaults to all active stylists)
+}) {
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+
+  const getDaysInMonth = (date: Date) => {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    const firstDay = new Date(year, month, 1);
+    const lastDay = new Date(year, month + 1, 0);
+    const daysInMonth = lastDay.getDate();
+    const startingDay = firstDay.getDay();
+
+    const days: (Date | null)[] = [];
+    
+    // Add empty slots for days before the first of the month
+    for (let i = 0; i < startingDay; i++) {
+      days.push(null);
+    }
+    
+    // Add all days of the month
+    for (let day = 1; day <= daysInMonth; day++) {
+      days.push(new Date(year, month, day));
+    }
+
+    return days;
+  };
+
+  const isDateDisabled = (date: Date) => {
+    // Check if it's a working day for one of the stylists (and not an off day)
+    if (isClosedOn(date, stylists)) return true;
+    
+    // Check if it's within allowed range
+    if (date < minDate || date > maxDate) return true;
+    
+    return false;
+  };
+
+  const isDateSelected = (date: Date) => {
+    if (!selectedDate) return false;
+    return (
+      date.getDate() === selectedDate.getDate() &&
+      date.getMonth() === selectedDate.getMonth() &&
+      date.getFullYear() === selectedDate.getFullYear()
+    );
+  };
+
+  const days = getDaysInMonth(currentMonth);
+  const monthName = currentMonth.toLocaleDateString('en-CA', { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="max-w-md mx-auto">
+      {/* Month Navigation */}
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1))}
+          className="p-2 hover:bg-cream rounded"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <h3 className="font-display text-xl text-secondary">{monthName}</h3>
+        <button
+          onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1))}
+          className="p-2 hover:bg-cream rounded"
+        >
+          <ArrowRight size={20} />
+        </button>
+      </div>
+
+      {/* Day Headers */}
+      <div className="grid grid-cols-7 gap-1 mb-2">
+        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+          <div key={day} className="text-center text-xs font-medium text-charcoal/60 py-2">
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {/* Calendar Grid */}
+      <div className="grid grid-cols-7 gap-1">
+        {days.map((date, index) => (
+          <div key={index} className="aspect-square">
+            {date ? (
+              <button
+                onClick={() => !isDateDisabled(date) && onSelectDate(date)}
+                disabled={isDateDisabled(date)}
+                className={`w-full h-full rounded flex items-center justify-center text-sm transition-all ${
+                  isDateSelected(date)
+                    ? 'bg-primary text-white'
+                    : isDateDisabled(date)
+                    ? 'text-charcoal/20 cursor-not-allowed'
+                    : 'hover:bg-primary/10 text-charcoal'
+                }`}
+              >
+                {date.getDate()}
+              </button>
+            ) : (
+              <div />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
+'use client';
+
 import Link from 'next/link';
 import { Instagram, Mail, MapPin, Clock } from 'lucide-react';
-import { settings, dayNames, formatWorkingHours } from '@/data/settings';
+import { dayNames, formatWorkingHours } from '@/data/settings';
+import { useSettings } from '@/components/SettingsProvider';
 
 export function Footer() {
+  const settings = useSettings();
   const currentYear = new Date().getFullYear();
 
   return (
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Menu, X, Instagram } from 'lucide-react';
-import { settings } from '@/data/settings';
+import { useSettings } from '@/components/SettingsProvider';
 
 const navLinks = [
   { href: '/', label: 'Home' },
@@ -16,6 +16,7 @@ const navLinks = [
 ];
 
 export function Navigation() {
+  const settings = useSettings();
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const pathname = usePathname();
@@ -0,0 +1,51 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Settings } from '@/types';
+import { settings as currentSettings } from '@/data/settings';
+import { loadSettings } from '@/lib/settings';
+
+const SettingsContext = createContext<{
+  settings: Settings;
+  refresh: () => void;
+}>({
+  settings: currentSettings,
+  refresh: () => {},
+});
+
+/**
+ * Loads the saved business settings once per visit and re-renders the
+ * components that use them. Until they arrive, the defaults from
+ * src/data/settings.ts are shown.
+ */
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const [value, setValue] = useState<Settings>(() => ({ ...currentSettings }));
+
+  // Shows whatever is in the shared settings object now (e.g., just saved)
+  const refresh = useCallback(() => setValue({ ...currentSettings }), []);
+
+  useEffect(() => {
+    loadSettings().then(loaded => setValue({ ...loaded }));
+  }, []);
+
+  return (
+    <SettingsContext.Provider value={{ settings: value, refresh }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+/**
+ * Business settings for display, updated once the saved settings load.
+ */
+export function useSettings(): Settings {
+  return useContext(SettingsContext).settings;
+}
+
+/**
+ * Returns a function that re-renders the site with the current settings.
+ * Call it after saving new settings.
+ */
+export function useRefreshSettings(): () => void {
+  return useContext(SettingsContext).refresh;
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { TimeSlot } from '@/types';
+import { formatTime } from '@/lib/utils';
+
+/**
+ * Grid of appointment start times for a date.
+ * Unavailable slots are shown disabled with the reason (e.g., "Already booked").
+ * Used by the booking and reschedule flows.
+ */
+export function TimeSlotPicker({
+  slots,
+  selectedTime,
+  onSelectTime,
+}: {
+  slots: TimeSlot[];
+  selectedTime: string | null;
+  onSelectTime: (time: string) => void;
+}) {
+  if (slots.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-charcoal/60">
+          No available times for this date. Please select another date.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+      {slots.map((slot) => (
+        <button
+          key={slot.time}
+          onClick={() => slot.isAvailable && onSelectTime(slot.time)}
+          disabled={!slot.isAvailable}
+          className={`p-4 rounded border-2 transition-all ${
+            selectedTime === slot.time
+              ? 'border-primary bg-primary/5 text-primary'
+              : slot.isAvailable
+              ? 'border-cream-dark hover:border-primary/50 text-charcoal'
+              : 'border-cream-dark bg-cream-dark/50 text-charcoal/30 cursor-not-allowed'
+          }`}
+        >
+          <span className="font-medium">{formatTime(slot.time)}</span>
+          {!slot.isAvailable && slot.reason && (
+            <span className="block text-xs mt-1">{slot.reason}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Demo Bookings
+ *
+ * Sample data for demo mode. When Firebase isn't configured, the in-memory
+ * repository (src/lib/repository/memory.ts) starts with these bookings so
+ * the admin schedule and the booking calendar have something to show.
+ *
+ * Dates are relative to when the demo starts, so the bookings are always
+ * in the coming days.
+ */
+
+import { Booking, PaymentEntry } from '@/types';
+import { createDateTime, getBusinessToday } from '@/lib/availability';
+
+/**
+ * Bookings and their payments ledgers, keyed by booking ID.
+ */
+export interface DemoData {
+  bookings: Booking[];
+  payments: Record<string, PaymentEntry[]>;
+}
+
+/**
+ * Returns the instant a number of days from now at a fixed time in the
+ * business timezone, like a real booking.
+ */
+function daysFromNow(now: Date, days: number, hours: number, minutes = 0): Date {
+  const date = getBusinessToday(now);
+  date.setDate(date.getDate() + days);
+  return createDateTime(date, `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`);
+}
+
+/**
+ * Builds the demo data.
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Confirmed bookings over the next few days, each with its deposit in the ledger
+ */
+export function createDemoData(now: Date = new Date()): DemoData {
+  const bookings: Booking[] = [
+    {
+      id: 'demoBooking1',
+      serviceId: 'knotless-braids-medium',
+      serviceName: 'Medium Knotless Braids',
+      stylistId: 'vari',
+      startTime: daysFromNow(now, 1, 9),
+      endTime: daysFromNow(now, 1, 15),
+      client: {
+        firstName: 'Sarah',
+        lastName: 'Johnson',
+        email: 'sarah.j@email.com',
+        phone: '(416) 555-0123',
+        notes: 'First time client, referred by Instagram',
+      },
+      extras: [{ extraId: 'hair-provided', name: 'Hair Provided', price: 40 }],
+      subtotal: 220,
+      extrasTotal: 40,
+      depositAmount: 80,
+      totalPaid: 80,
+      balanceDue: 180,
+      paymentReference: 'BEL_demoBooking1_1',
+      paymentStatus: 'paid',
+      bookingStatus: 'confirmed',
+      createdAt: daysFromNow(now, -2, 10),
+      updatedAt: daysFromNow(now, -2, 10),
+      policyAcknowledged: true,
+    },
+    {
+      id: 'demoBooking2',
+      serviceId: 'butterfly-locs',
+      serviceName: 'Butterfly Locs',
+      stylistId: 'nneka',
+      startTime: daysFromNow(now, 2, 9),
+      endTime: daysFromNow(now, 2, 16),
+      client: {
+        firstName: 'Michelle',
+        lastName: 'Williams',
+        email: 'michelle.w@email.com',
+        phone: '(416) 555-0456',
+      },
+      extras: [
+        { extraId: 'home-service', name: 'Home Service', price: 50 },
+        { extraId: 'takedown', name: 'Takedown Service', price: 30 },
+      ],
+      subtotal: 260,
+      extrasTotal: 80,
+      depositAmount: 100,
+      totalPaid: 100,
+      balanceDue: 240,
+      paymentReference: 'BEL_demoBooking2_1',
+      paymentStatus: 'paid',
+      bookingStatus: 'confirmed',
+      createdAt: daysFromNow(now, -1, 14),
+      updatedAt: daysFromNow(now, -1, 14),
+      policyAcknowledged: true,
+    },
+    {
+      id: 'demoBooking3',
+      serviceId: 'silk-press',
+      serviceName: 'Silk Press',
+      stylistId: 'vari',
+      startTime: daysFromNow(now, 3, 13),
+      endTime: daysFromNow(now, 3, 15, 30),
+      client: {
+        firstName: 'Amara',
+        lastName: 'Okafor',
+        email: 'amara.o@email.com',
+        phone: '(416) 555-0789',
+        notes: 'Regular client',
+      },
+      extras: [],
+      subtotal: 90,
+      extrasTotal: 0,
+      depositAmount: 40,
+      totalPaid: 40,
+      balanceDue: 50,
+      paymentReference: 'BEL_demoBooking3_1',
+      paymentStatus: 'paid',
+      bookingStatus: 'confirmed',
+      createdAt: daysFromNow(now, -1, 18),
+      updatedAt: daysFromNow(now, -1, 18),
+      policyAcknowledged: true,
+    },
+  ];
+
+  // Each deposit was paid online and recorded under its reference
+  const payments = Object.fromEntries(
+    bookings.map(booking => [
+      booking.id,
+      [{
+        id: booking.paymentReference,
+        type: 'deposit' as const,
+        method: 'paystack' as const,
+        amount: booking.depositAmount,
+        reference: booking.paymentReference,
+        createdAt: booking.createdAt,
+      }],
+    ])
+  );
+
+  return { bookings, payments };
+}
@@ -14,12 +14,71 @@
  * 
  * This ensures all services complete within business hours without
  * requiring the stylist to work overtime.
+ * 
+ * CATALOG IN FIRESTORE:
+ * Admins edit the catalog at /admin/services. Once a service has been
+ * saved there, the catalog is read from Firestore (see src/lib/catalog.ts)
+ * and the services below are only the starting point. Until then, and in
+ * demo mode, these are the services on offer.
+ * 
+ * EXTRAS:
+ * Each service lists the global extras it offers (see globalExtras below),
+ * so a silk press isn't offered a takedown. A service can change an extra's
+ * price, and extras in the same group (e.g., synthetic or human hair) can't
+ * be chosen together.
+ * 
+ * BREAKS:
+ * Stylists' lunch breaks (see stylists.ts) block shorter services from
+ * running across them. Services of 4+ hours set `canSpanBreaks: true`,
+ * since the stylist works through lunch on long installs.
  */
 
-import { Service } from '@/types';
+import { Service, ServiceExtra, ServiceExtraOption } from '@/types';
+
+// ============================================================================
+// EXTRAS PER SERVICE
+// Which global extras each kind of service offers. Clients choose either
+// synthetic or human hair, so both are in the 'hair' group.
+// ============================================================================
+
+const braidExtras: ServiceExtraOption[] = [
+  { extraId: 'home-service' },
+  { extraId: 'hair-provided', group: 'hair' },
+  { extraId: 'human-hair-provided', group: 'hair' },
+  { extraId: 'takedown' },
+  { extraId: 'edge-control-kit' },
+];
+
+const locExtras: ServiceExtraOption[] = [
+  { extraId: 'home-service' },
+  { extraId: 'hair-provided', group: 'hair' },
+  { extraId: 'takedown' },
+  { extraId: 'edge-control-kit' },
+];
+
+const weaveExtras: ServiceExtraOption[] = [
+  { extraId: 'home-service' },
+  { extraId: 'human-hair-provided', group: 'hair' },
+  { extraId: 'takedown' },
+  { extraId: 'deep-condition' },
+];
+
+const naturalExtras: ServiceExtraOption[] = [
+  { extraId: 'home-service' },
+  { extraId: 'deep-condition' },
+  { extraId: 'edge-control-kit' },
+];
 
 /**
- * Main service catalog array.
+ * Copies a list of extras with some prices changed for one service.
+ * Example: withPrices(braidExtras, { 'hair-provided': 65 }) - small braids use more hair
+ */
+const withPrices = (options: ServiceExtraOption[], prices: Record<string, number>): ServiceExtraOption[] => {
+  return options.map(option => (option.extraId in prices ? { ...option, price: prices[option.extraId] } : option));
+};
+
+/**
+ * Built-in service catalog, used until the catalog is saved to Firestore.
  * Each service includes pricing in CAD, duration, and allowed start times.
  * 
  * To add a new service:
@@ -27,9 +86,11 @@ import { Service } from '@/types';
  * 2. Set the price and deposit (deposit is typically 35-40% of price)
  * 3. Estimate duration carefully - this affects available time slots
  * 4. Set allowedStartTimes based on duration (see rules above)
- * 5. Assign to appropriate category
+ * 5. Set canSpanBreaks for long services that can run through lunch
+ * 6. Choose the extras it offers (see EXTRAS PER SERVICE below)
+ * 7. Assign to appropriate category
  */
-export const services: Service[] = [
+export const defaultServices: Service[] = [
   // =========================================================================
   // BRAIDS CATEGORY
   // These services range from 3-8 hours depending on size/complexity
@@ -42,7 +103,8 @@ export const services: Service[] = [
     depositAmount: 125,      // ~36% deposit - non-refundable
     durationMinutes: 480,    // 8 hours - this is a full day service
     allowedStartTimes: ['09:00'], // LONG SERVICE: 9 AM start only
-    extras: [],
+    canSpanBreaks: true,
+    extras: withPrices(braidExtras, { 'hair-provided': 65, 'human-hair-provided': 180 }), // More hair for small braids
     category: 'braids',
     isActive: true,
   },
@@ -54,7 +116,8 @@ export const services: Service[] = [
     depositAmount: 100,
     durationMinutes: 360,    // 6 hours
     allowedStartTimes: ['09:00', '11:00'], // MEDIUM SERVICE: Two early options
-    extras: [],
+    canSpanBreaks: true,
+    extras: braidExtras,
     category: 'braids',
     isActive: true,
   },
@@ -66,7 +129,8 @@ export const services: Service[] = [
     depositAmount: 75,
     durationMinutes: 240,    // 4 hours
     allowedStartTimes: ['09:00', '11:00', '13:00'], // SHORTER SERVICE: More flexibility
-    extras: [],
+    canSpanBreaks: true,
+    extras: braidExtras,
     category: 'braids',
     isActive: true,
   },
@@ -78,7 +142,8 @@ export const services: Service[] = [
     depositAmount: 125,
     durationMinutes: 480,    // 8 hours
     allowedStartTimes: ['09:00'], // LONG SERVICE: 9 AM start only
-    extras: [],
+    canSpanBreaks: true,
+    extras: withPrices(braidExtras, { 'hair-provided': 65, 'human-hair-provided': 180 }), // More hair for small braids
     category: 'braids',
     isActive: true,
   },
@@ -90,7 +155,8 @@ export const services: Service[] = [
     depositAmount: 100,
     durationMinutes: 360,    // 6 hours
     allowedStartTimes: ['09:00', '11:00'],
-    extras: [],
+    canSpanBreaks: true,
+    extras: braidExtras,
     category: 'braids',
     isActive: true,
   },
@@ -102,7 +168,7 @@ export const services: Service[] = [
     depositAmount: 60,
     durationMinutes: 180,    // 3 hours - shorter service
     allowedStartTimes: ['09:00', '11:00', '13:00', '14:00'], // Many options available
-    extras: [],
+    extras: withPrices(braidExtras, { 'hair-provided': 25, 'human-hair-provided': 80 }), // Less hair needed
     category: 'braids',
     isActive: true,
   },
@@ -114,7 +180,8 @@ export const services: Service[] = [
     depositAmount: 75,
     durationMinutes: 240,    // 4 hours
     allowedStartTimes: ['09:00', '11:00', '13:00'],
-    extras: [],
+    canSpanBreaks: true,
+    extras: withPrices(braidExtras, { 'hair-provided': 25, 'human-hair-provided': 80 }), // Less hair needed
     category: 'braids',
     isActive: true,
   },
@@ -132,7 +199,8 @@ export const services: Service[] = [
     depositAmount: 150,
     durationMinutes: 540,    // 9 hours - longest service
     allowedStartTimes: ['09:00'], // VERY LONG: 9 AM only, will finish around 6 PM
-    extras: [],
+    canSpanBreaks: true,
+    extras: withPrices(locExtras, { 'hair-provided': 65 }), // More hair for small locs
     category: 'locs',
     isActive: true,
   },
@@ -144,7 +212,8 @@ export const services: Service[] = [
     depositAmount: 125,
     durationMinutes: 420,    // 7 hours
     allowedStartTimes: ['09:00'], // LONG SERVICE: 9 AM start only
-    extras: [],
+    canSpanBreaks: true,
+    extras: locExtras,
     category: 'locs',
     isActive: true,
   },
@@ -156,7 +225,8 @@ export const services: Service[] = [
     depositAmount: 125,
     durationMinutes: 420,    // 7 hours
     allowedStartTimes: ['09:00'], // LONG SERVICE: 9 AM start only
-    extras: [],
+    canSpanBreaks: true,
+    extras: locExtras,
     category: 'locs',
     isActive: true,
   },
@@ -168,7 +238,8 @@ export const services: Service[] = [
     depositAmount: 125,
     durationMinutes: 420,    // 7 hours
     allowedStartTimes: ['09:00'], // LONG SERVICE: 9 AM start only
-    extras: [],
+    canSpanBreaks: true,
+    extras: locExtras,
     category: 'locs',
     isActive: true,
   },
@@ -185,7 +256,8 @@ export const services: Service[] = [
     depositAmount: 90,
     durationMinutes: 300,    // 5 hours
     allowedStartTimes: ['09:00', '11:00'],
-    extras: [],
+    canSpanBreaks: true,
+    extras: withPrices(weaveExtras, { 'human-hair-provided': 200 }), // Full head of bundles
     category: 'weaves',
     isActive: true,
   },
@@ -197,7 +269,7 @@ export const services: Service[] = [
     depositAmount: 75,
     durationMinutes: 180,    // 3 hours
     allowedStartTimes: ['09:00', '11:00', '13:00', '14:00'],
-    extras: [],
+    extras: weaveExtras,
     category: 'weaves',
     isActive: true,
   },
@@ -209,7 +281,7 @@ export const services: Service[] = [
     depositAmount: 60,
     durationMinutes: 150,    // 2.5 hours
     allowedStartTimes: ['09:00', '11:00', '13:00', '14:00'],
-    extras: [],
+    extras: weaveExtras,
     category: 'weaves',
     isActive: true,
   },
@@ -226,7 +298,7 @@ export const services: Service[] = [
     depositAmount: 50,
     durationMinutes: 120,    // 2 hours
     allowedStartTimes: ['09:00', '11:00', '13:00', '14:00', '15:00'], // Short service, flexible
-    extras: [],
+    extras: naturalExtras,
     category: 'natural',
     isActive: true,
   },
@@ -238,7 +310,7 @@ export const services: Service[] = [
     depositAmount: 50,
     durationMinutes: 150,    // 2.5 hours
     allowedStartTimes: ['09:00', '11:00', '13:00', '14:00'],
-    extras: [],
+    extras: naturalExtras,
     category: 'natural',
     isActive: true,
   },
@@ -250,29 +322,50 @@ export const services: Service[] = [
     depositAmount: 35,
     durationMinutes: 90,     // 1.5 hours - shortest service
     allowedStartTimes: ['09:00', '11:00', '13:00', '14:00', '15:00', '16:00'], // Most flexible
-    extras: [],
+    extras: naturalExtras,
     category: 'natural',
     isActive: true,
   },
 ];
 
 /**
- * Global extras available for all services.
- * These are add-ons that clients can select during booking.
+ * The service catalog in use.
+ * 
+ * Starts as a copy of the built-in catalog and is replaced in place once
+ * the saved catalog is loaded (see loadServices in src/lib/catalog.ts),
+ * so every module that imports it sees the current services.
+ */
+export const services: Service[] = structuredClone(defaultServices);
+
+/**
+ * ID of the home service extra, whose standard price is settings.homeServiceFee.
+ */
+export const HOME_SERVICE_EXTRA_ID = 'home-service';
+
+/**
+ * All extras that can be added to a booking.
+ * These are add-ons that clients can select during booking, from the ones
+ * their service offers (Service.extras). Prices here are the defaults.
  * They are paid upfront with the deposit to avoid unpaid balances.
  */
-export const globalExtras = [
+export const globalExtras: ServiceExtra[] = [
   {
-    id: 'home-service',
+    id: HOME_SERVICE_EXTRA_ID,
     name: 'Home Service',
-    price: 75,
+    price: 75, // Replaced by settings.homeServiceFee (see getStandardExtraPrice in pricing.ts)
     description: 'Stylist travels to your location within the Greater Toronto Area',
   },
   {
     id: 'hair-provided',
     name: 'Hair Provided',
     price: 50,
-    description: 'Premium quality braiding/loc hair included',
+    description: 'Premium quality synthetic braiding/loc hair included',
+  },
+  {
+    id: 'human-hair-provided',
+    name: 'Human Hair Provided',
+    price: 150,
+    description: 'Human hair included, for a softer, more natural finish',
   },
   {
     id: 'takedown',
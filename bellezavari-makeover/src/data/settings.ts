@@ -9,23 +9,26 @@
  * - Contact details
  * - Booking policies
  * 
- * IMPORTANT: After modifying these settings, the changes will be reflected
- * across the entire site without code changes.
+ * IMPORTANT: The values below are the defaults. Admins can change most of
+ * them from the admin settings page (/admin/settings); the saved values are
+ * stored in Firestore (settings/business) and loaded by src/lib/settings.ts.
+ * These defaults are used when nothing has been saved, when the saved
+ * document is invalid, and in demo mode.
  */
 
 import { Settings } from '@/types';
 
 /**
- * Main settings object containing all business configuration.
+ * Default settings containing all business configuration.
  * 
  * To customize for a different business:
  * 1. Update businessName
  * 2. Set correct timezone (use IANA format)
- * 3. Adjust workingHours for each day
+ * 3. Adjust workingHours for each day (and each stylist's hours in stylists.ts)
  * 4. Update location details
  * 5. Set contact information
  */
-export const settings: Settings = {
+export const defaultSettings: Settings = {
   // Business identity
   businessName: 'Bellezavari',
   
@@ -34,13 +37,12 @@ export const settings: Settings = {
   timezone: 'America/Toronto',
   
   /**
-   * Working hours for each day of the week.
+   * Salon opening hours for each day of the week.
    * dayOfWeek: 0 = Sunday, 1 = Monday, ..., 6 = Saturday
    * 
-   * The availability engine uses these to determine:
-   * - Which days are available for booking
-   * - What time slots to show
-   * - Whether a service would end after closing
+   * These are shown on the site (footer, policies page) and limit bookings:
+   * each stylist works their own hours (data/stylists.ts), but only while
+   * the salon is open.
    */
   workingHours: [
     { dayOfWeek: 0, isOpen: false, openTime: '09:00', closeTime: '18:00' }, // Sunday - CLOSED
@@ -53,9 +55,10 @@ export const settings: Settings = {
   ],
   
   /**
-   * Specific dates when the business is closed.
-   * Add holidays, vacation days, etc. in 'YYYY-MM-DD' format.
-   * These dates will show as unavailable in the booking calendar.
+   * Specific dates when the whole salon is closed.
+   * Add holidays, closures, etc. in 'YYYY-MM-DD' format.
+   * These dates will show as unavailable in the booking calendar for every
+   * stylist. A single stylist's days off go in their offDays instead.
    */
   offDays: [
     // Examples:
@@ -71,6 +74,27 @@ export const settings: Settings = {
    */
   bufferMinutes: 30,
   
+  /**
+   * How long a pending (unpaid) booking holds its time slot, in minutes.
+   * If the client abandons Paystack checkout, the slot becomes bookable
+   * again once the hold expires.
+   */
+  slotHoldMinutes: 20,
+  
+  /**
+   * Minimum notice, in hours, for a client to reschedule their own booking.
+   * Matches the cancellation policy: inside this window the deposit is
+   * forfeited and the booking can't be moved.
+   */
+  rescheduleNoticeHours: 48,
+  
+  /**
+   * Number of no-shows after which a client must pay the full service price
+   * upfront (see the no-show rule in policies.cancellation).
+   * Admins can clear the requirement from the admin dashboard.
+   */
+  noShowsBeforeFullPayment: 1,
+  
   // Currency settings
   currency: 'CAD',       // ISO 4217 currency code
   currencySymbol: '$',   // Symbol for display
@@ -84,7 +108,7 @@ export const settings: Settings = {
   
   /**
    * Additional fee charged for home service visits.
-   * This is added to the booking total when "Home Service" extra is selected.
+   * This is the price of the "Home Service" extra, unless a service sets its own.
    */
   homeServiceFee: 75,
   
@@ -94,11 +118,25 @@ export const settings: Settings = {
   contactPhone: '',  // Add phone number if desired
 };
 
+/**
+ * The settings in use.
+ * 
+ * Starts as a copy of the defaults and is updated in place once the saved
+ * settings are loaded (see loadSettings in src/lib/settings.ts), so every
+ * module that imports it sees the current values.
+ */
+export const settings: Settings = structuredClone(defaultSettings);
+
 // ============================================================================
 // BOOKING POLICIES
 // These are displayed on the Policies page and during checkout
 // ============================================================================
 
+/**
+ * Minutes late after which an appointment may be treated as a no-show.
+ */
+const LATE_NO_SHOW_MINUTES = 15;
+
 /**
  * Booking policy content.
  * Uses markdown-style formatting (** for bold, • for bullets).
@@ -109,6 +147,7 @@ export const settings: Settings = {
 export const policies = {
   deposit: {
     title: 'Deposit Policy',
+    refundable: false,
     content: `A non-refundable deposit is required to secure your booking. The deposit amount varies by service and will be clearly displayed during booking.
 
 **Important:** Deposits are NON-REFUNDABLE under any circumstances. By paying the deposit, you acknowledge and accept this policy.
@@ -118,24 +157,29 @@ The remaining balance is due on the day of your appointment, before the service
   
   cancellation: {
     title: 'Cancellation Policy',
-    content: `We understand that plans change. However, please be aware:
+    // Built when read, so the notice matches the saved rescheduleNoticeHours
+    get content() {
+      const hours = settings.rescheduleNoticeHours;
+      return `We understand that plans change. However, please be aware:
 
-• **Cancellations made more than 48 hours before appointment:** You may reschedule to another date (subject to availability). Deposit transfers to new booking.
+• **Cancellations made more than ${hours} hours before appointment:** You may reschedule to another date (subject to availability). Deposit transfers to new booking.
 
-• **Cancellations within 48 hours:** Deposit is forfeited. No reschedule available.
+• **Cancellations within ${hours} hours:** Deposit is forfeited. No reschedule available.
 
 • **No-shows:** Deposit is forfeited and you may be required to pay a full deposit for future bookings.
 
-To cancel or reschedule, please contact us via email with at least 48 hours notice.`,
+To reschedule, use the link in your confirmation email (or the Reschedule page) at least ${hours} hours before your appointment. To cancel, please contact us via email with at least ${hours} hours notice.`;
+    },
   },
   
   lateness: {
     title: 'Late Arrival Policy',
+    noShowAfterMinutes: LATE_NO_SHOW_MINUTES,
     content: `Please arrive on time for your appointment. Your appointment time is reserved exclusively for you.
 
-• **Up to 15 minutes late:** Service may be shortened to fit remaining time slot.
+• **Up to ${LATE_NO_SHOW_MINUTES} minutes late:** Service may be shortened to fit remaining time slot.
 
-• **More than 15 minutes late:** Appointment may be cancelled and treated as a no-show. Deposit is forfeited.
+• **More than ${LATE_NO_SHOW_MINUTES} minutes late:** Appointment may be cancelled and treated as a no-show. Deposit is forfeited.
 
 • **More than 30 minutes late:** Appointment will be cancelled. Deposit is forfeited.
 
@@ -186,6 +230,22 @@ If you have any scalp conditions or allergies, please inform us before your appo
  */
 export const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
+/**
+ * Describes whether deposits are refunded, per the deposit policy.
+ */
+export const getDepositRefundTerm = (): string =>
+  policies.deposit.refundable ? 'refundable' : 'non-refundable';
+
+/**
+ * Short policy reminders for calendar invites and emails, built from the
+ * policies and the current settings so they match what the site enforces.
+ */
+export const getPolicyReminders = () => ({
+  deposit: `Deposits are ${getDepositRefundTerm()}.`,
+  notice: `Cancel or reschedule at least ${settings.rescheduleNoticeHours} hours before your appointment.`,
+  lateness: `Arriving more than ${policies.lateness.noShowAfterMinutes} minutes late may be treated as a no-show.`,
+});
+
 /**
  * Formats working hours for display.
  * Returns "Closed" for non-working days, or "HH:MM - HH:MM" for working days.
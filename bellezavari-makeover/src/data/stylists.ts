@@ -0,0 +1,132 @@
+/**
+ * Stylists
+ *
+ * This file defines the stylists who take bookings at Bellezavari.
+ *
+ * Each stylist has their own working hours, days off and the services they
+ * perform, listed by category (so services added from the admin catalog
+ * editor are covered) or individually.
+ * The availability engine checks each stylist's hours and bookings separately,
+ * so a time taken with one stylist can still be booked with another.
+ *
+ * Dates when the whole salon is closed go in settings.offDays instead;
+ * those apply to every stylist.
+ */
+
+import { Booking, Service, Stylist, TimeRange, WorkingHours } from '@/types';
+import { getServiceById } from './services';
+
+/**
+ * Half-hour lunch break. Services without canSpanBreaks can't run across it.
+ */
+const lunch: TimeRange[] = [{ start: '12:30', end: '13:00' }];
+
+/**
+ * Monday-Saturday, 9 AM - 7 PM (5 PM on Saturdays), with lunch. Closed Sundays.
+ */
+const fullWeek: WorkingHours[] = [
+  { dayOfWeek: 0, isOpen: false, openTime: '09:00', closeTime: '18:00' }, // Sunday - OFF
+  { dayOfWeek: 1, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Monday
+  { dayOfWeek: 2, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Tuesday
+  { dayOfWeek: 3, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Wednesday
+  { dayOfWeek: 4, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Thursday
+  { dayOfWeek: 5, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Friday
+  { dayOfWeek: 6, isOpen: true, openTime: '09:00', closeTime: '17:00', breaks: lunch }, // Saturday (finishes earlier)
+];
+
+/**
+ * Stylist for bookings made before stylists were added. Those bookings have
+ * no stylistId and were all with Vari.
+ */
+export const DEFAULT_STYLIST_ID = 'vari';
+
+/**
+ * Main stylist list.
+ *
+ * To add a stylist:
+ * 1. Choose a unique id (lowercase, hyphenated) - it is stored on their bookings
+ * 2. List the categories they perform, and any single services from other
+ *    categories in serviceIds
+ * 3. Set their working hours (all 7 days, like settings.workingHours), with any breaks
+ * 4. Add any days they are away to offDays ('YYYY-MM-DD')
+ *
+ * To stop a stylist taking new bookings, set isActive to false rather than
+ * removing them, so their existing bookings still show who they are with.
+ */
+export const stylists: Stylist[] = [
+  {
+    id: 'vari',
+    name: 'Vari',
+    title: 'Founder & Lead Stylist',
+    // Performs every service on the menu
+    serviceIds: [],
+    categories: ['braids', 'locs', 'weaves', 'natural', 'other'],
+    workingHours: fullWeek,
+    offDays: [],
+    isActive: true,
+  },
+  {
+    id: 'nneka',
+    name: 'Nneka',
+    title: 'Braider',
+    // Braids and locs only
+    serviceIds: [],
+    categories: ['braids', 'locs'],
+    workingHours: [
+      { dayOfWeek: 0, isOpen: false, openTime: '09:00', closeTime: '18:00' }, // Sunday - OFF
+      { dayOfWeek: 1, isOpen: false, openTime: '09:00', closeTime: '19:00' }, // Monday - OFF
+      { dayOfWeek: 2, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Tuesday
+      { dayOfWeek: 3, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Wednesday
+      { dayOfWeek: 4, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Thursday
+      { dayOfWeek: 5, isOpen: true, openTime: '09:00', closeTime: '19:00', breaks: lunch }, // Friday
+      { dayOfWeek: 6, isOpen: true, openTime: '09:00', closeTime: '17:00', breaks: lunch }, // Saturday (finishes earlier)
+    ],
+    offDays: [],
+    isActive: true,
+  },
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Retrieves a stylist by their unique ID.
+ * Returns undefined if no stylist found.
+ */
+export const getStylistById = (id: string): Stylist | undefined => {
+  return stylists.find(stylist => stylist.id === id);
+};
+
+/**
+ * Gets the stylist a booking is with.
+ * Bookings made before stylists were added count as DEFAULT_STYLIST_ID.
+ */
+export const getBookingStylistId = (booking: Pick<Booking, 'stylistId'>): string => {
+  return booking.stylistId || DEFAULT_STYLIST_ID;
+};
+
+/**
+ * Checks whether a stylist performs a service, either by its category
+ * or because it is listed in their serviceIds.
+ */
+export const performsService = (stylist: Stylist, service: Service): boolean => {
+  return stylist.serviceIds.includes(service.id) || !!stylist.categories?.includes(service.category);
+};
+
+/**
+ * Gets all stylists who are currently taking bookings.
+ */
+export const getActiveStylists = (): Stylist[] => {
+  return stylists.filter(stylist => stylist.isActive);
+};
+
+/**
+ * Gets the active stylists who perform a service.
+ * Used for the stylist choice on the booking page and for "any stylist" availability.
+ */
+export const getStylistsForService = (serviceId: string): Stylist[] => {
+  const service = getServiceById(serviceId);
+  if (!service) return [];
+  return getActiveStylists().filter(stylist => performsService(stylist, service));
+};
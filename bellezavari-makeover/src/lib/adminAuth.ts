@@ -0,0 +1,45 @@
+/**
+ * Admin Request Authentication
+ *
+ * Netlify Functions that act on behalf of an admin (e.g., starting a
+ * balance payment and emailing it to a client) only run when the request
+ * carries the admin key in the X-Admin-Key header.
+ *
+ * CONFIGURATION:
+ * - ADMIN_API_KEY: Long random string shared with the admins
+ *   (e.g., `openssl rand -hex 32`). When it isn't set, admin requests are
+ *   refused rather than left open.
+ *
+ * The admin pages ask for the key once per browser session.
+ *
+ * IMPORTANT: This is a SERVER-SIDE ONLY module (the key must stay secret).
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Request header that carries the admin key (Netlify lowercases header names).
+ */
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+/**
+ * Checks that a request carries the admin key.
+ *
+ * @param headers - The request headers
+ * @returns True if ADMIN_API_KEY is configured and the header matches it
+ */
+export function isAdminRequest(headers: Record<string, string | undefined>): boolean {
+  const secret = process.env.ADMIN_API_KEY;
+  if (!secret) {
+    console.warn('[Admin Auth] ADMIN_API_KEY not configured, refusing admin request');
+    return false;
+  }
+
+  const provided = headers[ADMIN_KEY_HEADER];
+  if (!provided) return false;
+
+  // Compare digests so the check takes the same time whatever the key length
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(provided).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
@@ -8,19 +8,38 @@
  *    to ensure completion within working hours. This is defined per-service in
  *    the allowedStartTimes array.
  * 
- * 2. WORKING HOURS: Respects business opening/closing times per day of week.
+ * 2. WORKING HOURS: Respects each stylist's working hours and days off,
+ *    within the salon's opening hours (settings.workingHours), and the dates
+ *    the whole salon is closed.
  * 
- * 3. CONFLICT PREVENTION: Prevents double-booking by checking existing bookings.
+ * 3. CONFLICT PREVENTION: Prevents double-booking by checking each stylist's
+ *    existing bookings and blocked-out times. Two stylists can be booked at
+ *    the same time.
  * 
  * 4. BUFFER TIME: Ensures adequate time between appointments for cleanup/prep.
  * 
+ * 5. BREAKS: Services can't run across a stylist's breaks (e.g., lunch)
+ *    unless the service is marked canSpanBreaks.
+ * 
+ * TIMEZONES: All slot times are wall-clock times in settings.timezone
+ * (America/Toronto), whatever the browser or server timezone is. Dates passed
+ * in are calendar dates (see toDateKey) and stored booking times are instants,
+ * compared through zonedTimeToUtc and getBusinessDateTime.
+ * 
  * IMPORTANT: This is where the "time enforcement for long styles" requirement is
  * implemented. The system will only show start times that are in the service's
  * allowedStartTimes array, preventing clients from booking long services late.
  */
 
-import { Service, TimeSlot, Booking } from '@/types';
+import { Block, Service, Stylist, TimeRange, TimeSlot, Booking, WorkingHours } from '@/types';
 import { settings } from '@/data/settings';
+import {
+  getActiveStylists,
+  getBookingStylistId,
+  getStylistById,
+  getStylistsForService,
+  performsService,
+} from '@/data/stylists';
 
 // ============================================================================
 // TIME CONVERSION UTILITIES
@@ -51,6 +70,144 @@ export function minutesToTime(minutes: number): string {
   return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Gets the wall-clock date and time of an instant in the business timezone.
+ * Stored bookings are absolute instants, so this gives the same answer on the
+ * server (UTC) as in a Toronto browser.
+ * 
+ * Example: 2024-03-15T13:00:00Z -> { date: "2024-03-15", time: "09:00" } (America/Toronto)
+ * 
+ * @param instant - The moment to convert
+ * @returns Date in YYYY-MM-DD format and time in HH:MM format
+ */
+export function getBusinessDateTime(instant: Date): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: settings.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+/**
+ * Gets the business timezone's offset from UTC at an instant, in minutes.
+ * Example: -240 for America/Toronto in summer (UTC-4), -300 in winter.
+ * 
+ * @param instant - The moment to check (offsets change with daylight saving)
+ * @returns Offset in minutes (negative west of UTC)
+ */
+export function getBusinessUtcOffsetMinutes(instant: Date): number {
+  const { date, time } = getBusinessDateTime(instant);
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+  const instantToMinute = Math.floor(instant.getTime() / 60000) * 60000;
+  return Math.round((wallClockAsUtc - instantToMinute) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in the business timezone to an instant.
+ * The inverse of getBusinessDateTime, and safe to call on a UTC server.
+ * 
+ * Example: ("2024-03-15", "09:00") -> 2024-03-15T13:00:00Z (America/Toronto)
+ * 
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in HH:MM format
+ * @returns The matching instant
+ */
+export function zonedTimeToUtc(date: string, time: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Guess with the offset at the wall-clock time, then correct once in case
+  // the guess landed on the other side of a daylight saving change
+  let instant = wallClockAsUtc - getBusinessUtcOffsetMinutes(new Date(wallClockAsUtc)) * 60000;
+  instant = wallClockAsUtc - getBusinessUtcOffsetMinutes(new Date(instant)) * 60000;
+  return new Date(instant);
+}
+
+// ============================================================================
+// CALENDAR DATES
+// A calendar date is a Date at local midnight of the day the client picked
+// (what the date picker produces). Only its year, month and day are used.
+// ============================================================================
+
+/**
+ * Converts a calendar date to YYYY-MM-DD.
+ * Uses the local date parts, which are the day that was picked in any timezone
+ * (toISOString would give the UTC date, a day off for evening picks in Toronto).
+ * 
+ * @param date - A calendar date
+ * @returns Date in YYYY-MM-DD format
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Converts YYYY-MM-DD to a calendar date (local midnight of that day).
+ * The inverse of toDateKey.
+ * 
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @returns The calendar date
+ */
+export function fromDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Gets the day of week of a YYYY-MM-DD date (0 = Sunday), independent of timezone.
+ */
+function getDayOfWeek(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Gets today's date in the business timezone as a calendar date.
+ * Late in the evening in Toronto this is still "today", even though it is
+ * already tomorrow in UTC.
+ * 
+ * @param now - Reference time (defaults to now)
+ * @returns The calendar date
+ */
+export function getBusinessToday(now: Date = new Date()): Date {
+  return fromDateKey(getBusinessDateTime(now).date);
+}
+
+/**
+ * Gets the first and last instants of a calendar date in the business timezone.
+ * Used to load the bookings for a day.
+ * 
+ * Example: March 15, 2024 -> 2024-03-15T04:00:00Z to 2024-03-16T03:59:59.999Z (America/Toronto)
+ * 
+ * @param date - A calendar date
+ * @returns Start and end of that business day
+ */
+export function getBusinessDayBounds(date: Date): { start: Date; end: Date } {
+  const nextDay = new Date(date);
+  nextDay.setDate(nextDay.getDate() + 1);
+
+  return {
+    start: zonedTimeToUtc(toDateKey(date), '00:00'),
+    end: new Date(zonedTimeToUtc(toDateKey(nextDay), '00:00').getTime() - 1),
+  };
+}
+
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
@@ -76,14 +233,90 @@ function wouldEndWithinWorkingHours(
 }
 
 /**
- * Checks if a proposed time slot conflicts with any existing bookings.
+ * Finds the first break a service would overlap, if any.
+ * A service that ends exactly when a break starts (or starts when it ends)
+ * doesn't overlap it.
+ * 
+ * @param startTime - Proposed start time in HH:MM format
+ * @param durationMinutes - Service duration in minutes
+ * @param breaks - The stylist's breaks that day
+ * @returns The overlapping break, or undefined if none
+ */
+function findOverlappingBreak(
+  startTime: string,
+  durationMinutes: number,
+  breaks: TimeRange[] = []
+): TimeRange | undefined {
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = startMinutes + durationMinutes;
+
+  return breaks.find(breakTime =>
+    startMinutes < timeToMinutes(breakTime.end) && endMinutes > timeToMinutes(breakTime.start)
+  );
+}
+
+/**
+ * Checks if a booking currently occupies its time slot.
+ * 
+ * - Confirmed bookings always block.
+ * - Pending bookings block only while their slot hold is active, so an
+ *   abandoned checkout releases the slot once the hold expires.
+ * - Pending bookings whose payment failed release the slot straight away.
+ *   The client can still retry while the hold lasts if nobody else took it.
+ * - Pending bookings that have been paid (e.g., flagged for review after a
+ *   late payment) keep blocking until an admin resolves them.
+ * 
+ * @param booking - The booking to check
+ * @param now - Reference time for hold expiry (defaults to now)
+ * @returns True if the booking blocks its time slot
+ */
+export function isBlockingBooking(booking: Booking, now: Date = new Date()): boolean {
+  if (booking.bookingStatus === 'confirmed') return true;
+  if (booking.bookingStatus !== 'pending') return false;
+  if (booking.paymentStatus === 'paid') return true;
+  if (booking.paymentStatus === 'failed') return false;
+  return !isHoldExpired(booking, now);
+}
+
+/**
+ * Checks if a pending booking's slot hold has expired.
+ * Bookings created before holds existed have no expiry and never expire.
+ * 
+ * @param booking - The booking to check
+ * @param now - Reference time (defaults to now)
+ * @returns True if the hold has expired
+ */
+export function isHoldExpired(booking: Booking, now: Date = new Date()): boolean {
+  if (!booking.holdExpiresAt) return false;
+  return new Date(booking.holdExpiresAt) <= now;
+}
+
+/**
+ * Checks if a booking can still be rescheduled by the client.
+ * The cancellation policy requires settings.rescheduleNoticeHours (48) notice;
+ * inside that window the deposit is forfeited and no reschedule is available.
+ * 
+ * @param booking - The booking to check
+ * @param now - Reference time (defaults to now)
+ * @returns True if the appointment starts far enough in the future
+ */
+export function hasRescheduleNotice(booking: Booking, now: Date = new Date()): boolean {
+  const noticeMs = settings.rescheduleNoticeHours * 60 * 60 * 1000;
+  return new Date(booking.startTime).getTime() - now.getTime() >= noticeMs;
+}
+
+/**
+ * Checks if a proposed time slot conflicts with any of a stylist's bookings.
  * Considers both the service duration and buffer time between appointments.
+ * Compares instants, so bookings are matched correctly whatever timezone
+ * they were made from.
  * 
- * @param date - The date being checked
- * @param startTime - Proposed start time
+ * @param date - The calendar date being checked
+ * @param startTime - Proposed start time (business timezone)
  * @param durationMinutes - Service duration
  * @param existingBookings - Array of all bookings to check against
  * @param bufferMinutes - Required buffer between appointments
+ * @param stylistId - Only this stylist's bookings can conflict
  * @returns True if there's a conflict (slot NOT available)
  */
 function hasBookingConflict(
@@ -91,77 +324,69 @@ function hasBookingConflict(
   startTime: string,
   durationMinutes: number,
   existingBookings: Booking[],
-  bufferMinutes: number
+  bufferMinutes: number,
+  stylistId: string
 ): boolean {
-  // Convert date to string for comparison (YYYY-MM-DD)
-  const dateStr = date.toISOString().split('T')[0];
-  
   // Calculate the full time range including buffer
-  const startMinutes = timeToMinutes(startTime);
-  const endMinutes = startMinutes + durationMinutes + bufferMinutes;
+  const start = createDateTime(date, startTime).getTime();
+  const end = start + (durationMinutes + bufferMinutes) * 60000;
 
-  // Filter to only confirmed/pending bookings on this date
-  const dayBookings = existingBookings.filter(booking => {
-    const bookingDate = new Date(booking.startTime).toISOString().split('T')[0];
-    return bookingDate === dateStr && 
-           (booking.bookingStatus === 'confirmed' || booking.bookingStatus === 'pending');
+  // Only this stylist's bookings that still hold their slot
+  // (bookings from before stylists were added count as the default stylist's)
+  return existingBookings.some(booking => {
+    if (getBookingStylistId(booking) !== stylistId || !isBlockingBooking(booking)) return false;
+
+    const bookingStart = new Date(booking.startTime).getTime();
+    const bookingEnd = new Date(booking.endTime).getTime() + bufferMinutes * 60000;
+
+    // The ranges overlap if each one starts before the other ends
+    return start < bookingEnd && end > bookingStart;
   });
+}
 
-  // Check each booking for overlap
-  for (const booking of dayBookings) {
-    const bookingStart = new Date(booking.startTime);
-    const bookingEnd = new Date(booking.endTime);
-    
-    // Convert booking times to minutes from midnight
-    const bookingStartMinutes = bookingStart.getHours() * 60 + bookingStart.getMinutes();
-    const bookingEndMinutes = bookingEnd.getHours() * 60 + bookingEnd.getMinutes() + bufferMinutes;
-
-    // Check for any overlap between the time ranges
-    // Overlap occurs if:
-    // - New booking starts during existing booking
-    // - New booking ends during existing booking
-    // - New booking completely contains existing booking
-    if (
-      (startMinutes >= bookingStartMinutes && startMinutes < bookingEndMinutes) ||
-      (endMinutes > bookingStartMinutes && endMinutes <= bookingEndMinutes) ||
-      (startMinutes <= bookingStartMinutes && endMinutes >= bookingEndMinutes)
-    ) {
-      return true; // Conflict found
-    }
-  }
+/**
+ * Checks if a proposed time slot overlaps a block for the stylist.
+ * Blocks without a stylistId apply to every stylist. No buffer is added:
+ * an appointment can end when a block starts, or start when it ends.
+ * 
+ * @param date - The calendar date being checked
+ * @param startTime - Proposed start time (business timezone)
+ * @param durationMinutes - Service duration
+ * @param blocks - Blocked-out times to check against
+ * @param stylistId - The stylist who would do the appointment
+ * @returns True if the slot overlaps a block (slot NOT available)
+ */
+function hasBlockConflict(
+  date: Date,
+  startTime: string,
+  durationMinutes: number,
+  blocks: Block[],
+  stylistId: string
+): boolean {
+  const start = createDateTime(date, startTime).getTime();
+  const end = start + durationMinutes * 60000;
 
-  return false; // No conflicts
+  return blocks.some(block =>
+    (!block.stylistId || block.stylistId === stylistId) &&
+    start < new Date(block.endTime).getTime() &&
+    end > new Date(block.startTime).getTime()
+  );
 }
 
 /**
- * Checks if a time slot has already passed (for same-day bookings).
- * Adds a 2-hour buffer to prevent last-minute bookings.
+ * Checks if a time slot has already passed, or is too soon to book.
+ * Requires 2 hours notice, measured in real time rather than the
+ * visitor's clock, so it works the same from any timezone.
  * 
- * @param date - The booking date
- * @param time - The proposed time slot
+ * @param date - The calendar date of the booking
+ * @param time - The proposed time slot (business timezone)
+ * @param now - Reference time (defaults to now)
  * @returns True if the time has passed or is too soon
  */
-function hasTimePassed(date: Date, time: string): boolean {
-  const now = new Date();
-  const [hours, minutes] = time.split(':').map(Number);
-  
-  // Only check for today's date
-  if (
-    date.getDate() !== now.getDate() ||
-    date.getMonth() !== now.getMonth() ||
-    date.getFullYear() !== now.getFullYear()
-  ) {
-    return false; // Future date, time hasn't passed
-  }
-
-  // Create datetime for the slot
-  const slotTime = new Date(date);
-  slotTime.setHours(hours, minutes, 0, 0);
-  
+function hasTimePassed(date: Date, time: string, now: Date = new Date()): boolean {
   // Require at least 2 hours notice for booking
-  const minBookingTime = new Date(now.getTime() + 2 * 60 * 60 * 1000);
-  
-  return slotTime < minBookingTime;
+  const minBookingTime = now.getTime() + 2 * 60 * 60 * 1000;
+  return createDateTime(date, time).getTime() < minBookingTime;
 }
 
 // ============================================================================
@@ -169,92 +394,253 @@ function hasTimePassed(date: Date, time: string): boolean {
 // ============================================================================
 
 /**
- * Gets all available time slots for a service on a specific date.
+ * Gets a stylist's working hours for a date, or null if they aren't working.
+ * A stylist isn't working if their day of week is off, the date is one of
+ * their offDays, or the whole salon is closed (settings.offDays or a closed
+ * day in settings.workingHours). Their hours are cut to the salon's opening
+ * hours, so hours edited from the admin settings apply to bookings too.
  * 
- * This is the main function called by the booking page to display
- * available appointment times. It enforces all booking rules:
+ * @param date - The calendar date to check
+ * @param stylist - The stylist to check
+ * @returns The WorkingHours entry for that day, or null if not working
+ */
+function getWorkingDay(date: Date, stylist: Stylist): WorkingHours | null {
+  const dateKey = toDateKey(date);
+
+  // Get the stylist's and the salon's hours for this day of week
+  const dayOfWeek = getDayOfWeek(dateKey);
+  const workingDay = stylist.workingHours.find(wh => wh.dayOfWeek === dayOfWeek);
+  const salonDay = settings.workingHours.find(wh => wh.dayOfWeek === dayOfWeek);
+
+  if (!workingDay || !workingDay.isOpen || !salonDay || !salonDay.isOpen) {
+    return null;
+  }
+
+  // Check if this specific date is an off day (holiday, vacation, etc.)
+  if (settings.offDays.includes(dateKey) || stylist.offDays.includes(dateKey)) {
+    return null;
+  }
+
+  // HH:MM times compare correctly as strings
+  const openTime = workingDay.openTime > salonDay.openTime ? workingDay.openTime : salonDay.openTime;
+  const closeTime = workingDay.closeTime < salonDay.closeTime ? workingDay.closeTime : salonDay.closeTime;
+  if (openTime >= closeTime) {
+    return null;
+  }
+
+  return { ...workingDay, openTime, closeTime };
+}
+
+/**
+ * Gets the stylists to check for a booking: the chosen one, or every
+ * active stylist who performs the service.
  * 
- * 1. Only shows times from the service's allowedStartTimes array
- * 2. Filters out times outside working hours
- * 3. Filters out times that would end after closing
- * 4. Filters out times that conflict with existing bookings
- * 5. Filters out times that have already passed (for today)
+ * @param service - The service being booked
+ * @param stylistId - Chosen stylist, or undefined for any stylist
+ * @returns The stylists who could take the appointment
+ */
+function getCandidateStylists(service: Service, stylistId?: string): Stylist[] {
+  if (!stylistId) {
+    return getStylistsForService(service.id);
+  }
+
+  const stylist = getStylistById(stylistId);
+  return stylist ? [stylist] : [];
+}
+
+/**
+ * Checks if no appointments can be booked on a date (every stylist is off,
+ * or it's a salon off day).
+ * Used by the date picker to disable days.
+ * 
+ * @param date - The calendar date to check
+ * @param stylists - Stylists to consider (defaults to all active stylists)
+ * @returns True if none of the stylists is working that day
+ */
+export function isClosedOn(date: Date, stylists: Stylist[] = getActiveStylists()): boolean {
+  return stylists.every(stylist => getWorkingDay(date, stylist) === null);
+}
+
+/**
+ * Checks a single start time for a service with one stylist.
  * 
  * @param service - The service being booked
- * @param date - The date to check availability for
+ * @param date - The date of the appointment
+ * @param startTime - Proposed start time in HH:MM format
  * @param existingBookings - All current bookings (for conflict checking)
- * @returns Array of TimeSlot objects with availability status
+ * @param stylist - The stylist who would do the appointment
+ * @param blocks - Blocked-out times (for conflict checking)
+ * @returns TimeSlot with availability status and reason if unavailable
  */
-export function getAvailableTimeSlots(
+function checkStylistTimeSlot(
   service: Service,
   date: Date,
-  existingBookings: Booking[] = []
-): TimeSlot[] {
-  // Get working hours for this day of week
-  const dayOfWeek = date.getDay();
-  const workingDay = settings.workingHours.find(wh => wh.dayOfWeek === dayOfWeek);
+  startTime: string,
+  existingBookings: Booking[],
+  stylist: Stylist,
+  blocks: Block[]
+): TimeSlot {
+  const slot: TimeSlot = {
+    time: startTime,
+    isAvailable: false,
+  };
 
-  // If business is closed this day, return empty array
-  if (!workingDay || !workingDay.isOpen) {
-    return [];
+  if (!stylist.isActive || !performsService(stylist, service)) {
+    slot.reason = `${stylist.name} does not offer this service`;
+    return slot;
   }
 
-  // Check if this specific date is an off day (holiday, vacation, etc.)
-  const dateStr = date.toISOString().split('T')[0];
-  if (settings.offDays.includes(dateStr)) {
-    return [];
+  const workingDay = getWorkingDay(date, stylist);
+  if (!workingDay) {
+    slot.reason = 'Closed on this date';
+    return slot;
   }
 
-  const timeSlots: TimeSlot[] = [];
-
-  // IMPORTANT: We only iterate through the service's allowedStartTimes
+  // CHECK 0: Is this one of the service's allowed start times?
   // This is how we enforce that long services can only start early
-  for (const startTime of service.allowedStartTimes) {
-    const slot: TimeSlot = {
-      time: startTime,
-      isAvailable: true,
-    };
-
-    // CHECK 1: Is this time after the business opens?
-    const openMinutes = timeToMinutes(workingDay.openTime);
-    const startMinutes = timeToMinutes(startTime);
-    
-    if (startMinutes < openMinutes) {
-      slot.isAvailable = false;
-      slot.reason = 'Before opening time';
-      timeSlots.push(slot);
-      continue;
-    }
+  if (!service.allowedStartTimes.includes(startTime)) {
+    slot.reason = 'Not an allowed start time for this service';
+    return slot;
+  }
 
-    // CHECK 2: Would the service end before closing?
-    if (!wouldEndWithinWorkingHours(startTime, service.durationMinutes, workingDay.closeTime)) {
-      slot.isAvailable = false;
-      slot.reason = 'Service would end after closing';
-      timeSlots.push(slot);
-      continue;
-    }
+  // CHECK 1: Is this time after the stylist starts work?
+  const openMinutes = timeToMinutes(workingDay.openTime);
+  const startMinutes = timeToMinutes(startTime);
+  
+  if (startMinutes < openMinutes) {
+    slot.reason = 'Before opening time';
+    return slot;
+  }
 
-    // CHECK 3: Has this time already passed (if booking for today)?
-    if (hasTimePassed(date, startTime)) {
-      slot.isAvailable = false;
-      slot.reason = 'Time has passed';
-      timeSlots.push(slot);
-      continue;
-    }
+  // CHECK 2: Would the service end before the stylist finishes?
+  if (!wouldEndWithinWorkingHours(startTime, service.durationMinutes, workingDay.closeTime)) {
+    slot.reason = 'Service would end after closing';
+    return slot;
+  }
 
-    // CHECK 4: Does this conflict with an existing booking?
-    if (hasBookingConflict(date, startTime, service.durationMinutes, existingBookings, settings.bufferMinutes)) {
-      slot.isAvailable = false;
-      slot.reason = 'Already booked';
-      timeSlots.push(slot);
-      continue;
+  // CHECK 3: Does the service run into one of the stylist's breaks?
+  // Long services marked canSpanBreaks may work through a break, but nothing starts during one
+  const breakTime = findOverlappingBreak(startTime, service.durationMinutes, workingDay.breaks);
+  if (breakTime) {
+    if (startMinutes >= timeToMinutes(breakTime.start)) {
+      slot.reason = 'During a break';
+      return slot;
+    }
+    if (!service.canSpanBreaks) {
+      slot.reason = 'Would run into a break';
+      return slot;
     }
+  }
+
+  // CHECK 4: Has this time already passed (if booking for today)?
+  if (hasTimePassed(date, startTime)) {
+    slot.reason = 'Time has passed';
+    return slot;
+  }
+
+  // CHECK 5: Does this conflict with one of the stylist's bookings?
+  if (hasBookingConflict(date, startTime, service.durationMinutes, existingBookings, settings.bufferMinutes, stylist.id)) {
+    slot.reason = 'Already booked';
+    return slot;
+  }
+
+  // CHECK 6: Has the time been blocked out for this stylist?
+  if (hasBlockConflict(date, startTime, service.durationMinutes, blocks, stylist.id)) {
+    slot.reason = 'Unavailable';
+    return slot;
+  }
 
-    // All checks passed - slot is available!
-    timeSlots.push(slot);
+  // All checks passed - slot is available!
+  slot.isAvailable = true;
+  slot.stylistId = stylist.id;
+  return slot;
+}
+
+/**
+ * Checks a single start time for a service on a specific date.
+ * 
+ * Applies every booking rule, including that the time must be one of the
+ * service's allowedStartTimes. This is what the server uses to re-validate
+ * a booking before taking payment, so the browser can't book a slot the
+ * booking page would never have offered.
+ * 
+ * With a stylistId only that stylist is checked. Without one ("any stylist")
+ * the slot is available if any stylist who performs the service is free, and
+ * slot.stylistId says who would take it.
+ * 
+ * @param service - The service being booked
+ * @param date - The date of the appointment
+ * @param startTime - Proposed start time in HH:MM format
+ * @param existingBookings - All current bookings (for conflict checking)
+ * @param stylistId - Chosen stylist, or undefined for any stylist
+ * @param blocks - Blocked-out times (for conflict checking)
+ * @returns TimeSlot with availability status and reason if unavailable
+ */
+export function checkTimeSlot(
+  service: Service,
+  date: Date,
+  startTime: string,
+  existingBookings: Booking[] = [],
+  stylistId?: string,
+  blocks: Block[] = []
+): TimeSlot {
+  const candidates = getCandidateStylists(service, stylistId);
+  if (candidates.length === 0) {
+    return { time: startTime, isAvailable: false, reason: 'No stylist offers this service' };
   }
 
-  return timeSlots;
+  const slots = candidates.map(stylist =>
+    checkStylistTimeSlot(service, date, startTime, existingBookings, stylist, blocks)
+  );
+
+  // Take the first free stylist; otherwise explain using a stylist who works that day
+  return (
+    slots.find(slot => slot.isAvailable) ||
+    slots.find(slot => slot.reason !== 'Closed on this date') ||
+    slots[0]
+  );
+}
+
+/**
+ * Gets all available time slots for a service on a specific date.
+ * 
+ * This is the main function called by the booking page to display
+ * available appointment times. It enforces all booking rules:
+ * 
+ * 1. Only shows times from the service's allowedStartTimes array
+ * 2. Filters out times outside the stylist's working hours
+ * 3. Filters out times that would end after the stylist finishes
+ * 4. Filters out times that run into a break (unless the service can span it)
+ * 5. Filters out times that conflict with the stylist's bookings or blocks
+ * 6. Filters out times that have already passed (for today)
+ * 
+ * For "any stylist" a time is available if at least one stylist who
+ * performs the service is free then.
+ * 
+ * @param service - The service being booked
+ * @param date - The date to check availability for
+ * @param existingBookings - All current bookings (for conflict checking)
+ * @param stylistId - Chosen stylist, or undefined for any stylist
+ * @param blocks - Blocked-out times (for conflict checking)
+ * @returns Array of TimeSlot objects with availability status
+ */
+export function getAvailableTimeSlots(
+  service: Service,
+  date: Date,
+  existingBookings: Booking[] = [],
+  stylistId?: string,
+  blocks: Block[] = []
+): TimeSlot[] {
+  // If none of the stylists works this day, return empty array
+  if (isClosedOn(date, getCandidateStylists(service, stylistId))) {
+    return [];
+  }
+
+  // IMPORTANT: We only iterate through the service's allowedStartTimes
+  // This is how we enforce that long services can only start early
+  return service.allowedStartTimes.map(startTime =>
+    checkTimeSlot(service, date, startTime, existingBookings, stylistId, blocks)
+  );
 }
 
 /**
@@ -264,14 +650,18 @@ export function getAvailableTimeSlots(
  * @param service - The service being booked
  * @param date - The date to check
  * @param existingBookings - Current bookings
+ * @param stylistId - Chosen stylist, or undefined for any stylist
+ * @param blocks - Blocked-out times
  * @returns True if at least one time slot is available
  */
 export function hasAvailableSlots(
   service: Service,
   date: Date,
-  existingBookings: Booking[] = []
+  existingBookings: Booking[] = [],
+  stylistId?: string,
+  blocks: Block[] = []
 ): boolean {
-  const slots = getAvailableTimeSlots(service, date, existingBookings);
+  const slots = getAvailableTimeSlots(service, date, existingBookings, stylistId, blocks);
   return slots.some(slot => slot.isAvailable);
 }
 
@@ -281,20 +671,24 @@ export function hasAvailableSlots(
  * 
  * @param service - The service being booked
  * @param existingBookings - Current bookings
- * @param startFrom - Date to start searching from (defaults to today)
+ * @param startFrom - Calendar date to start searching from (defaults to today in the business timezone)
+ * @param stylistId - Chosen stylist, or undefined for any stylist
+ * @param blocks - Blocked-out times
  * @returns Next available date, or null if none found within 90 days
  */
 export function getNextAvailableDate(
   service: Service,
   existingBookings: Booking[] = [],
-  startFrom: Date = new Date()
+  startFrom: Date = getBusinessToday(),
+  stylistId?: string,
+  blocks: Block[] = []
 ): Date | null {
   const maxDays = 90; // Don't look more than 90 days ahead
   const checkDate = new Date(startFrom);
   checkDate.setDate(checkDate.getDate() + 1); // Start from tomorrow
 
   for (let i = 0; i < maxDays; i++) {
-    if (hasAvailableSlots(service, checkDate, existingBookings)) {
+    if (hasAvailableSlots(service, checkDate, existingBookings, stylistId, blocks)) {
       return new Date(checkDate);
     }
     checkDate.setDate(checkDate.getDate() + 1);
@@ -317,16 +711,14 @@ export function calculateEndTime(startTime: string, durationMinutes: number): st
 }
 
 /**
- * Creates a full Date object from a date and time string.
- * Used when saving bookings to Firestore.
+ * Creates the instant for a time on a calendar date, in the business timezone.
+ * Used when saving bookings, so 9:00 AM is 9:00 AM in Toronto even when the
+ * client books from Lagos or Vancouver.
  * 
- * @param date - The date (time component will be overwritten)
- * @param time - Time in HH:MM format
- * @returns Date object with correct date and time
+ * @param date - The calendar date (time component is ignored)
+ * @param time - Time in HH:MM format (business timezone)
+ * @returns The appointment instant
  */
 export function createDateTime(date: Date, time: string): Date {
-  const [hours, minutes] = time.split(':').map(Number);
-  const dateTime = new Date(date);
-  dateTime.setHours(hours, minutes, 0, 0);
-  return dateTime;
+  return zonedTimeToUtc(toDateKey(date), time);
 }
@@ -0,0 +1,125 @@
+/**
+ * Online Balance Payments
+ *
+ * Starts Paystack checkouts for the remaining balance of confirmed bookings,
+ * under a balance reference (BEL_BAL_bookingId_timestamp). The webhook adds
+ * the payment to the booking's ledger, which keeps totalPaid and balanceDue
+ * correct.
+ *
+ * Used by:
+ * - create-payment, when an admin creates or emails a balance link
+ * - send-balance-reminders, which emails a link the day before the appointment
+ *
+ * IMPORTANT: This is a SERVER-SIDE ONLY module (it uses the Paystack secret key).
+ */
+
+import { Booking } from '@/types';
+import { getBusinessDateTime } from './availability';
+import { attachBalancePaymentReference } from './db';
+import {
+  BALANCE_REFERENCE_PREFIX,
+  PaystackInitResponse,
+  initializePaystackTransaction,
+  toPence,
+} from './paystack';
+
+/**
+ * Why a booking's balance can't be paid online.
+ */
+export type BalancePaymentErrorCode =
+  | 'BOOKING_NOT_CONFIRMED'
+  | 'NO_BALANCE_DUE'
+  | 'APPOINTMENT_PASSED'
+  | 'PAYMENT_INIT_FAILED';
+
+/**
+ * Result of starting a balance payment.
+ */
+export interface BalancePaymentResult {
+  success: boolean;
+  payment?: PaystackInitResponse['data']; // Checkout details from Paystack
+  code?: BalancePaymentErrorCode;
+  error?: string;
+}
+
+/**
+ * Checks whether a booking's balance can be paid online.
+ * Confirmed bookings with a balance left can be paid until the end of the
+ * appointment day (in the business timezone).
+ *
+ * @param booking - The booking to check
+ * @param now - Reference time (defaults to now)
+ * @returns null if the balance can be paid, otherwise why not
+ */
+export function getBalancePaymentBlocker(
+  booking: Booking,
+  now: Date = new Date()
+): { code: BalancePaymentErrorCode; error: string } | null {
+  if (booking.bookingStatus !== 'confirmed') {
+    return { code: 'BOOKING_NOT_CONFIRMED', error: 'Only confirmed bookings can be paid online' };
+  }
+  if (toPence(booking.balanceDue) <= 0) {
+    return { code: 'NO_BALANCE_DUE', error: 'This booking has no balance left to pay' };
+  }
+  if (getBusinessDateTime(booking.startTime).date < getBusinessDateTime(now).date) {
+    return { code: 'APPOINTMENT_PASSED', error: 'The appointment for this booking has already passed' };
+  }
+  return null;
+}
+
+/**
+ * Starts a Paystack checkout for a booking's current balance.
+ * The reference is stored on the booking so the success page and webhook
+ * can find it. Check getBalancePaymentBlocker first.
+ *
+ * @param booking - The confirmed booking to collect the balance for
+ * @returns Object with success status and the checkout details, or why it failed
+ */
+export async function startBalancePayment(booking: Booking): Promise<BalancePaymentResult> {
+  const amount = booking.balanceDue;
+  const reference = `${BALANCE_REFERENCE_PREFIX}${booking.id}_${Date.now()}`;
+  const clientName = `${booking.client.firstName} ${booking.client.lastName}`;
+
+  console.log('[Balance Payments] Initializing balance payment:', {
+    reference,
+    amount,
+    bookingId: booking.id,
+  });
+
+  const response = await initializePaystackTransaction({
+    email: booking.client.email,
+    amount,
+    reference,
+    metadata: {
+      bookingId: booking.id,
+      paymentType: 'balance',
+      serviceId: booking.serviceId,
+      serviceName: booking.serviceName,
+      clientName,
+      custom_fields: [
+        {
+          display_name: 'Service',
+          variable_name: 'service',
+          value: `${booking.serviceName} (balance)`,
+        },
+        {
+          display_name: 'Client',
+          variable_name: 'client',
+          value: clientName,
+        },
+      ],
+    },
+  });
+
+  if (!response.status) {
+    console.error('[Balance Payments] Paystack rejected balance request:', response.message);
+    return {
+      success: false,
+      code: 'PAYMENT_INIT_FAILED',
+      error: response.message || 'Payment initialization failed',
+    };
+  }
+
+  await attachBalancePaymentReference(booking.id, response.data.reference);
+  return { success: true, payment: response.data };
+}
@@ -0,0 +1,215 @@
+/**
+ * Calendar Export (.ics)
+ *
+ * This module builds iCalendar (RFC 5545) files for confirmed bookings, so
+ * clients can add their appointment to Google Calendar, Apple Calendar,
+ * Outlook, etc.
+ *
+ * USED BY:
+ * - The booking success page ("Add to Calendar" download)
+ * - The confirmation email (sent as an attachment by the Paystack webhook)
+ *
+ * TIMEZONES:
+ * Event times are written as wall-clock times with TZID set to
+ * settings.timezone, plus a VTIMEZONE describing the UTC offset on the
+ * appointment date. The appointment therefore shows at the right time no
+ * matter where the file is generated (UTC server or the client's browser).
+ *
+ * This module has no server-only dependencies and is safe to use in
+ * React components.
+ */
+
+import { Booking } from '@/types';
+import { getPolicyReminders, settings } from '@/data/settings';
+import { formatPrice } from './utils';
+import { getBusinessDateTime, getBusinessUtcOffsetMinutes } from './availability';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The booking fields needed to build a calendar event.
+ * A full Booking satisfies this, as does the public booking status.
+ */
+export type CalendarBooking = Pick<
+  Booking,
+  'paymentReference' | 'serviceName' | 'startTime' | 'endTime' | 'totalPaid' | 'balanceDue' | 'rescheduleCount'
+>;
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+/**
+ * Domain used in event UIDs. Fixed rather than taken from settings or the
+ * deploy URL, so the file from the email and the one downloaded in the
+ * browser describe the same event (and a rescheduled one replaces it).
+ */
+const UID_DOMAIN = 'bellezavari.com';
+
+/**
+ * Escapes text for use in an iCalendar property value.
+ * Backslashes, semicolons, commas and newlines must be escaped.
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets.
+ * Continuation lines start with a single space.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Formats an instant as a UTC date-time, e.g. "20240315T130000Z".
+ */
+function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Formats an instant as a wall-clock date-time in the business timezone,
+ * e.g. "20240315T090000".
+ */
+function formatBusinessLocal(instant: Date): string {
+  const { date, time } = getBusinessDateTime(instant);
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+/**
+ * Formats the business timezone's UTC offset at an instant, e.g. "-0400".
+ */
+function formatUtcOffset(instant: Date): string {
+  const offsetMinutes = getBusinessUtcOffsetMinutes(instant);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hh = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const mm = String(absolute % 60).padStart(2, '0');
+  return `${sign}${hh}${mm}`;
+}
+
+/**
+ * Builds the business address shown as the event location.
+ * Skips the city when the address already contains it.
+ */
+function formatLocation(): string {
+  const { address, city, postcode } = settings.location;
+  return [address, address.includes(city) ? '' : city, postcode].filter(Boolean).join(', ');
+}
+
+/**
+ * Builds the event description with payment details and policy reminders.
+ */
+function buildDescription(booking: CalendarBooking): string {
+  const reminders = getPolicyReminders();
+
+  return [
+    `${booking.serviceName} at ${settings.businessName}`,
+    `Booking reference: ${booking.paymentReference}`,
+    '',
+    `Deposit paid: ${formatPrice(booking.totalPaid)}`,
+    `Balance due at appointment: ${formatPrice(booking.balanceDue)}`,
+    '',
+    'Reminders:',
+    `- ${reminders.deposit}`,
+    `- ${reminders.notice}`,
+    `- ${reminders.lateness}`,
+    '- Please come with clean, detangled hair unless your service includes washing.',
+    '',
+    `Questions? Contact ${settings.contactEmail}`,
+  ].join('\n');
+}
+
+// ============================================================================
+// ICS GENERATION
+// ============================================================================
+
+/**
+ * Generates an .ics file for a booking.
+ *
+ * The event UID is derived from the payment reference, which stays the same
+ * when a booking is rescheduled. Together with SEQUENCE (the reschedule
+ * count), re-importing updates the existing event instead of adding one.
+ *
+ * @param booking - The booking to export
+ * @param now - Generation time, used for DTSTAMP (defaults to now)
+ * @returns iCalendar file contents (CRLF line endings)
+ */
+export function generateBookingIcs(booking: CalendarBooking, now: Date = new Date()): string {
+  const start = new Date(booking.startTime);
+  const end = new Date(booking.endTime);
+  const offset = formatUtcOffset(start);
+  const tzid = settings.timezone;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${settings.businessName}//Bookings//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    // Offset in effect on the appointment date, so clients that don't know
+    // the IANA zone name still place the event correctly
+    'BEGIN:VTIMEZONE',
+    `TZID:${tzid}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    'BEGIN:VEVENT',
+    `UID:${booking.paymentReference}@${UID_DOMAIN}`,
+    `SEQUENCE:${booking.rescheduleCount || 0}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;TZID=${tzid}:${formatBusinessLocal(start)}`,
+    `DTEND;TZID=${tzid}:${formatBusinessLocal(end)}`,
+    `SUMMARY:${escapeText(`${booking.serviceName} - ${settings.businessName}`)}`,
+    `LOCATION:${escapeText(formatLocation())}`,
+    `DESCRIPTION:${escapeText(buildDescription(booking))}`,
+    'STATUS:CONFIRMED',
+    'TRANSP:OPAQUE',
+    // Reminder the day before the appointment
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:-P1D',
+    `DESCRIPTION:${escapeText(`Tomorrow: ${booking.serviceName} at ${settings.businessName}`)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a booking's .ics download or attachment.
+ * Example: "bellezavari-appointment-2024-03-15.ics"
+ */
+export function getBookingIcsFilename(booking: CalendarBooking): string {
+  const { date } = getBusinessDateTime(new Date(booking.startTime));
+  return `${settings.businessName.toLowerCase()}-appointment-${date}.ics`;
+}
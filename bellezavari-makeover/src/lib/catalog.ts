@@ -0,0 +1,338 @@
+/**
+ * Service Catalog Management
+ *
+ * Loads the admin-edited service catalog from storage into the shared
+ * services array in src/data/services.ts, and saves changes made from the
+ * admin catalog editor.
+ *
+ * HOW IT WORKS:
+ * - Until a service is first saved from the admin, the built-in catalog
+ *   (defaultServices) is used. The first save copies the whole built-in
+ *   catalog to storage in one go, and from then on storage is the source
+ *   of truth. Built-in services added to the code later are shown from the
+ *   code and copied to storage on the next save
+ * - Every change is saved as a new version of the service, and every
+ *   version is kept (services/{id}/versions), so past prices and details
+ *   can always be looked up
+ * - Services are never removed: deleting one hides it from the site and
+ *   the editor, but existing bookings can still find it
+ * - Bookings keep their own copy of the service name and prices, plus the
+ *   catalog version they were priced from (Booking.serviceVersion), so
+ *   editing a service never changes existing bookings
+ *
+ * Netlify Functions that price or reschedule bookings call loadServices at
+ * the start of each request; the browser loads the catalog once per visit
+ * through CatalogProvider.
+ */
+
+import { Service, ServiceVersion } from '@/types';
+import { categoryNames, defaultServices, globalExtras, services } from '@/data/services';
+import { getStoredServices, saveServiceVersion, seedServices } from './db';
+
+/**
+ * How long a loaded catalog is reused before being read again.
+ */
+const CATALOG_CACHE_MS = 60 * 1000;
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;    // lowercase-hyphenated
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/; // HH:MM, 24-hour
+
+let loadedAt = 0;
+let pendingLoad: Promise<Service[]> | null = null;
+
+/**
+ * Result of validating or saving a service.
+ */
+export interface ServiceSaveResult {
+  success: boolean;
+  service?: Service;    // The tidied (and, once saved, versioned) service
+  errors: string[];     // Every problem found, for display in the editor
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validates a service from the catalog editor.
+ *
+ * On success, the returned service is tidied up: text is trimmed and
+ * start times are sorted with duplicates removed.
+ *
+ * @param values - The service to check
+ * @returns Object with success status and the tidied service, or every problem found
+ */
+export function validateService(values: Service): ServiceSaveResult {
+  const errors: string[] = [];
+
+  if (typeof values.id !== 'string' || !ID_PATTERN.test(values.id)) {
+    errors.push('ID must be lowercase letters, numbers and hyphens (e.g., knotless-braids-small)');
+  }
+  if (typeof values.name !== 'string' || !values.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (typeof values.description !== 'string' || !values.description.trim()) {
+    errors.push('Description is required');
+  }
+  if (!(categoryNames as Record<string, string>)[values.category]) {
+    errors.push('Choose a category');
+  }
+
+  if (typeof values.price !== 'number' || !(values.price > 0)) {
+    errors.push('Price must be more than 0');
+  }
+  if (typeof values.depositAmount !== 'number' || !(values.depositAmount > 0)) {
+    errors.push('Deposit must be more than 0');
+  } else if (values.depositAmount > values.price) {
+    errors.push('Deposit can\'t be more than the price');
+  }
+
+  if (typeof values.durationMinutes !== 'number' || !Number.isInteger(values.durationMinutes) ||
+      values.durationMinutes < 15) {
+    errors.push('Duration must be a whole number of minutes (at least 15)');
+  }
+
+  if (!Array.isArray(values.allowedStartTimes) || values.allowedStartTimes.length === 0) {
+    errors.push('Add at least one start time');
+  } else {
+    values.allowedStartTimes
+      .filter(time => !TIME_PATTERN.test(time))
+      .forEach(time => errors.push(`Start time "${time}" must be HH:MM`));
+  }
+
+  if (!Array.isArray(values.extras)) {
+    errors.push('Extras must be a list');
+  } else {
+    const seenExtras = new Set<string>();
+    values.extras.forEach(option => {
+      const extra = globalExtras.find(e => e.id === option.extraId);
+      if (!extra) {
+        errors.push(`Unknown extra "${option.extraId}"`);
+        return;
+      }
+      if (seenExtras.has(extra.id)) {
+        errors.push(`${extra.name} is listed more than once`);
+      }
+      seenExtras.add(extra.id);
+      if (option.price !== undefined && (typeof option.price !== 'number' || !(option.price >= 0))) {
+        errors.push(`${extra.name}: price must be 0 or more`);
+      }
+    });
+  }
+
+  const imageUrl = values.imageUrl?.trim();
+  if (imageUrl && !/^(https?:\/\/|\/)/.test(imageUrl)) {
+    errors.push('Image must be a URL (https://...) or a path on this site (/images/...)');
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    errors,
+    service: {
+      ...values,
+      name: values.name.trim(),
+      description: values.description.trim(),
+      allowedStartTimes: [...new Set(values.allowedStartTimes)].sort(),
+      imageUrl: imageUrl || undefined,
+      extras: values.extras.map(({ extraId, price, group }) => ({
+        extraId,
+        price,
+        group: group?.trim() || undefined,
+      })),
+    },
+  };
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Orders services by category (as listed in categoryNames), keeping
+ * built-in services in their original order and adding new ones by name.
+ */
+function sortCatalog(catalog: Service[]): Service[] {
+  const categoryOrder = Object.keys(categoryNames);
+  const builtInOrder = new Map(defaultServices.map((service, index) => [service.id, index]));
+
+  return [...catalog].sort((a, b) =>
+    categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) ||
+    (builtInOrder.get(a.id) ?? Infinity) - (builtInOrder.get(b.id) ?? Infinity) ||
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Replaces the contents of the shared services array.
+ */
+function applyCatalog(catalog: Service[]): void {
+  services.splice(0, services.length, ...structuredClone(sortCatalog(catalog)));
+  loadedAt = Date.now();
+}
+
+/**
+ * Gives a stored built-in service the extras it offers in the code when it
+ * has none. Services stored before extras could be chosen per service were
+ * saved with an empty list, so without this they'd offer no extras at all.
+ */
+function withDefaultExtras(service: Service): Service {
+  if (service.extras?.length) return service;
+  const builtIn = defaultServices.find(defaultService => defaultService.id === service.id);
+  return builtIn ? { ...service, extras: structuredClone(builtIn.extras) } : service;
+}
+
+/**
+ * Reads and applies the saved catalog.
+ * Keeps the current catalog if the read fails.
+ */
+async function readCatalog(): Promise<Service[]> {
+  try {
+    const stored = (await getStoredServices()).map(withDefaultExtras);
+    const unsaved = defaultServices.filter(builtIn => !stored.some(service => service.id === builtIn.id));
+
+    // A service that fails validation is kept for its bookings but can't be booked
+    applyCatalog([
+      ...stored.map(service => {
+        const result = validateService(service);
+        if (result.success) return service;
+        console.warn(`[Catalog] Service ${service.id} is invalid - hiding it:`, result.errors);
+        return { ...service, isActive: false };
+      }),
+      ...unsaved,
+    ]);
+  } catch (error) {
+    console.error('[Catalog] Failed to load services - keeping the current catalog:', error);
+    loadedAt = Date.now(); // Don't retry on every call while storage is down
+  }
+
+  return services;
+}
+
+/**
+ * Loads the saved service catalog into the shared services array.
+ *
+ * Safe to call often: a catalog loaded within the last minute is reused,
+ * and calls made while a load is in progress share it.
+ *
+ * @param options - Set force to read the saved catalog even if cached
+ * @returns The services now in use, including deleted ones
+ */
+export async function loadServices(options: { force?: boolean } = {}): Promise<Service[]> {
+  if (!options.force && loadedAt && Date.now() - loadedAt < CATALOG_CACHE_MS) {
+    return services;
+  }
+
+  if (!pendingLoad) {
+    pendingLoad = readCatalog().finally(() => {
+      pendingLoad = null;
+    });
+  }
+  return pendingLoad;
+}
+
+// ============================================================================
+// SAVING
+// ============================================================================
+
+/**
+ * Copies the built-in services that aren't stored yet to storage, all at
+ * once, as version 1 of each.
+ *
+ * @param stored - The services already stored
+ * @returns Every stored service once seeded
+ */
+async function seedCatalog(stored: Service[]): Promise<Service[]> {
+  const savedAt = new Date();
+  const versions: ServiceVersion[] = defaultServices
+    .filter(builtIn => !stored.some(service => service.id === builtIn.id))
+    .map(builtIn => ({
+      version: 1,
+      change: 'created',
+      service: { ...structuredClone(builtIn), version: 1, updatedAt: savedAt },
+      savedAt,
+    }));
+
+  if (versions.length === 0) {
+    return stored;
+  }
+
+  await seedServices(versions);
+  return getStoredServices();
+}
+
+/**
+ * Saves a service as a new version.
+ *
+ * @param values - The service as edited; version must be the one that was loaded
+ * @param change - Whether this creates, updates or deletes the service
+ * @returns Object with success status and the saved service, or why it couldn't be saved
+ */
+async function saveVersion(values: Service, change: ServiceVersion['change']): Promise<ServiceSaveResult> {
+  const result = validateService(values);
+  if (!result.success || !result.service) {
+    return result;
+  }
+
+  const stored = await seedCatalog(await getStoredServices());
+
+  const current = stored.find(service => service.id === values.id);
+  if (change === 'created' && current) {
+    return { success: false, errors: ['A service with this ID already exists'] };
+  }
+  if (change !== 'created' && !current) {
+    return { success: false, errors: ['This service no longer exists'] };
+  }
+
+  // Built-in services that were never edited count as version 1
+  const loadedVersion = change === 'created' ? 0 : values.version ?? 1;
+  if (current && (current.version ?? 1) !== loadedVersion) {
+    return {
+      success: false,
+      errors: ['This service was changed by someone else. Reload the page to see the latest version.'],
+    };
+  }
+
+  const savedAt = new Date();
+  const service: Service = { ...result.service, version: loadedVersion + 1, updatedAt: savedAt };
+  await saveServiceVersion({ version: service.version!, change, service, savedAt });
+
+  applyCatalog([...stored.filter(existing => existing.id !== service.id), service]);
+  return { success: true, service, errors: [] };
+}
+
+/**
+ * Adds a new service to the catalog.
+ * Called from the admin catalog editor.
+ *
+ * @param values - The new service
+ * @returns Object with success status and the saved service, or why it couldn't be saved
+ */
+export async function createService(values: Service): Promise<ServiceSaveResult> {
+  return saveVersion({ ...values, version: undefined, deletedAt: undefined }, 'created');
+}
+
+/**
+ * Saves changes to a service.
+ * Existing bookings keep the name and prices they were booked with.
+ *
+ * @param values - The edited service, with the version that was loaded
+ * @returns Object with success status and the saved service, or why it couldn't be saved
+ */
+export async function updateService(values: Service): Promise<ServiceSaveResult> {
+  return saveVersion(values, 'updated');
+}
+
+/**
+ * Removes a service from the site and the catalog editor.
+ * It stays in storage (with its versions) so existing bookings still find it.
+ *
+ * @param values - The service to delete, with the version that was loaded
+ * @returns Object with success status and the saved service, or why it couldn't be deleted
+ */
+export async function deleteService(values: Service): Promise<ServiceSaveResult> {
+  return saveVersion({ ...values, isActive: false, deletedAt: new Date() }, 'deleted');
+}
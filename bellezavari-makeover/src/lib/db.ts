@@ -1,77 +1,53 @@
 /**
- * Database Service (Firestore)
- * 
- * This module handles all database operations for the booking system.
- * It uses Firebase Firestore as the database, which is:
- * - NoSQL document database
- * - Real-time capable
- * - Serverless (no database management required)
- * - Free tier available (Spark plan)
- * 
- * COLLECTIONS:
- * - bookings: Stores all appointment bookings
- * - processedPayments: Tracks processed payment references for idempotency
- * 
- * IMPORTANT: Firestore security rules should be configured to:
- * - Allow clients to create bookings (pending status only)
- * - Only allow server (webhook) to confirm bookings
- * - Prevent direct modification of payment-related fields
- */
-
-import { 
-  collection, 
-  doc, 
-  addDoc, 
-  getDoc, 
-  getDocs, 
-  updateDoc, 
-  query, 
-  where, 
-  orderBy,
-  Timestamp,
-  DocumentData
-} from 'firebase/firestore';
-import { db, isFirebaseConfigured } from './firebase';
-import { Booking, ClientDetails, BookingExtras } from '@/types';
-
-function getDb() {
-  if (!isFirebaseConfigured || !db) {
-    throw new Error('Firebase is not configured. Please set up environment variables.');
-  }
-  return db;
-}
-
-// ============================================================================
-// COLLECTION NAMES
-// Using constants to avoid typos and enable easy renaming
-// ============================================================================
-
-const BOOKINGS_COLLECTION = 'bookings';
-const PROCESSED_PAYMENTS_COLLECTION = 'processedPayments';
-
-// ============================================================================
-// TYPE CONVERSION HELPERS
-// ============================================================================
-
-/**
- * Converts a Firestore document to a Booking type.
- * Firestore stores dates as Timestamps, which need conversion to JS Date objects.
+ * Database Service
+ * 
+ * This module handles all database operations for the booking system:
+ * slot holds, idempotent payment confirmation, the payments ledger,
+ * refunds and disputes, no-show flags, blocked-out times, the saved
+ * business settings and the service catalog.
+ * 
+ * Storage goes through a BookingRepository (see repository/):
+ * - Firestore when Firebase is configured
+ * - An in-memory store seeded with demo bookings when it isn't (demo mode),
+ *   so the site can be tried out without a database
  * 
- * @param doc - Firestore document data
- * @returns Properly typed Booking object
+ * Callers only use the functions below and never talk to the repository
+ * directly, so the rules here apply whichever storage is in use.
  */
-function docToBooking(doc: DocumentData): Booking {
-  const data = doc;
-  return {
-    ...data,
-    id: doc.id,
-    // Convert Firestore Timestamps to JavaScript Dates
-    startTime: data.startTime?.toDate() || new Date(data.startTime),
-    endTime: data.endTime?.toDate() || new Date(data.endTime),
-    createdAt: data.createdAt?.toDate() || new Date(data.createdAt),
-    updatedAt: data.updatedAt?.toDate() || new Date(data.updatedAt),
-  } as Booking;
-}
+
+import {
+  Block,
+  Booking,
+  BookingDispute,
+  ClientDetails,
+  BookingExtras,
+  ClientFlag,
+  ClientNoShowStatus,
+  PaymentEntry,
+  PaymentEvent,
+  Service,
+  ServiceVersion,
+  Settings,
+  TimeSlot,
+} from '@/types';
+import { settings } from '@/data/settings';
+import {
+  fromDateKey,
+  getBusinessDateTime,
+  getBusinessDayBounds,
+  getBusinessToday,
+  hasRescheduleNotice,
+  isBlockingBooking,
+  isHoldExpired,
+} from './availability';
+import { BookingTotals } from './pricing';
+import { ReconciliationReport } from './reconciliation';
+import { LedgerTotals, applyPaymentEntry, getBookingLedgerTotals } from './ledger';
+import { isBalanceReference, toPence } from './paystack';
+import { formatPrice, hashHoldSecret, normalizeEmail, normalizePhone } from './utils';
+import { BookingChanges, RepositoryTransaction, getBookingRepository } from './repository';
+
+export { isDemoMode } from './repository';
 
 // ============================================================================
 // BOOKING CRUD OPERATIONS
@@ -80,14 +56,22 @@ function docToBooking(doc: DocumentData): Booking {
 /**
  * Creates a new booking in the database.
  * Called after a client completes the booking form but BEFORE payment.
- * The booking is created with 'pending' status until payment is confirmed.
+ * The booking is created with 'pending' status until payment is confirmed,
+ * and holds its slot for settings.slotHoldMinutes while the client pays.
+ * Nothing counts as paid until the webhook records the deposit in the ledger.
+ * 
+ * The booking page gets back a hold secret; only its hash is stored, and
+ * the page uses it to release this hold if the client changes their details
+ * before paying (see releasePendingBooking).
  * 
  * @param bookingData - Booking information from the form
- * @returns The Firestore document ID of the created booking
+ * @returns The ID of the created booking and its hold secret
  */
 export async function createBooking(bookingData: {
   serviceId: string;
   serviceName: string;
+  serviceVersion?: number;
+  stylistId: string;
   startTime: Date;
   endTime: Date;
   client: ClientDetails;
@@ -95,85 +79,71 @@ export async function createBooking(bookingData: {
   subtotal: number;
   extrasTotal: number;
   depositAmount: number;
-  totalPaid: number;
-  balanceDue: number;
   policyAcknowledged: boolean;
-}): Promise<string> {
+}): Promise<{ bookingId: string; holdSecret: string }> {
+  const holdSecret = crypto.randomUUID();
   const booking = {
     ...bookingData,
-    // Convert JS Dates to Firestore Timestamps for proper storage
-    startTime: Timestamp.fromDate(bookingData.startTime),
-    endTime: Timestamp.fromDate(bookingData.endTime),
+    totalPaid: 0,
+    balanceDue: bookingData.subtotal + bookingData.extrasTotal,
     // Initialize payment/status fields
     paymentReference: '',
     paymentStatus: 'pending' as const,
     bookingStatus: 'pending' as const,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+    holdExpiresAt: new Date(Date.now() + settings.slotHoldMinutes * 60 * 1000),
+    holdSecretHash: await hashHoldSecret(holdSecret),
+    createdAt: new Date(),
+    updatedAt: new Date(),
   };
 
-  const docRef = await addDoc(collection(getDb(), BOOKINGS_COLLECTION), booking);
-  return docRef.id;
+  const bookingId = await getBookingRepository().createBooking(booking);
+  return { bookingId, holdSecret };
 }
 
 /**
- * Retrieves a booking by its Firestore document ID.
+ * Retrieves a booking by its ID.
  * 
- * @param bookingId - The Firestore document ID
+ * @param bookingId - The booking ID
  * @returns The Booking object, or null if not found
  */
 export async function getBookingById(bookingId: string): Promise<Booking | null> {
-  const docRef = doc(getDb(), BOOKINGS_COLLECTION, bookingId);
-  const docSnap = await getDoc(docRef);
-
-  if (!docSnap.exists()) {
-    return null;
-  }
-
-  return docToBooking({ id: docSnap.id, ...docSnap.data() });
+  return getBookingRepository().getBooking(bookingId);
 }
 
 /**
  * Finds a booking by its Paystack payment reference.
  * Used by the webhook to find which booking to confirm after payment.
+ * Balance references (BEL_BAL_...) are matched against the booking's
+ * latest online balance payment instead of the deposit reference.
  * 
  * @param reference - The Paystack transaction reference
  * @returns The Booking object, or null if not found
  */
 export async function getBookingByPaymentRef(reference: string): Promise<Booking | null> {
-  const q = query(
-    collection(getDb(), BOOKINGS_COLLECTION),
-    where('paymentReference', '==', reference)
+  const bookings = await getBookingRepository().findBookings(
+    isBalanceReference(reference) ? { balancePaymentReference: reference } : { paymentReference: reference }
   );
-  
-  const querySnapshot = await getDocs(q);
-  
-  if (querySnapshot.empty) {
-    return null;
-  }
-
-  const doc = querySnapshot.docs[0];
-  return docToBooking({ id: doc.id, ...doc.data() });
+  return bookings[0] || null;
 }
 
 /**
  * Updates a booking's status.
  * Called by the webhook after successful payment, or by admin for status changes.
  * 
- * @param bookingId - The Firestore document ID
+ * @param bookingId - The booking ID
  * @param status - New booking status
  * @param paymentReference - Optional Paystack reference (set on payment confirmation)
+ * @param transaction - Optional transaction to write through
  */
 export async function updateBookingStatus(
   bookingId: string,
   status: Booking['bookingStatus'],
-  paymentReference?: string
+  paymentReference?: string,
+  transaction?: RepositoryTransaction
 ): Promise<void> {
-  const docRef = doc(getDb(), BOOKINGS_COLLECTION, bookingId);
-  
-  const updateData: Record<string, unknown> = {
+  const updateData: BookingChanges = {
     bookingStatus: status,
-    updatedAt: Timestamp.now(),
+    updatedAt: new Date(),
   };
 
   // If confirming payment, also update payment fields
@@ -182,7 +152,233 @@ export async function updateBookingStatus(
     updateData.paymentStatus = 'paid';
   }
 
-  await updateDoc(docRef, updateData);
+  if (transaction) {
+    transaction.updateBooking(bookingId, updateData);
+    return;
+  }
+
+  await getBookingRepository().updateBooking(bookingId, updateData);
+}
+
+/**
+ * Stores the Paystack reference on a pending booking when checkout starts.
+ * This lets the webhook and success page find the booking by reference
+ * even if the metadata is missing. Payment status is reset to 'pending'
+ * so a retry after a failed payment holds the slot again.
+ * 
+ * @param bookingId - The booking ID
+ * @param paymentReference - The Paystack transaction reference
+ */
+export async function attachPaymentReference(
+  bookingId: string,
+  paymentReference: string
+): Promise<void> {
+  await getBookingRepository().updateBooking(bookingId, {
+    paymentReference,
+    paymentStatus: 'pending',
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Records a failed payment attempt on a pending booking.
+ * 
+ * The booking is marked paymentStatus 'failed', which releases its slot.
+ * While the hold lasts the client can retry through retryPaymentUrl;
+ * if the hold has already expired the booking is cancelled outright.
+ * 
+ * Stale events are ignored: if the booking was paid, is no longer pending,
+ * or has moved on to a newer payment reference, nothing changes.
+ * 
+ * @param bookingId - The booking ID
+ * @param reference - The Paystack reference of the failed attempt
+ * @param gatewayResponse - Failure reason reported by Paystack
+ * @param retryPaymentUrl - Signed link the client can use to retry payment, if any
+ * @returns The updated booking, or null if the event was ignored
+ */
+export async function markPaymentFailed(
+  bookingId: string,
+  reference: string,
+  gatewayResponse: string,
+  retryPaymentUrl?: string
+): Promise<Booking | null> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    if (
+      booking.bookingStatus !== 'pending' ||
+      booking.paymentStatus === 'paid' ||
+      (booking.paymentReference && booking.paymentReference !== reference)
+    ) {
+      return null;
+    }
+
+    const updateData = {
+      paymentStatus: 'failed' as const,
+      paymentFailureReason: gatewayResponse,
+      retryPaymentUrl,
+      // Nothing left to retry for once the hold is gone
+      bookingStatus: isHoldExpired(booking) ? 'cancelled' as const : booking.bookingStatus,
+    };
+
+    const updatedAt = new Date();
+    transaction.updateBooking(bookingId, { ...updateData, updatedAt });
+    return { ...booking, ...updateData, updatedAt };
+  });
+}
+
+/**
+ * Stores the reference of an online balance payment when its checkout starts.
+ * Only the latest balance reference is kept; the deposit reference is untouched.
+ * 
+ * @param bookingId - The booking ID
+ * @param reference - The Paystack balance reference (BEL_BAL_...)
+ */
+export async function attachBalancePaymentReference(
+  bookingId: string,
+  reference: string
+): Promise<void> {
+  await getBookingRepository().updateBooking(bookingId, {
+    balancePaymentReference: reference,
+    balancePaymentStatus: 'pending',
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Records that the balance reminder email was sent, so it's only sent once.
+ * 
+ * @param bookingId - The booking ID
+ */
+export async function markBalanceReminderSent(bookingId: string): Promise<void> {
+  await getBookingRepository().updateBooking(bookingId, {
+    balanceReminderSentAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Records a failed online balance payment.
+ * The booking itself is unaffected - the balance can still be paid in person
+ * or with a new link. Ignored if a newer balance payment has been started.
+ * 
+ * @param bookingId - The booking ID
+ * @param reference - The Paystack reference of the failed attempt
+ * @param gatewayResponse - Failure reason reported by Paystack
+ * @returns True if the failure was recorded
+ */
+export async function markBalancePaymentFailed(
+  bookingId: string,
+  reference: string,
+  gatewayResponse: string
+): Promise<boolean> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    if (booking.balancePaymentReference !== reference || booking.balancePaymentStatus === 'paid') {
+      return false;
+    }
+
+    transaction.updateBooking(bookingId, {
+      balancePaymentStatus: 'failed',
+      paymentFailureReason: gatewayResponse,
+      updatedAt: new Date(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Overwrites a booking's price fields with server-calculated totals.
+ * Called by the create-payment function so the stored amounts never
+ * depend on what the browser sent.
+ * 
+ * The service name and catalog version are saved again too, so the booking
+ * keeps the details it was charged for even if the service changes later.
+ * 
+ * @param bookingId - The booking ID
+ * @param totals - Authoritative totals from calculateBookingTotals
+ * @param service - The service the totals were calculated from
+ */
+export async function updateBookingTotals(
+  bookingId: string,
+  totals: BookingTotals,
+  service: Service
+): Promise<void> {
+  await getBookingRepository().updateBooking(bookingId, {
+    serviceName: service.name,
+    serviceVersion: service.version,
+    extras: totals.extras,
+    subtotal: totals.subtotal,
+    extrasTotal: totals.extrasTotal,
+    depositAmount: totals.depositAmount,
+    // Only called before any payment, so the ledger is still empty
+    totalPaid: 0,
+    balanceDue: totals.totalPrice,
+    fullPaymentRequired: totals.fullPaymentRequired,
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Result of rescheduleBooking.
+ */
+export type RescheduleOutcome =
+  | { status: 'rescheduled'; booking: Booking }
+  | { status: 'not-reschedulable' }                 // No longer confirmed, or inside the notice period
+  | { status: 'slot-unavailable'; reason?: string };
+
+/**
+ * Moves a confirmed booking to a new time slot.
+ * The deposit, payment reference and totals are carried over unchanged.
+ * 
+ * The notice period and the new slot are checked inside the transaction,
+ * with the new day's schedule locked, so a request that started just
+ * before the cut-off can't slip through and two clients can't both take
+ * the same slot.
+ * 
+ * @param bookingId - The booking's document ID
+ * @param startTime - New appointment start
+ * @param endTime - New appointment end
+ * @param checkSlot - Checks the new slot against that day's other bookings and blocks
+ * @returns The updated booking, or why it couldn't be moved
+ */
+export async function rescheduleBooking(
+  bookingId: string,
+  startTime: Date,
+  endTime: Date,
+  checkSlot: (otherBookings: Booking[], blocks: Block[]) => TimeSlot | undefined
+): Promise<RescheduleOutcome> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    if (booking.bookingStatus !== 'confirmed' || !hasRescheduleNotice(booking)) {
+      return { status: 'not-reschedulable' };
+    }
+
+    const { bookings, blocks } = await getLockedDaySchedule(transaction, startTime);
+    const slot = checkSlot(bookings.filter(other => other.id !== bookingId), blocks);
+    if (!slot || !slot.isAvailable) {
+      return { status: 'slot-unavailable', reason: slot?.reason };
+    }
+
+    const changes = {
+      startTime,
+      endTime,
+      previousStartTime: booking.startTime,
+      rescheduleCount: (booking.rescheduleCount || 0) + 1,
+      updatedAt: new Date(),
+    };
+    transaction.updateBooking(bookingId, changes);
+
+    return { status: 'rescheduled', booking: { ...booking, ...changes } };
+  });
 }
 
 // ============================================================================
@@ -192,7 +388,8 @@ export async function updateBookingStatus(
 
 /**
  * Gets all bookings within a date range.
- * Used by the admin schedule view.
+ * Used by the admin schedule view. Pending bookings whose slot hold
+ * has expired are excluded.
  * 
  * @param startDate - Start of range (inclusive)
  * @param endDate - End of range (inclusive)
@@ -202,54 +399,241 @@ export async function getBookingsForDateRange(
   startDate: Date,
   endDate: Date
 ): Promise<Booking[]> {
-  const q = query(
-    collection(getDb(), BOOKINGS_COLLECTION),
-    where('startTime', '>=', Timestamp.fromDate(startDate)),
-    where('startTime', '<=', Timestamp.fromDate(endDate)),
-    where('bookingStatus', 'in', ['confirmed', 'pending']),
-    orderBy('startTime', 'asc')
-  );
+  return findBlockingBookings(getBookingRepository(), startDate, endDate);
+}
+
+/**
+ * Where schedule reads come from: the repository, or a transaction
+ * that has locked the day (see getLockedDaySchedule).
+ */
+type ScheduleSource = Pick<RepositoryTransaction, 'findBookings' | 'findBlocks'>;
+
+/**
+ * Finds the bookings that hold their slot within a date range.
+ */
+async function findBlockingBookings(source: ScheduleSource, startDate: Date, endDate: Date): Promise<Booking[]> {
+  const bookings = await source.findBookings({
+    startTimeFrom: startDate,
+    startTimeTo: endDate,
+    bookingStatuses: ['confirmed', 'pending'],
+    orderBy: 'startTime',
+  });
+  return bookings.filter(booking => isBlockingBooking(booking)); // Drop pending bookings that no longer hold their slot
+}
+
+/**
+ * Locks a business day's schedule in a transaction and reads its bookings
+ * and blocks, so a slot checked against them can't be taken before the
+ * transaction commits.
+ * 
+ * @param transaction - The transaction, before any of its writes
+ * @param time - Any time on the business day
+ * @returns The day's bookings that hold their slot, and its blocks
+ */
+async function getLockedDaySchedule(
+  transaction: RepositoryTransaction,
+  time: Date
+): Promise<{ bookings: Booking[]; blocks: Block[] }> {
+  const { date } = getBusinessDateTime(time);
+  await transaction.lockSchedule(date);
+
+  const { start, end } = getBusinessDayBounds(fromDateKey(date));
+  const [bookings, blocks] = await Promise.all([
+    findBlockingBookings(transaction, start, end),
+    findBlocksInRange(transaction, start, end),
+  ]);
+  return { bookings, blocks };
+}
+
+/**
+ * Re-checks a pending booking's slot and releases the booking if the slot
+ * has been taken. The check and the cancellation run in one transaction
+ * with the day's schedule locked, and a booking that was paid for in the
+ * meantime is never cancelled.
+ * 
+ * @param bookingId - The pending booking
+ * @param checkSlot - Checks the slot against the day's other bookings and blocks
+ * @returns The slot check (the booking was released if it isn't available)
+ * @throws If the booking doesn't exist
+ */
+export async function releaseBookingIfSlotTaken(
+  bookingId: string,
+  checkSlot: (otherBookings: Booking[], blocks: Block[]) => TimeSlot
+): Promise<TimeSlot> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+
+    const { bookings, blocks } = await getLockedDaySchedule(transaction, booking.startTime);
+    const slot = checkSlot(bookings.filter(other => other.id !== bookingId), blocks);
 
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(doc => docToBooking({ id: doc.id, ...doc.data() }));
+    if (!slot.isAvailable && booking.bookingStatus === 'pending' && booking.paymentStatus !== 'paid') {
+      transaction.updateBooking(bookingId, {
+        bookingStatus: 'cancelled',
+        cancellationReason: 'Slot no longer available',
+        updatedAt: new Date(),
+      });
+    }
+    return slot;
+  });
 }
 
 /**
  * Gets all confirmed/pending bookings from today onwards.
  * Used by the availability engine to check for conflicts.
+ * Pending bookings whose slot hold has expired are excluded.
  * 
  * @returns Array of future bookings
  */
 export async function getConfirmedBookings(): Promise<Booking[]> {
-  const now = new Date();
-  now.setHours(0, 0, 0, 0); // Start of today
-
-  const q = query(
-    collection(getDb(), BOOKINGS_COLLECTION),
-    where('startTime', '>=', Timestamp.fromDate(now)),
-    where('bookingStatus', 'in', ['confirmed', 'pending']),
-    orderBy('startTime', 'asc')
-  );
+  const { start: startOfToday } = getBusinessDayBounds(getBusinessToday());
 
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(doc => docToBooking({ id: doc.id, ...doc.data() }));
+  const bookings = await getBookingRepository().findBookings({
+    startTimeFrom: startOfToday,
+    bookingStatuses: ['confirmed', 'pending'],
+    orderBy: 'startTime',
+  });
+  return bookings.filter(booking => isBlockingBooking(booking)); // Drop pending bookings that no longer hold their slot
+}
+
+/**
+ * Payment statuses of a pending booking that was never paid for: checkout
+ * not finished, or the payment failed and was never retried.
+ */
+const ABANDONED_PAYMENT_STATUSES: Booking['paymentStatus'][] = ['pending', 'failed'];
+
+/**
+ * Gets unpaid pending bookings created before a cutoff time.
+ * Used by the sweeper to find abandoned checkouts.
+ * 
+ * @param createdBefore - Only bookings created before this time are returned
+ * @returns Array of abandoned bookings, oldest first
+ */
+export async function getAbandonedBookings(createdBefore: Date): Promise<Booking[]> {
+  return getBookingRepository().findBookings({
+    bookingStatuses: ['pending'],
+    paymentStatuses: ABANDONED_PAYMENT_STATUSES,
+    createdBefore,
+    orderBy: 'createdAt',
+  });
+}
+
+/**
+ * Gets all bookings created within a period, whatever their status.
+ * Used by the payment reconciliation job.
+ * 
+ * @param from - Start of the period
+ * @param to - End of the period
+ * @returns Bookings created in the period, oldest first
+ */
+export async function getBookingsCreatedBetween(from: Date, to: Date): Promise<Booking[]> {
+  return getBookingRepository().findBookings({
+    createdFrom: from,
+    createdTo: to,
+    orderBy: 'createdAt',
+  });
 }
 
 /**
  * Gets all bookings for a specific date.
  * Convenience wrapper around getBookingsForDateRange.
  * 
- * @param date - The date to query
+ * @param date - The calendar date to query (a business day in settings.timezone)
  * @returns Array of bookings on that date
  */
 export async function getBookingsForDate(date: Date): Promise<Booking[]> {
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-  
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+  const { start, end } = getBusinessDayBounds(date);
+  return getBookingsForDateRange(start, end);
+}
+
+// ============================================================================
+// PAYMENTS LEDGER
+// Every payment is an entry in the booking's ledger; the booking's totals
+// are updated from each entry in the same transaction (see ledger.ts)
+// ============================================================================
+
+/**
+ * A payment to add to a booking's ledger.
+ */
+export type PaymentEntryInput = Omit<PaymentEntry, 'id' | 'createdAt'>;
+
+/**
+ * Writes a ledger entry through a transaction and returns the booking totals
+ * that result from it. The caller must write these fields in the same
+ * transaction so the entry and the totals are always saved together.
+ * 
+ * Online payments use their Paystack reference or event ID as the entry ID;
+ * the caller's idempotency check makes sure each one is only applied once.
+ * 
+ * @param transaction - The transaction to write through
+ * @param booking - The booking as read in this transaction
+ * @param entry - The payment to record
+ * @param entryId - Optional document ID (auto-generated if omitted)
+ * @returns Updated totals to write to the booking
+ */
+function addPaymentEntry(
+  transaction: RepositoryTransaction,
+  booking: Booking,
+  entry: PaymentEntryInput,
+  entryId?: string
+): LedgerTotals {
+  transaction.addPaymentEntry(booking.id, { ...entry, createdAt: new Date() }, entryId);
+
+  return applyPaymentEntry(getBookingLedgerTotals(booking), entry, booking.subtotal + booking.extrasTotal);
+}
+
+/**
+ * Gets all ledger entries for a booking, oldest first.
+ * 
+ * @param bookingId - The booking ID
+ * @returns The booking's payments
+ */
+export async function getPaymentEntries(bookingId: string): Promise<PaymentEntry[]> {
+  return getBookingRepository().getPaymentEntries(bookingId);
+}
+
+/**
+ * Finds the booking an online payment was recorded against, by its Paystack
+ * reference. Unlike getBookingByPaymentRef this finds every balance payment,
+ * not just the latest one stored on the booking.
+ * 
+ * @param reference - The Paystack transaction reference
+ * @returns The booking ID, or null if no ledger entry has this reference
+ */
+export async function findBookingIdByPaymentEntry(reference: string): Promise<string | null> {
+  return getBookingRepository().findBookingIdByPaymentEntry(reference);
+}
 
-  return getBookingsForDateRange(startOfDay, endOfDay);
+/**
+ * Records a payment taken in person (cash, card terminal, e-transfer) or a tip.
+ * Called from the admin dashboard.
+ * 
+ * @param bookingId - The booking ID
+ * @param entry - The payment to record
+ * @returns The booking with its updated totals
+ * @throws If the booking does not exist or the amount isn't positive
+ */
+export async function recordManualPayment(
+  bookingId: string,
+  entry: PaymentEntryInput
+): Promise<Booking> {
+  if (!(entry.amount > 0)) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+
+  return getBookingRepository().runTransaction(async (transaction) => {
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    const totals = addPaymentEntry(transaction, booking, entry);
+    const updatedAt = new Date();
+
+    transaction.updateBooking(bookingId, { ...totals, updatedAt });
+    return { ...booking, ...totals, updatedAt };
+  });
 }
 
 // ============================================================================
@@ -263,50 +647,484 @@ export async function getBookingsForDate(date: Date): Promise<Booking[]> {
  * sends the same event multiple times (which can happen).
  * 
  * @param reference - The Paystack transaction reference
+ * @param transaction - Optional transaction to read through
  * @returns True if this reference was already processed
  */
-export async function isPaymentProcessed(reference: string): Promise<boolean> {
-  const docRef = doc(getDb(), PROCESSED_PAYMENTS_COLLECTION, reference);
-  const docSnap = await getDoc(docRef);
-  return docSnap.exists();
+export async function isPaymentProcessed(
+  reference: string,
+  transaction?: RepositoryTransaction
+): Promise<boolean> {
+  if (transaction) {
+    return transaction.isPaymentProcessed(reference);
+  }
+  return getBookingRepository().runTransaction(readOnly => readOnly.isPaymentProcessed(reference));
 }
 
 /**
  * Records that a payment reference has been processed.
- * Call this immediately after confirming a booking via webhook.
  * 
  * @param reference - The Paystack transaction reference
  * @param bookingId - The booking that was confirmed
+ * @param transaction - Optional transaction to write through
  */
 export async function markPaymentProcessed(
   reference: string,
-  bookingId: string
+  bookingId: string,
+  transaction?: RepositoryTransaction
 ): Promise<void> {
-  const docRef = doc(getDb(), PROCESSED_PAYMENTS_COLLECTION, reference);
-  await updateDoc(docRef, {
-    bookingId,
-    processedAt: Timestamp.now(),
-  }).catch(async () => {
-    // If doc doesn't exist, create it
-    await addDoc(collection(getDb(), PROCESSED_PAYMENTS_COLLECTION), {
-      reference,
+  if (transaction) {
+    transaction.markPaymentProcessed(reference, bookingId);
+    return;
+  }
+
+  await getBookingRepository().runTransaction(async (writeOnly) => {
+    writeOnly.markPaymentProcessed(reference, bookingId);
+  });
+}
+
+/**
+ * Outcome of processing a successful payment for a booking.
+ * - confirmed: booking confirmed and its slot secured
+ * - needs-review: paid after the slot hold expired, or the charge doesn't match the
+ *   booking (amount, currency or reference); flagged for an admin instead of confirmed
+ * - already-processed: this reference was handled before (duplicate delivery)
+ */
+export type PaymentConfirmationResult = 'confirmed' | 'needs-review' | 'already-processed';
+
+/**
+ * Confirms a booking after a successful payment, exactly once.
+ * 
+ * The idempotency check, the processed-payment record and the booking update
+ * all run in a single transaction, so concurrent or repeated webhook
+ * deliveries for the same reference can never confirm a booking twice.
+ * 
+ * Only a charge for the booking's exact deposit, in the business currency,
+ * under the reference stored when checkout started can confirm it. Anyone
+ * can start a Paystack checkout naming a booking, so any other charge is
+ * recorded and flagged for admin review, leaving the booking as it was.
+ * 
+ * If the payment arrives after the booking released its slot (hold expired,
+ * earlier attempt failed, or booking cancelled), the slot may already belong
+ * to someone else. The booking is then marked paid but left pending and
+ * flagged for admin review rather than silently double-booked.
+ * 
+ * Either way the money was received, so the deposit is added to the
+ * payments ledger.
+ * 
+ * @param bookingId - The booking to confirm
+ * @param reference - The Paystack transaction reference
+ * @param amount - Amount charged, in dollars
+ * @param currency - Currency of the charge (ISO 4217 code)
+ * @returns The outcome of the confirmation
+ * @throws If the booking does not exist
+ */
+export async function confirmBookingPayment(
+  bookingId: string,
+  reference: string,
+  amount: number,
+  currency: string
+): Promise<PaymentConfirmationResult> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    // All reads must happen before any writes inside a transaction
+    if (await isPaymentProcessed(reference, transaction)) {
+      return 'already-processed';
+    }
+
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    await markPaymentProcessed(reference, bookingId, transaction);
+    const totals = addPaymentEntry(
+      transaction,
+      booking,
+      { type: 'deposit', method: 'paystack', amount, reference },
+      reference
+    );
+
+    // Anything other than the deposit this booking asked for is left for an admin
+    const mismatch = toPence(amount) !== toPence(booking.depositAmount)
+      ? `amount ${formatPrice(amount)} instead of ${formatPrice(booking.depositAmount)}`
+      : currency !== settings.currency
+      ? `currency ${currency} instead of ${settings.currency}`
+      : reference !== booking.paymentReference
+      ? `reference ${reference} instead of ${booking.paymentReference || 'none'}`
+      : null;
+
+    if (mismatch) {
+      transaction.updateBooking(bookingId, {
+        ...totals,
+        needsReview: true,
+        reviewReason: `Payment ${reference} doesn't match this booking (${mismatch}). Not confirmed - check it before refunding or confirming.`,
+        updatedAt: new Date(),
+      });
+      return 'needs-review';
+    }
+
+    const slotStillHeld =
+      booking.bookingStatus === 'pending' &&
+      booking.paymentStatus === 'pending' &&
+      !isHoldExpired(booking);
+
+    if (!slotStillHeld) {
+      const alreadyConfirmed = booking.bookingStatus === 'confirmed';
+      transaction.updateBooking(bookingId, {
+        ...totals,
+        // Keep the original reference on confirmed bookings; the extra charge is in the ledger
+        ...(!alreadyConfirmed && { paymentReference: reference }),
+        paymentStatus: 'paid',
+        // Paid-but-pending bookings block their slot and show up in the admin schedule
+        bookingStatus: alreadyConfirmed ? 'confirmed' : 'pending',
+        needsReview: true,
+        reviewReason: alreadyConfirmed
+          ? `Additional payment ${reference} received for an already confirmed booking.`
+          : booking.bookingStatus === 'cancelled'
+          ? 'Payment received for a cancelled booking. Check for conflicts before confirming.'
+          : 'Payment received after the slot hold expired or a failed attempt. Check for conflicts before confirming.',
+        updatedAt: new Date(),
+      });
+      return 'needs-review';
+    }
+
+    await updateBookingStatus(bookingId, 'confirmed', reference, transaction);
+    transaction.updateBooking(bookingId, { ...totals });
+    return 'confirmed';
+  });
+}
+
+/**
+ * Outcome of recording an online balance payment.
+ * - recorded: amount added to totalPaid and taken off balanceDue
+ * - already-processed: this reference was handled before (duplicate delivery)
+ */
+export type BalancePaymentResult = 'recorded' | 'already-processed';
+
+/**
+ * Records an online balance payment against a booking, exactly once.
+ * 
+ * Like confirmBookingPayment, the idempotency check, the processed-payment
+ * record, the ledger entry and the booking totals are written in one
+ * transaction. The amount actually charged is what goes into the ledger.
+ * 
+ * A balance paid on a booking that is no longer confirmed (e.g. cancelled
+ * after the link was sent) is still recorded, but flagged for review.
+ * 
+ * @param bookingId - The booking the balance belongs to
+ * @param reference - The Paystack balance reference (BEL_BAL_...)
+ * @param amount - Amount charged, in dollars
+ * @returns The outcome of recording the payment
+ * @throws If the booking does not exist
+ */
+export async function confirmBalancePayment(
+  bookingId: string,
+  reference: string,
+  amount: number
+): Promise<BalancePaymentResult> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    // All reads must happen before any writes inside a transaction
+    if (await isPaymentProcessed(reference, transaction)) {
+      return 'already-processed';
+    }
+
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    await markPaymentProcessed(reference, bookingId, transaction);
+
+    const totals = addPaymentEntry(
+      transaction,
+      booking,
+      { type: 'balance', method: 'paystack', amount, reference },
+      reference
+    );
+    const overpaid = totals.totalPaid > booking.subtotal + booking.extrasTotal;
+
+    transaction.updateBooking(bookingId, {
+      ...totals,
+      // A newer link may have been sent since; only the latest reference is tracked
+      ...(booking.balancePaymentReference === reference && { balancePaymentStatus: 'paid' }),
+      ...((booking.bookingStatus !== 'confirmed' || overpaid) && {
+        needsReview: true,
+        reviewReason: overpaid
+          ? `Balance payment ${reference} of ${formatPrice(amount)} exceeds the amount that was due.`
+          : `Balance payment ${reference} of ${formatPrice(amount)} received for a ${booking.bookingStatus} booking.`,
+      }),
+      updatedAt: new Date(),
+    });
+    return 'recorded';
+  });
+}
+
+// ============================================================================
+// PAYMENT EXCEPTIONS
+// Refunds and disputes are exceptions to the no-refund policy, so each one
+// updates the booking, flags it for review and leaves an audit entry
+// ============================================================================
+
+/**
+ * A refund event received from Paystack.
+ */
+export interface RefundEventInput {
+  eventId: string;              // Unique ID for this delivery, e.g. "refund.processed:3018284"
+  event: 'refund.processed' | 'refund.failed';
+  reference: string;            // Transaction reference that was refunded
+  amount: number;               // Amount refunded, in dollars
+  status: string;               // Paystack refund status
+}
+
+/**
+ * A dispute event received from Paystack.
+ */
+export interface DisputeEventInput {
+  eventId: string;              // Unique ID for this delivery, e.g. "charge.dispute.create:2867"
+  event: 'charge.dispute.create' | 'charge.dispute.resolve';
+  reference: string;            // Transaction reference being disputed
+  disputeId: string;            // Paystack dispute ID
+  status: string;               // Paystack dispute status
+  category?: string;            // "chargeback" or "fraud"
+  resolution?: string;          // "merchant-accepted" or "declined" (resolve only)
+  refundAmount: number;         // Amount disputed, in dollars
+  dueAt?: Date;                 // Deadline to respond to the dispute
+}
+
+/**
+ * Applies a payment exception to a booking and records its audit entry, exactly once.
+ * 
+ * The audit entry's ID doubles as the idempotency key: if it already exists the
+ * event was handled before and nothing is written. The booking update and the
+ * audit entry are written in the same transaction.
+ * 
+ * @param bookingId - The booking the payment belongs to
+ * @param entry - Audit entry to record (without bookingId and timestamp)
+ * @param buildUpdate - Returns the booking fields to change, given the current
+ *   booking; may write ledger entries through the transaction
+ * @returns False if this event was already recorded
+ * @throws If the booking does not exist
+ */
+async function applyPaymentEvent(
+  bookingId: string,
+  entry: Omit<PaymentEvent, 'bookingId' | 'receivedAt'>,
+  buildUpdate: (booking: Booking, transaction: RepositoryTransaction) => BookingChanges
+): Promise<boolean> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    // All reads must happen before any writes inside a transaction
+    if (await transaction.hasPaymentEvent(entry.id)) {
+      return false;
+    }
+
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+
+    transaction.updateBooking(bookingId, {
+      ...buildUpdate(booking, transaction),
+      updatedAt: new Date(),
+    });
+    transaction.addPaymentEvent({
+      ...entry,
       bookingId,
-      processedAt: Timestamp.now(),
+      receivedAt: new Date(),
     });
+    return true;
   });
 }
 
+/**
+ * Adds money returned to the client to the ledger and returns the booking fields to update.
+ * The payment only counts as refunded once everything paid has been returned.
+ */
+function addRefundEntry(
+  transaction: RepositoryTransaction,
+  booking: Booking,
+  entryId: string,
+  amount: number,
+  reference: string,
+  note: string
+): BookingChanges {
+  const totals = addPaymentEntry(
+    transaction,
+    booking,
+    { type: 'refund', method: 'paystack', amount, reference, note },
+    entryId
+  );
+  return {
+    ...totals,
+    ...(totals.totalPaid <= 0 && { paymentStatus: 'refunded' as const }),
+  };
+}
+
+/**
+ * Records a Paystack refund against a booking.
+ * Processed refunds are added to the ledger; failed refunds are flagged so the
+ * stylist can retry from the Paystack dashboard. The booking status is left
+ * alone - whether the appointment still goes ahead is an admin decision.
+ * 
+ * @param bookingId - The booking the refunded payment belongs to
+ * @param refund - The refund event
+ * @returns False if this event was already recorded
+ */
+export async function recordRefundEvent(bookingId: string, refund: RefundEventInput): Promise<boolean> {
+  const processed = refund.event === 'refund.processed';
+  const summary = processed
+    ? `Refund of ${formatPrice(refund.amount)} processed for ${refund.reference}.`
+    : `Refund of ${formatPrice(refund.amount)} for ${refund.reference} failed. Retry it from the Paystack dashboard.`;
+
+  return applyPaymentEvent(
+    bookingId,
+    {
+      id: refund.eventId,
+      event: refund.event,
+      reference: refund.reference,
+      status: refund.status,
+      amount: refund.amount,
+      summary,
+    },
+    (booking, transaction) => ({
+      ...(processed && addRefundEntry(transaction, booking, refund.eventId, refund.amount, refund.reference, summary)),
+      refundStatus: processed ? 'processed' as const : 'failed' as const,
+      needsReview: true,
+      reviewReason: summary,
+    })
+  );
+}
+
+/**
+ * Records a Paystack chargeback dispute against a booking.
+ * Opening a dispute flags the booking for review; resolving it stores the
+ * outcome, and if the dispute was accepted the disputed amount is added to the
+ * ledger as a refund.
+ * 
+ * @param bookingId - The booking the disputed payment belongs to
+ * @param dispute - The dispute event
+ * @returns False if this event was already recorded
+ */
+export async function recordDisputeEvent(bookingId: string, dispute: DisputeEventInput): Promise<boolean> {
+  const opened = dispute.event === 'charge.dispute.create';
+  const clientRefunded = dispute.resolution === 'merchant-accepted';
+  const summary = opened
+    ? `Dispute opened for ${formatPrice(dispute.refundAmount)} on ${dispute.reference}.` +
+      (dispute.dueAt ? ` Respond in the Paystack dashboard by ${dispute.dueAt.toISOString().slice(0, 10)}.` : '')
+    : `Dispute on ${dispute.reference} resolved: ${dispute.resolution || dispute.status}` +
+      (clientRefunded ? ` (${formatPrice(dispute.refundAmount)} returned to the client).` : '.');
+
+  return applyPaymentEvent(
+    bookingId,
+    {
+      id: dispute.eventId,
+      event: dispute.event,
+      reference: dispute.reference,
+      status: dispute.status,
+      amount: dispute.refundAmount,
+      summary,
+    },
+    (booking, transaction) => {
+      const record: BookingDispute = {
+        ...booking.dispute,
+        id: dispute.disputeId,
+        status: dispute.status,
+        refundAmount: dispute.refundAmount,
+        openedAt: booking.dispute?.openedAt || new Date(),
+        ...(dispute.category && { category: dispute.category }),
+        ...(dispute.resolution && { resolution: dispute.resolution }),
+        ...(!opened && { resolvedAt: new Date() }),
+      };
+
+      return {
+        ...(clientRefunded &&
+          addRefundEntry(transaction, booking, dispute.eventId, dispute.refundAmount, dispute.reference, summary)),
+        dispute: record,
+        needsReview: true,
+        reviewReason: summary,
+      };
+    }
+  );
+}
+
+/**
+ * Gets the refund and dispute audit entries for a booking, oldest first.
+ * Used by the admin booking detail view.
+ * 
+ * @param bookingId - The booking ID
+ * @returns Audit entries for the booking
+ */
+export async function getPaymentEventsForBooking(bookingId: string): Promise<PaymentEvent[]> {
+  return getBookingRepository().getPaymentEvents(bookingId);
+}
+
 // ============================================================================
 // BOOKING STATUS ACTIONS
 // Convenience functions for common status updates
 // ============================================================================
 
 /**
- * Cancels a booking.
+ * Cancels a pending or confirmed booking.
+ * The booking is re-read in a transaction, so one that was paid, completed
+ * or cancelled since the caller loaded it is left as it is.
  * Note: This does NOT trigger a refund - deposits are non-refundable.
+ * 
+ * @param bookingId - The booking ID
+ * @param reason - Optional reason stored on the booking (e.g., "abandoned")
+ * @param canCancel - Extra check on the latest copy of the booking
+ * @returns True if the booking was cancelled, false if it no longer could be
+ * @throws If the booking doesn't exist
+ */
+export async function cancelBooking(
+  bookingId: string,
+  reason?: string,
+  canCancel: (booking: Booking) => boolean = () => true
+): Promise<boolean> {
+  return getBookingRepository().runTransaction(async (transaction) => {
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.bookingStatus) || !canCancel(booking)) {
+      return false;
+    }
+
+    transaction.updateBooking(bookingId, {
+      bookingStatus: 'cancelled',
+      ...(reason && { cancellationReason: reason }),
+      updatedAt: new Date(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Cancels a booking found by getAbandonedBookings with reason "abandoned",
+ * unless it was paid for (or its checkout restarted) since it was found.
+ * 
+ * @param bookingId - The booking ID
+ * @returns True if the booking was cancelled, false if it's no longer abandoned
  */
-export async function cancelBooking(bookingId: string): Promise<void> {
-  await updateBookingStatus(bookingId, 'cancelled');
+export async function cancelAbandonedBooking(bookingId: string): Promise<boolean> {
+  return cancelBooking(bookingId, 'abandoned', booking =>
+    booking.bookingStatus === 'pending' && ABANDONED_PAYMENT_STATUSES.includes(booking.paymentStatus)
+  );
+}
+
+/**
+ * Cancels a pending booking the booking page replaced with a new one,
+ * so the old hold doesn't keep the slot (or block the new booking for it).
+ * Only works with the hold secret createBooking returned, and never
+ * touches a booking that has been paid for.
+ * 
+ * @param bookingId - The booking ID
+ * @param holdSecret - Secret returned by createBooking
+ * @returns True if the hold was released, false if the secret is wrong or
+ *   the booking is no longer an unpaid pending booking
+ */
+export async function releasePendingBooking(bookingId: string, holdSecret: string): Promise<boolean> {
+  const holdSecretHash = await hashHoldSecret(holdSecret);
+  return cancelBooking(bookingId, 'Replaced by a new booking', booking =>
+    booking.holdSecretHash === holdSecretHash &&
+    booking.bookingStatus === 'pending' &&
+    booking.paymentStatus !== 'paid'
+  );
 }
 
 /**
@@ -321,5 +1139,298 @@ export async function completeBooking(bookingId: string): Promise<void> {
  * Deposit is forfeited per policy.
  */
 export async function markNoShow(bookingId: string): Promise<void> {
-  await updateBookingStatus(bookingId, 'no-show');
+  await getBookingRepository().runTransaction(async (transaction) => {
+    // All reads must happen before any writes in a transaction
+    const booking = await transaction.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+
+    const flagIds = getClientFlagIds(booking.client.email, booking.client.phone);
+    const existingFlags = await Promise.all(flagIds.map(flagId => transaction.getClientFlag(flagId)));
+
+    await updateBookingStatus(bookingId, 'no-show', undefined, transaction);
+
+    flagIds.forEach((flagId, index) => {
+      const existing = existingFlags[index];
+
+      // Marking the same booking twice must not count twice
+      if (existing?.noShowBookingIds.includes(bookingId)) return;
+
+      const activeNoShows = (existing?.activeNoShows || 0) + 1;
+      const [type, value] = splitClientFlagId(flagId);
+      transaction.setClientFlag({
+        ...existing,
+        id: flagId,
+        type,
+        value,
+        noShowCount: (existing?.noShowCount || 0) + 1,
+        activeNoShows,
+        requiresFullPayment: activeNoShows >= settings.noShowsBeforeFullPayment,
+        noShowBookingIds: [...(existing?.noShowBookingIds || []), bookingId],
+        lastNoShowAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+  });
+}
+
+// ============================================================================
+// BLOCKS
+// Times a stylist can't take appointments (e.g., a doctor's appointment),
+// created from the admin schedule and treated like bookings by availability
+// ============================================================================
+
+/**
+ * Longest block allowed, in hours. Also how far back getBlocksForDateRange
+ * looks for blocks that started before the range but run into it.
+ */
+const MAX_BLOCK_HOURS = 24;
+
+/**
+ * Blocks out time on the schedule.
+ * Called from the admin dashboard.
+ * 
+ * @param blockData - The period to block, and for which stylist
+ * @returns The ID of the created block
+ * @throws If the block doesn't end after it starts, or is longer than a day
+ */
+export async function createBlock(blockData: {
+  stylistId?: string;
+  startTime: Date;
+  endTime: Date;
+  reason?: string;
+}): Promise<string> {
+  const durationMs = blockData.endTime.getTime() - blockData.startTime.getTime();
+  if (!(durationMs > 0)) {
+    throw new Error('A block must end after it starts');
+  }
+  if (durationMs > MAX_BLOCK_HOURS * 60 * 60 * 1000) {
+    throw new Error(`A block can't be longer than ${MAX_BLOCK_HOURS} hours`);
+  }
+
+  return getBookingRepository().createBlock({ ...blockData, createdAt: new Date() });
+}
+
+/**
+ * Gets all blocks that overlap a date range.
+ * Used by the availability checks and the admin schedule view.
+ * Reasons are admin-only, so they're only read when asked for.
+ * 
+ * @param startDate - Start of range (inclusive)
+ * @param endDate - End of range (inclusive)
+ * @param options - Set withReasons to include each block's reason (admin only)
+ * @returns Array of blocks sorted by start time
+ */
+export async function getBlocksForDateRange(
+  startDate: Date,
+  endDate: Date,
+  options: { withReasons?: boolean } = {}
+): Promise<Block[]> {
+  const repository = getBookingRepository();
+  const blocks = await findBlocksInRange(repository, startDate, endDate);
+
+  if (!options.withReasons || blocks.length === 0) {
+    return blocks;
+  }
+
+  const reasons = await repository.getBlockReasons(blocks.map(block => block.id));
+  return blocks.map(block => reasons[block.id] ? { ...block, reason: reasons[block.id] } : block);
+}
+
+/**
+ * Finds the blocks that overlap a date range, without their reasons.
+ */
+async function findBlocksInRange(source: ScheduleSource, startDate: Date, endDate: Date): Promise<Block[]> {
+  const blocks = await source.findBlocks({
+    startTimeFrom: new Date(startDate.getTime() - MAX_BLOCK_HOURS * 60 * 60 * 1000),
+    startTimeTo: endDate,
+  });
+  return blocks.filter(block => block.endTime > startDate); // Drop blocks that ended before the range
+}
+
+/**
+ * Removes a block, making the time bookable again.
+ * 
+ * @param blockId - The block ID
+ */
+export async function deleteBlock(blockId: string): Promise<void> {
+  await getBookingRepository().deleteBlock(blockId);
+}
+
+// ============================================================================
+// BUSINESS SETTINGS
+// The admin-edited settings document. Validation and merging with the
+// defaults happen in settings.ts
+// ============================================================================
+
+/**
+ * Reads the saved business settings.
+ * 
+ * @returns The saved values, or null if the settings have never been saved
+ */
+export async function getSavedSettings(): Promise<Partial<Settings> | null> {
+  return getBookingRepository().getSettings();
+}
+
+/**
+ * Replaces the saved business settings.
+ * Callers must validate the values first (see saveSettings in settings.ts).
+ * 
+ * @param values - The complete settings to save
+ */
+export async function saveSettingsDocument(values: Settings): Promise<void> {
+  await getBookingRepository().saveSettings(values);
+}
+
+// ============================================================================
+// SERVICE CATALOG
+// Services edited from the admin, with every saved version kept.
+// Validation and versioning rules live in catalog.ts
+// ============================================================================
+
+/**
+ * Reads the saved service catalog, including deleted services.
+ * 
+ * @returns The saved services, or an empty array if the catalog has never been saved
+ */
+export async function getStoredServices(): Promise<Service[]> {
+  return getBookingRepository().getServices();
+}
+
+/**
+ * Gets every saved version of a service.
+ * 
+ * @param serviceId - The service ID
+ * @returns Versions, oldest first
+ */
+export async function getServiceVersions(serviceId: string): Promise<ServiceVersion[]> {
+  return getBookingRepository().getServiceVersions(serviceId);
+}
+
+/**
+ * Saves a new version of a service.
+ * 
+ * @param version - The version to save (its service is stored as the current one)
+ * @throws If the service was changed by someone else since it was loaded
+ */
+export async function saveServiceVersion(version: ServiceVersion): Promise<void> {
+  await getBookingRepository().saveServiceVersion(version);
+}
+
+/**
+ * Saves the first version of several services in one go.
+ * Services that are already stored are left as they are.
+ * 
+ * @param versions - Version 1 of each service to add
+ */
+export async function seedServices(versions: ServiceVersion[]): Promise<void> {
+  await getBookingRepository().seedServices(versions);
+}
+
+// ============================================================================
+// CLIENT NO-SHOW FLAGS
+// One document per normalized email and phone, so a client is recognized
+// even if they book again with only one of the two unchanged
+// ============================================================================
+
+/**
+ * Builds the client flag IDs for a client.
+ * Example: ("Jane@Example.com", "(416) 555-1234") -> ["email:jane@example.com", "phone:4165551234"]
+ */
+function getClientFlagIds(email: string, phone: string): string[] {
+  const ids: string[] = [];
+  const normalizedEmail = normalizeEmail(email || '');
+  const normalizedPhone = normalizePhone(phone || '');
+  if (normalizedEmail) ids.push(`email:${normalizedEmail}`);
+  if (normalizedPhone) ids.push(`phone:${normalizedPhone}`);
+  return ids;
+}
+
+/**
+ * Splits a client flag ID into its type and value.
+ */
+function splitClientFlagId(flagId: string): [ClientFlag['type'], string] {
+  const separator = flagId.indexOf(':');
+  return [flagId.slice(0, separator) as ClientFlag['type'], flagId.slice(separator + 1)];
+}
+
+/**
+ * Gets a client's no-show status from their email and phone flags.
+ * Used to decide whether a new booking must be paid in full upfront.
+ * 
+ * @param email - Client email (normalized here)
+ * @param phone - Client phone (normalized here)
+ * @returns Combined status across both identifiers
+ */
+export async function getClientNoShowStatus(email: string, phone: string): Promise<ClientNoShowStatus> {
+  const flags = await getBookingRepository().getClientFlags(getClientFlagIds(email, phone));
+
+  return {
+    requiresFullPayment: flags.some(flag => flag.requiresFullPayment),
+    noShowCount: Math.max(0, ...flags.map(flag => flag.noShowCount)),
+  };
+}
+
+/**
+ * Clears the full-payment requirement for a client (admin action).
+ * The no-show history is kept; only no-shows after this count again.
+ * 
+ * @param email - Client email (normalized here)
+ * @param phone - Client phone (normalized here)
+ */
+export async function clearClientFlag(email: string, phone: string): Promise<void> {
+  const flagIds = getClientFlagIds(email, phone);
+
+  await getBookingRepository().runTransaction(async (transaction) => {
+    const flags = await Promise.all(flagIds.map(flagId => transaction.getClientFlag(flagId)));
+
+    flags.forEach(flag => {
+      if (!flag) return;
+      transaction.setClientFlag({
+        ...flag,
+        activeNoShows: 0,
+        requiresFullPayment: false,
+        clearedAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+  });
+}
+
+// ============================================================================
+// MAINTENANCE LOGS
+// ============================================================================
+
+/**
+ * Summary of one abandoned-booking sweep.
+ */
+export interface SweepSummary {
+  ranAt: Date;                  // When the sweep started
+  maxAgeMinutes: number;        // Age threshold used for this run
+  cutoff: Date;                 // Bookings created before this were considered
+  found: number;                // Abandoned bookings found
+  cancelledBookingIds: string[]; // Bookings that were cancelled
+  skippedBookingIds: string[];  // Bookings paid for or retried after they were found
+  failedBookingIds: string[];   // Bookings that could not be cancelled
+}
+
+/**
+ * Writes a sweep summary to the sweeperRuns log.
+ * 
+ * @param summary - The summary to record
+ * @returns The ID of the log entry
+ */
+export async function recordSweepRun(summary: SweepSummary): Promise<string> {
+  return getBookingRepository().addLogEntry('sweeperRuns', summary);
+}
+
+/**
+ * Writes a reconciliation report to the reconciliationReports log.
+ * 
+ * @param report - The report to record
+ * @returns The ID of the report
+ */
+export async function recordReconciliationReport(report: ReconciliationReport): Promise<string> {
+  return getBookingRepository().addLogEntry('reconciliationReports', report);
 }
@@ -0,0 +1,398 @@
+/**
+ * Transactional Email
+ *
+ * This module sends booking-related emails to clients.
+ * It uses the Resend HTTP API (https://resend.com/docs/api-reference/emails/send-email)
+ * via fetch, so no extra SDK is needed.
+ *
+ * CONFIGURATION:
+ * - RESEND_API_KEY: API key from the Resend dashboard
+ * - EMAIL_FROM: Sender address (defaults to the business contact email)
+ *
+ * If RESEND_API_KEY is not set (e.g., local development), emails are logged
+ * to the console instead of sent, so the booking flow still works.
+ *
+ * IMPORTANT: This is a SERVER-SIDE ONLY module (API key must stay secret).
+ * Call it from Netlify Functions, not from React components.
+ */
+
+import { Booking } from '@/types';
+import { getDepositRefundTerm, getPolicyReminders, settings } from '@/data/settings';
+import { getBookingStylistId, getStylistById } from '@/data/stylists';
+import { formatDate, formatPrice, formatTime } from './utils';
+import { getBusinessDateTime } from './availability';
+import { generateBookingIcs, getBookingIcsFilename } from './calendar';
+import { createBookingToken } from './tokens';
+
+// Public site URL for links in emails (set automatically by Netlify)
+const SITE_URL = process.env.URL || 'https://bellezavari.com';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A file attached to an email (e.g., an .ics calendar invite).
+ */
+export interface EmailAttachment {
+  filename: string;     // File name shown to the recipient
+  content: string;      // File contents (plain text)
+  contentType?: string; // MIME type (e.g., "text/calendar")
+}
+
+/**
+ * An email ready to send.
+ */
+export interface EmailMessage {
+  to: string;                       // Recipient email address
+  subject: string;                  // Subject line
+  text: string;                     // Plain-text body
+  html: string;                     // HTML body
+  attachments?: EmailAttachment[];  // Optional attachments
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Sends an email through Resend.
+ * Never throws - email failures must not break payment processing.
+ *
+ * @param message - The email to send
+ * @returns Object with success status and error message if it failed
+ */
+export async function sendEmail(message: EmailMessage): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const apiKey = process.env.RESEND_API_KEY;
+
+  if (!apiKey) {
+    console.log('[Email] RESEND_API_KEY not configured, logging instead of sending:', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments?.map(a => a.filename),
+    });
+    return { success: true };
+  }
+
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: process.env.EMAIL_FROM || `${settings.businessName} <${settings.contactEmail}>`,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map(a => ({
+          filename: a.filename,
+          content: Buffer.from(a.content).toString('base64'),
+          content_type: a.contentType,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('[Email] Send failed:', response.status, error);
+      return { success: false, error };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('[Email] Send error:', error);
+    return { success: false, error: 'Failed to send email' };
+  }
+}
+
+// ============================================================================
+// TEMPLATES
+// Each template returns a complete EmailMessage for a booking
+// ============================================================================
+
+/**
+ * Escapes text for use in an HTML email body or attribute.
+ * Client details and gateway messages must never be able to inject markup.
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Formats a booking's appointment date and time in the business timezone.
+ * Example: "Friday, March 15, 2024 at 9:00 AM"
+ */
+function formatAppointment(booking: Booking): string {
+  const { date, time } = getBusinessDateTime(new Date(booking.startTime));
+  return `${formatDate(new Date(`${date}T12:00:00`))} at ${formatTime(time)}`;
+}
+
+/**
+ * Builds the link where a client can view, reschedule or cancel their booking.
+ * Falls back to the reschedule page (reference + email) when signed
+ * links aren't configured.
+ */
+function getManageUrl(booking: Booking): string {
+  const token = createBookingToken(booking);
+  return token
+    ? `${SITE_URL}/book/manage?token=${encodeURIComponent(token)}`
+    : `${SITE_URL}/book/reschedule?reference=${encodeURIComponent(booking.paymentReference)}`;
+}
+
+/**
+ * Builds the link where a client can retry a failed deposit payment.
+ * Signed like the manage link, so only the client who was emailed it can
+ * start a checkout for the booking.
+ *
+ * @param booking - The booking whose payment failed
+ * @returns The link, or null if signed links aren't configured
+ */
+export function getRetryPaymentUrl(booking: Booking): string | null {
+  const token = createBookingToken(booking);
+  return token ? `${SITE_URL}/book/retry?token=${encodeURIComponent(token)}` : null;
+}
+
+/**
+ * Email sent when a booking is confirmed after the deposit is paid.
+ * Attaches an .ics file so the client can add the appointment to their calendar.
+ *
+ * @param booking - The confirmed booking
+ */
+export function bookingConfirmationEmail(booking: Booking): EmailMessage {
+  const appointment = formatAppointment(booking);
+  const manageUrl = getManageUrl(booking);
+  const stylist = getStylistById(getBookingStylistId(booking));
+  const reminders = getPolicyReminders();
+
+  return {
+    to: booking.client.email,
+    subject: `Your ${settings.businessName} appointment is confirmed`,
+    text: [
+      `Hi ${booking.client.firstName},`,
+      '',
+      `Your ${booking.serviceName} appointment on ${appointment} is confirmed.`,
+      ...(stylist ? [`Your stylist: ${stylist.name}`] : []),
+      '',
+      `Deposit paid: ${formatPrice(booking.totalPaid)}`,
+      `Balance due at appointment: ${formatPrice(booking.balanceDue)}`,
+      `Booking reference: ${booking.paymentReference}`,
+      '',
+      'A calendar invite is attached. Please remember:',
+      reminders.deposit,
+      reminders.notice,
+      '',
+      'View, reschedule or cancel your booking:',
+      manageUrl,
+      '',
+      `Questions? Reply to this email or contact ${settings.contactEmail}.`,
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(booking.client.firstName)},</p>
+      <p>Your <strong>${escapeHtml(booking.serviceName)}</strong> appointment on <strong>${escapeHtml(appointment)}</strong> is confirmed.</p>
+      ${stylist ? `<p>Your stylist: ${escapeHtml(stylist.name)}</p>` : ''}
+      <p>
+        Deposit paid: ${escapeHtml(formatPrice(booking.totalPaid))}<br />
+        Balance due at appointment: ${escapeHtml(formatPrice(booking.balanceDue))}<br />
+        Booking reference: ${escapeHtml(booking.paymentReference)}
+      </p>
+      <p>A calendar invite is attached. Please remember:<br />
+      ${escapeHtml(reminders.deposit)}<br />
+      ${escapeHtml(reminders.notice)}</p>
+      <p><a href="${escapeHtml(manageUrl)}">View, reschedule or cancel your booking</a></p>
+      <p>Questions? Contact <a href="mailto:${escapeHtml(settings.contactEmail)}">${escapeHtml(settings.contactEmail)}</a>.</p>
+    `,
+    attachments: [
+      {
+        filename: getBookingIcsFilename(booking),
+        content: generateBookingIcs(booking),
+        contentType: 'text/calendar',
+      },
+    ],
+  };
+}
+
+/**
+ * Email sent when a client reschedules their booking.
+ * Attaches an updated .ics file that replaces the original calendar event.
+ *
+ * @param booking - The booking with its new times
+ */
+export function bookingRescheduledEmail(booking: Booking): EmailMessage {
+  const appointment = formatAppointment(booking);
+  const previous = booking.previousStartTime
+    ? formatAppointment({ ...booking, startTime: booking.previousStartTime })
+    : null;
+  // New link, since the old one expires with the old appointment time
+  const manageUrl = getManageUrl(booking);
+
+  return {
+    to: booking.client.email,
+    subject: `Your ${settings.businessName} appointment has been rescheduled`,
+    text: [
+      `Hi ${booking.client.firstName},`,
+      '',
+      `Your ${booking.serviceName} appointment has been moved to ${appointment}.`,
+      ...(previous ? [`Previous time: ${previous}`] : []),
+      '',
+      `Your deposit of ${formatPrice(booking.totalPaid)} has been carried over.`,
+      `Balance due at appointment: ${formatPrice(booking.balanceDue)}`,
+      `Booking reference: ${booking.paymentReference}`,
+      '',
+      'An updated calendar invite is attached.',
+      '',
+      'Manage your booking:',
+      manageUrl,
+      '',
+      `Questions? Reply to this email or contact ${settings.contactEmail}.`,
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(booking.client.firstName)},</p>
+      <p>Your <strong>${escapeHtml(booking.serviceName)}</strong> appointment has been moved to <strong>${escapeHtml(appointment)}</strong>.</p>
+      ${previous ? `<p>Previous time: ${escapeHtml(previous)}</p>` : ''}
+      <p>
+        Your deposit of ${escapeHtml(formatPrice(booking.totalPaid))} has been carried over.<br />
+        Balance due at appointment: ${escapeHtml(formatPrice(booking.balanceDue))}<br />
+        Booking reference: ${escapeHtml(booking.paymentReference)}
+      </p>
+      <p>An updated calendar invite is attached.</p>
+      <p><a href="${escapeHtml(manageUrl)}">Manage your booking</a></p>
+      <p>Questions? Contact <a href="mailto:${escapeHtml(settings.contactEmail)}">${escapeHtml(settings.contactEmail)}</a>.</p>
+    `,
+    attachments: [
+      {
+        filename: getBookingIcsFilename(booking),
+        content: generateBookingIcs(booking),
+        contentType: 'text/calendar',
+      },
+    ],
+  };
+}
+
+/**
+ * Email sent when a client cancels their booking.
+ * Reminds them that the deposit is forfeited under the deposit policy.
+ *
+ * @param booking - The cancelled booking
+ */
+export function bookingCancelledEmail(booking: Booking): EmailMessage {
+  const appointment = formatAppointment(booking);
+
+  return {
+    to: booking.client.email,
+    subject: `Your ${settings.businessName} appointment has been cancelled`,
+    text: [
+      `Hi ${booking.client.firstName},`,
+      '',
+      `Your ${booking.serviceName} appointment on ${appointment} has been cancelled.`,
+      `As per our deposit policy, your deposit of ${formatPrice(booking.totalPaid)} is ${getDepositRefundTerm()}.`,
+      `Booking reference: ${booking.paymentReference}`,
+      '',
+      `We hope to see you again soon. Book a new appointment at ${SITE_URL}/book`,
+      '',
+      `Questions? Reply to this email or contact ${settings.contactEmail}.`,
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(booking.client.firstName)},</p>
+      <p>Your <strong>${escapeHtml(booking.serviceName)}</strong> appointment on ${escapeHtml(appointment)} has been cancelled.</p>
+      <p>As per our deposit policy, your deposit of ${escapeHtml(formatPrice(booking.totalPaid))} is ${escapeHtml(getDepositRefundTerm())}.<br />
+      Booking reference: ${escapeHtml(booking.paymentReference)}</p>
+      <p>We hope to see you again soon. <a href="${escapeHtml(SITE_URL)}/book">Book a new appointment</a></p>
+      <p>Questions? Contact <a href="mailto:${escapeHtml(settings.contactEmail)}">${escapeHtml(settings.contactEmail)}</a>.</p>
+    `,
+  };
+}
+
+/**
+ * Email sent when a deposit payment fails.
+ * Includes the gateway's reason and a link to retry while the slot is held
+ * (or to start a new booking when there is no retry link).
+ *
+ * @param booking - The booking whose payment failed
+ * @param reason - Gateway response from Paystack
+ * @param retryUrl - Link to the retry-payment page, if signed links are configured
+ */
+export function paymentFailedEmail(booking: Booking, reason: string, retryUrl: string | null): EmailMessage {
+  const nextStepUrl = retryUrl || `${SITE_URL}/book`;
+  const appointment = formatAppointment(booking);
+  const holdUntil = booking.holdExpiresAt
+    ? formatTime(getBusinessDateTime(new Date(booking.holdExpiresAt)).time)
+    : null;
+  const holdNote = holdUntil
+    ? `We're holding your slot until ${holdUntil}. After that it may be booked by someone else.`
+    : 'Your slot may be booked by someone else if you wait too long.';
+
+  return {
+    to: booking.client.email,
+    subject: `Your ${settings.businessName} deposit payment didn't go through`,
+    text: [
+      `Hi ${booking.client.firstName},`,
+      '',
+      `Your deposit payment of ${formatPrice(booking.depositAmount)} for ${booking.serviceName} on ${appointment} was not successful.`,
+      `Reason: ${reason}`,
+      '',
+      `${holdNote} You can try again here:`,
+      nextStepUrl,
+      '',
+      `Questions? Reply to this email or contact ${settings.contactEmail}.`,
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(booking.client.firstName)},</p>
+      <p>Your deposit payment of <strong>${escapeHtml(formatPrice(booking.depositAmount))}</strong> for
+      <strong>${escapeHtml(booking.serviceName)}</strong> on ${escapeHtml(appointment)} was not successful.</p>
+      <p>Reason: ${escapeHtml(reason)}</p>
+      <p>${escapeHtml(holdNote)}</p>
+      <p><a href="${escapeHtml(nextStepUrl)}">Try your payment again</a></p>
+      <p>Questions? Contact <a href="mailto:${escapeHtml(settings.contactEmail)}">${escapeHtml(settings.contactEmail)}</a>.</p>
+    `,
+  };
+}
+
+/**
+ * Email asking the client to pay their remaining balance online.
+ * Sent when an admin creates a balance payment link for a booking, and by
+ * the balance reminder job the day before the appointment.
+ *
+ * @param booking - The confirmed booking with a balance due
+ * @param paymentUrl - Paystack checkout link for the balance
+ */
+export function balancePaymentEmail(booking: Booking, paymentUrl: string): EmailMessage {
+  const appointment = formatAppointment(booking);
+
+  return {
+    to: booking.client.email,
+    subject: `Pay your ${settings.businessName} balance online`,
+    text: [
+      `Hi ${booking.client.firstName},`,
+      '',
+      `Your remaining balance for ${booking.serviceName} on ${appointment} is ${formatPrice(booking.balanceDue)}.`,
+      'You can pay it online before your appointment here:',
+      paymentUrl,
+      '',
+      'You can still pay in person at your appointment if you prefer.',
+      `Booking reference: ${booking.paymentReference}`,
+      '',
+      `Questions? Reply to this email or contact ${settings.contactEmail}.`,
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(booking.client.firstName)},</p>
+      <p>Your remaining balance for <strong>${escapeHtml(booking.serviceName)}</strong> on ${escapeHtml(appointment)}
+      is <strong>${escapeHtml(formatPrice(booking.balanceDue))}</strong>.</p>
+      <p><a href="${escapeHtml(paymentUrl)}">Pay your balance online</a></p>
+      <p>You can still pay in person at your appointment if you prefer.</p>
+      <p>Booking reference: ${escapeHtml(booking.paymentReference)}</p>
+      <p>Questions? Contact <a href="mailto:${escapeHtml(settings.contactEmail)}">${escapeHtml(settings.contactEmail)}</a>.</p>
+    `,
+  };
+}
@@ -1,5 +1,5 @@
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { getFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
 
 console.log('[Firebase] Module loading...');
 
@@ -32,6 +32,15 @@ if (isFirebaseConfigured) {
   console.log('[Firebase] Initializing Firebase app...');
   app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
   db = getFirestore(app);
+
+  // Point at the local Firestore emulator when configured (e.g., FIRESTORE_EMULATOR_HOST=localhost:8080)
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST || process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+    console.log('[Firebase] Using Firestore emulator at', emulatorHost);
+  }
+
   console.log('[Firebase] Firebase initialized successfully');
 } else {
   console.log('[Firebase] Skipping initialization - credentials not configured');
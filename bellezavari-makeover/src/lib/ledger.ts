@@ -0,0 +1,93 @@
+/**
+ * Payments Ledger
+ *
+ * Each booking has a payments sub-ledger (bookings/{id}/payments) with one
+ * entry per payment: the online deposit, an online or in-person balance
+ * payment, a tip, or a refund. The totals stored on the booking are derived
+ * from these entries with the functions below.
+ *
+ * RULES:
+ * - Deposits and balance payments count towards totalPaid
+ * - Refunds are subtracted from totalPaid (and added to refundedAmount)
+ * - Tips are tracked separately and never reduce the balance
+ * - balanceDue is what's left of the booking's total price, never negative
+ *
+ * Firestore client transactions can't query a subcollection, so db.ts applies
+ * each new entry to the booking's current totals (applyPaymentEntry) in the
+ * same transaction that writes the entry.
+ */
+
+import { Booking, PaymentEntry } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Booking totals derived from the payments ledger.
+ */
+export interface LedgerTotals {
+  totalPaid: number;       // Deposits and balance payments, minus refunds
+  balanceDue: number;      // Total price minus totalPaid (never negative)
+  tipsTotal: number;       // Sum of tips
+  refundedAmount: number;  // Sum of refunds
+}
+
+/**
+ * The parts of a ledger entry that affect the totals.
+ */
+export type LedgerAmount = Pick<PaymentEntry, 'type' | 'amount'>;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Rounds to whole cents so repeated additions don't drift.
+ */
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Applies one ledger entry to a set of totals.
+ *
+ * @param totals - Totals before the entry
+ * @param entry - The entry's type and amount
+ * @param totalPrice - The booking's total price (service + extras)
+ * @returns Totals after the entry
+ */
+export function applyPaymentEntry(totals: LedgerTotals, entry: LedgerAmount, totalPrice: number): LedgerTotals {
+  let { totalPaid, tipsTotal, refundedAmount } = totals;
+
+  if (entry.type === 'tip') {
+    tipsTotal = roundToCents(tipsTotal + entry.amount);
+  } else if (entry.type === 'refund') {
+    totalPaid = roundToCents(totalPaid - entry.amount);
+    refundedAmount = roundToCents(refundedAmount + entry.amount);
+  } else {
+    totalPaid = roundToCents(totalPaid + entry.amount);
+  }
+
+  return {
+    totalPaid,
+    balanceDue: roundToCents(Math.max(0, totalPrice - totalPaid)),
+    tipsTotal,
+    refundedAmount,
+  };
+}
+
+/**
+ * Reads the ledger totals currently stored on a booking.
+ *
+ * @param booking - The booking
+ * @returns The booking's totals (missing fields count as zero)
+ */
+export function getBookingLedgerTotals(booking: Booking): LedgerTotals {
+  return {
+    totalPaid: booking.totalPaid,
+    balanceDue: booking.balanceDue,
+    tipsTotal: booking.tipsTotal || 0,
+    refundedAmount: booking.refundedAmount || 0,
+  };
+}
@@ -34,6 +34,21 @@ import { generateId } from './utils';
  */
 const PAYSTACK_PUBLIC_KEY = process.env.NEXT_PUBLIC_PAYSTACK_PUBLIC_KEY || '';
 
+// Default Paystack API endpoint
+const DEFAULT_PAYSTACK_BASE_URL = 'https://api.paystack.co';
+
+/**
+ * Base URL for server-side Paystack API calls.
+ * Set PAYSTACK_BASE_URL to point the functions at a local Paystack
+ * stand-in for development and testing (e.g., http://localhost:4010,
+ * see scripts/paystack-mock.mjs).
+ * 
+ * @returns The API base URL without a trailing slash
+ */
+export function getPaystackBaseUrl(): string {
+  return (process.env.PAYSTACK_BASE_URL || DEFAULT_PAYSTACK_BASE_URL).replace(/\/+$/, '');
+}
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -154,6 +169,37 @@ export function generatePaystackReference(): string {
   return `BEL_${generateId()}`;
 }
 
+/**
+ * Prefix for online balance payments, so they can be told apart from deposits.
+ * Format: BEL_BAL_bookingId_timestamp
+ */
+export const BALANCE_REFERENCE_PREFIX = 'BEL_BAL_';
+
+/**
+ * Checks if a Paystack reference is for a balance payment rather than a deposit.
+ * 
+ * @param reference - The Paystack transaction reference
+ * @returns True for balance references (BEL_BAL_...)
+ */
+export function isBalanceReference(reference: string): boolean {
+  return reference.startsWith(BALANCE_REFERENCE_PREFIX);
+}
+
+/**
+ * Extracts the booking ID from a reference created by create-payment.
+ * Deposits use BEL_bookingId_timestamp and balances BEL_BAL_bookingId_timestamp.
+ * 
+ * @param reference - The Paystack transaction reference
+ * @returns The booking ID and payment type, or null if the reference isn't ours
+ */
+export function parseBookingReference(
+  reference: string
+): { bookingId: string; paymentType: 'deposit' | 'balance' } | null {
+  const match = /^BEL_(BAL_)?([A-Za-z0-9]+)_\d+$/.exec(reference);
+  if (!match) return null;
+  return { bookingId: match[2], paymentType: match[1] ? 'balance' : 'deposit' };
+}
+
 // ============================================================================
 // SERVER-SIDE VERIFICATION
 // These functions should only be called from server-side code (API routes/functions)
@@ -184,7 +230,7 @@ export async function verifyPaystackPayment(reference: string): Promise<{
   try {
     // Call Paystack's verification API
     const response = await fetch(
-      `https://api.paystack.co/transaction/verify/${reference}`,
+      `${getPaystackBaseUrl()}/transaction/verify/${encodeURIComponent(reference)}`,
       {
         headers: {
           Authorization: `Bearer ${secretKey}`,
@@ -206,6 +252,55 @@ export async function verifyPaystackPayment(reference: string): Promise<{
   }
 }
 
+/**
+ * Response structure from Paystack's initialize endpoint.
+ */
+export interface PaystackInitResponse {
+  status: boolean;
+  message: string;
+  data: {
+    authorization_url: string;  // URL to redirect user to
+    access_code: string;        // Access code for inline payment
+    reference: string;          // Transaction reference
+  };
+}
+
+/**
+ * Calls Paystack's transaction initialize API.
+ * Amounts are in dollars and converted to cents here.
+ * 
+ * IMPORTANT: This is a SERVER-SIDE ONLY function (it uses the secret key).
+ * 
+ * @param params - Customer email, amount, our reference and transaction metadata
+ * @returns Paystack's response
+ */
+export async function initializePaystackTransaction(params: {
+  email: string;
+  amount: number;
+  reference: string;
+  metadata: Record<string, unknown>;
+}): Promise<PaystackInitResponse> {
+  const response = await fetch(`${getPaystackBaseUrl()}/transaction/initialize`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY || ''}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      email: params.email,
+      amount: toPence(params.amount), // Paystack expects cents
+      currency: 'CAD',
+      reference: params.reference,
+      // Callback URL - where Paystack redirects after payment
+      callback_url: `${process.env.URL || 'https://bellezavari.com'}/book/success`,
+      // Metadata - attached to the transaction for webhook processing
+      metadata: params.metadata,
+    }),
+  });
+
+  return response.json();
+}
+
 // ============================================================================
 // CURRENCY CONVERSION HELPERS
 // Paystack uses smallest currency unit (cents for CAD)
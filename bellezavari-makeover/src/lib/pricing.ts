@@ -0,0 +1,151 @@
+/**
+ * Booking Pricing
+ *
+ * This module is the single source of truth for how much a booking costs.
+ * Both the booking page (for display) and the create-payment function
+ * (for charging) use it, so the amount shown is always the amount charged.
+ *
+ * PRICING RULES:
+ * - Service price and deposit come from the service catalog
+ * - Only the extras the service offers can be added (Service.extras), at the
+ *   service's price for them or the standard price; client-sent prices are ignored
+ * - Home service's standard price is settings.homeServiceFee
+ * - Only one extra from each group can be chosen (e.g., synthetic or human hair)
+ * - Extras are paid upfront with the deposit to avoid unpaid balances
+ *   (see globalExtras in src/data/services.ts)
+ * - The remaining service price is the balance due at the appointment
+ * - Clients flagged for no-shows pay the full price upfront (no balance due)
+ *
+ * IMPORTANT: The server must never trust amounts sent by the browser.
+ * Always recalculate with calculateBookingTotals before charging.
+ */
+
+import { Service, ServiceExtra, BookingExtras } from '@/types';
+import { HOME_SERVICE_EXTRA_ID, globalExtras } from '@/data/services';
+import { settings } from '@/data/settings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Authoritative price breakdown for a booking.
+ */
+export interface BookingTotals {
+  extras: BookingExtras[];  // Selected extras with catalog names and prices
+  subtotal: number;         // Service price
+  extrasTotal: number;      // Sum of all extras prices
+  totalPrice: number;       // subtotal + extrasTotal
+  depositAmount: number;    // Amount charged online: service deposit + extras (or full price)
+  balanceDue: number;       // Remaining amount due at appointment
+  fullPaymentRequired: boolean; // True when the full price is charged upfront
+}
+
+/**
+ * An extra as offered with a particular service: the global extra with the
+ * service's price and group applied.
+ */
+export interface OfferedExtra extends ServiceExtra {
+  group?: string;           // Only one extra per group can be chosen
+}
+
+/**
+ * Options that change how a booking is charged.
+ */
+export interface PricingOptions {
+  requireFullPayment?: boolean; // Charge the full price upfront (client has past no-shows)
+}
+
+// ============================================================================
+// EXTRAS
+// ============================================================================
+
+/**
+ * Gets the price of an extra for services that don't set their own.
+ * Home service is charged at settings.homeServiceFee, edited from the admin settings.
+ *
+ * @param extra - One of the global extras
+ * @returns The standard price in dollars
+ */
+export function getStandardExtraPrice(extra: ServiceExtra): number {
+  return extra.id === HOME_SERVICE_EXTRA_ID ? settings.homeServiceFee : extra.price;
+}
+
+/**
+ * Gets the extras a service offers, with the service's prices.
+ * Used for the extras step of the booking page and for pricing.
+ *
+ * @param service - The service being booked
+ * @returns Offered extras in the order the service lists them
+ */
+export function getExtrasForService(service: Service): OfferedExtra[] {
+  return service.extras.flatMap(option => {
+    const extra = globalExtras.find(e => e.id === option.extraId);
+    if (!extra) return []; // Listed extra no longer exists
+    return [{ ...extra, price: option.price ?? getStandardExtraPrice(extra), group: option.group }];
+  });
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Calculates the totals for a service and a set of selected extras.
+ *
+ * Duplicate extra IDs are ignored. Extras the service doesn't offer, or two
+ * extras from the same group, make the whole calculation fail, since they
+ * indicate a tampered or outdated request.
+ *
+ * @param service - The service being booked
+ * @param extraIds - IDs of the selected extras
+ * @param options - Optional pricing rules (e.g., full payment for flagged clients)
+ * @returns Object with success status and the totals, or an error message
+ */
+export function calculateBookingTotals(
+  service: Service,
+  extraIds: string[],
+  options: PricingOptions = {}
+): {
+  success: boolean;
+  totals?: BookingTotals;
+  error?: string;
+} {
+  const offeredExtras = getExtrasForService(service);
+  const extras: BookingExtras[] = [];
+  const chosenGroups = new Map<string, string>(); // group -> name of the extra chosen from it
+
+  for (const extraId of new Set(extraIds)) {
+    const extra = offeredExtras.find(e => e.id === extraId);
+    if (!extra) {
+      return { success: false, error: `${service.name} doesn't offer this extra: ${extraId}` };
+    }
+    if (extra.group) {
+      const chosen = chosenGroups.get(extra.group);
+      if (chosen) {
+        return { success: false, error: `${chosen} and ${extra.name} can't be chosen together` };
+      }
+      chosenGroups.set(extra.group, extra.name);
+    }
+    extras.push({ extraId: extra.id, name: extra.name, price: extra.price });
+  }
+
+  const subtotal = service.price;
+  const extrasTotal = extras.reduce((sum, extra) => sum + extra.price, 0);
+  const totalPrice = subtotal + extrasTotal;
+  const fullPaymentRequired = !!options.requireFullPayment;
+  const depositAmount = fullPaymentRequired ? totalPrice : service.depositAmount + extrasTotal;
+
+  return {
+    success: true,
+    totals: {
+      extras,
+      subtotal,
+      extrasTotal,
+      totalPrice,
+      depositAmount,
+      balanceDue: totalPrice - depositAmount,
+      fullPaymentRequired,
+    },
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Paystack Reconciliation
+ *
+ * Webhooks can be missed (downtime, misconfigured URL, signature errors),
+ * so the reconcile-payments function periodically compares what Paystack
+ * says was charged with what our bookings say was paid.
+ *
+ * HOW IT MATCHES:
+ * - Transactions are listed from the Paystack API for a period
+ * - Our transactions have BEL_ references; the booking ID comes from the
+ *   transaction metadata, or from the reference itself (see parseBookingReference)
+ * - A payment counts as recorded once it is in the booking's payments ledger
+ *
+ * WHAT IT REPORTS:
+ * - paidUnconfirmed: Paystack charged the client, but the payment isn't in
+ *   the ledger or the booking isn't confirmed
+ * - confirmedUnpaid: a booking is confirmed, but Paystack has no successful
+ *   charge for it in the period
+ * - amountMismatches: the amount charged differs from the amount expected
+ * - unmatchedTransactions: BEL_ charges that don't belong to any booking
+ *
+ * The API calls go through getPaystackBaseUrl(), so the job can run against
+ * a local Paystack stand-in by setting PAYSTACK_BASE_URL.
+ */
+
+import { Booking, PaymentEntry } from '@/types';
+import { fromPence, getPaystackBaseUrl, parseBookingReference, toPence } from './paystack';
+import { formatPrice } from './utils';
+
+// Paystack's maximum page size for listing transactions
+const PAGE_SIZE = 100;
+
+// Booking states that mean the deposit was accepted
+const CONFIRMED_STATUSES: Booking['bookingStatus'][] = ['confirmed', 'completed', 'no-show'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A transaction as returned by Paystack's list transactions endpoint.
+ * We only use the fields we need; Paystack sends more.
+ */
+export interface PaystackTransaction {
+  id: number;
+  reference: string;
+  amount: number;                 // Amount in cents
+  currency: string;
+  status: string;                 // "success", "failed", "abandoned", etc.
+  paid_at: string | null;
+  created_at: string;
+  metadata?: { bookingId?: string; paymentType?: string } | string | null;
+}
+
+/**
+ * One discrepancy found by the reconciliation.
+ */
+export interface ReconciliationIssue {
+  reference: string;              // Paystack reference (or the booking's deposit reference)
+  bookingId?: string;             // Booking the issue belongs to, if known
+  paidAmount?: number;            // Amount Paystack charged, in dollars
+  expectedAmount?: number;        // Amount we expected, in dollars
+  detail: string;                 // Human-readable explanation
+}
+
+/**
+ * Result of reconciling one period.
+ */
+export interface ReconciliationReport {
+  ranAt: Date;
+  from: Date;                     // Start of the period checked
+  to: Date;                       // End of the period checked
+  transactionsChecked: number;    // Our (BEL_) transactions listed by Paystack
+  bookingsChecked: number;        // Bookings compared against them
+  paidUnconfirmed: ReconciliationIssue[];
+  confirmedUnpaid: ReconciliationIssue[];
+  amountMismatches: ReconciliationIssue[];
+  unmatchedTransactions: ReconciliationIssue[];
+}
+
+/**
+ * Everything reconcilePayments compares.
+ */
+export interface ReconciliationInput {
+  from: Date;
+  to: Date;
+  transactions: PaystackTransaction[];      // All transactions Paystack listed for the period
+  bookings: Booking[];                      // Bookings created in the period plus any referenced by a transaction
+  ledgers: Record<string, PaymentEntry[]>;  // Payments ledger per booking ID
+  now?: Date;
+}
+
+// ============================================================================
+// PAYSTACK API
+// ============================================================================
+
+/**
+ * Lists all transactions created in a period, following Paystack's pagination.
+ *
+ * IMPORTANT: This is a SERVER-SIDE ONLY function (uses the secret key).
+ *
+ * @param from - Start of the period
+ * @param to - End of the period
+ * @returns Object with success status and the transactions, or an error message
+ */
+export async function listPaystackTransactions(from: Date, to: Date): Promise<{
+  success: boolean;
+  data?: PaystackTransaction[];
+  error?: string;
+}> {
+  const secretKey = process.env.PAYSTACK_SECRET_KEY;
+
+  if (!secretKey) {
+    return { success: false, error: 'Paystack secret key not configured' };
+  }
+
+  const transactions: PaystackTransaction[] = [];
+
+  try {
+    for (let page = 1; ; page++) {
+      const params = new URLSearchParams({
+        perPage: String(PAGE_SIZE),
+        page: String(page),
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+      const response = await fetch(`${getPaystackBaseUrl()}/transaction?${params}`, {
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!data.status) {
+        return { success: false, error: data.message || 'Failed to list transactions' };
+      }
+
+      transactions.push(...data.data);
+
+      const pageCount = data.meta?.pageCount ?? 1;
+      if (page >= pageCount || data.data.length === 0) break;
+    }
+
+    return { success: true, data: transactions };
+  } catch (error) {
+    console.error('Paystack list transactions error:', error);
+    return { success: false, error: 'Failed to list transactions' };
+  }
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Finds the booking ID a transaction belongs to.
+ * Prefers the ID we sent in the metadata, falling back to the reference.
+ *
+ * @param transaction - The Paystack transaction
+ * @returns The booking ID, or undefined if the transaction isn't ours
+ */
+export function getTransactionBookingId(transaction: PaystackTransaction): string | undefined {
+  const metadata = typeof transaction.metadata === 'object' ? transaction.metadata : null;
+  return metadata?.bookingId || parseBookingReference(transaction.reference)?.bookingId;
+}
+
+/**
+ * Checks if a successful charge is in the booking's records.
+ * Bookings confirmed before the payments ledger existed only have the
+ * deposit reference and payment status, so those count too.
+ */
+function isPaymentRecorded(booking: Booking, ledger: PaymentEntry[], reference: string): boolean {
+  return (
+    // Online payments are stored under their reference (refunds use their event ID)
+    ledger.some(entry => entry.id === reference) ||
+    (booking.paymentReference === reference && booking.paymentStatus !== 'pending' && booking.paymentStatus !== 'failed')
+  );
+}
+
+/**
+ * Compares Paystack transactions with bookings and their ledgers.
+ * Pure function - all data is passed in, nothing is read or written.
+ *
+ * @param input - Transactions, bookings and ledgers for the period
+ * @returns The reconciliation report
+ */
+export function reconcilePayments(input: ReconciliationInput): ReconciliationReport {
+  const { from, to, transactions, bookings, ledgers, now = new Date() } = input;
+  const bookingsById = new Map(bookings.map(booking => [booking.id, booking]));
+
+  const report: ReconciliationReport = {
+    ranAt: now,
+    from,
+    to,
+    transactionsChecked: 0,
+    bookingsChecked: bookings.length,
+    paidUnconfirmed: [],
+    confirmedUnpaid: [],
+    amountMismatches: [],
+    unmatchedTransactions: [],
+  };
+
+  // Bookings with at least one successful Paystack charge in the period
+  const paidBookingIds = new Set<string>();
+
+  for (const transaction of transactions) {
+    if (!transaction.reference?.startsWith('BEL_')) continue;
+    report.transactionsChecked++;
+
+    if (transaction.status !== 'success') continue;
+
+    const paidAmount = fromPence(transaction.amount);
+    const bookingId = getTransactionBookingId(transaction);
+    const booking = bookingId ? bookingsById.get(bookingId) : undefined;
+
+    if (!booking) {
+      report.unmatchedTransactions.push({
+        reference: transaction.reference,
+        ...(bookingId && { bookingId }), // Firestore rejects undefined fields
+        paidAmount,
+        detail: bookingId
+          ? `Charge of ${formatPrice(paidAmount)} is for booking ${bookingId}, which doesn't exist`
+          : `Charge of ${formatPrice(paidAmount)} has no booking ID`,
+      });
+      continue;
+    }
+
+    paidBookingIds.add(booking.id);
+
+    const ledger = ledgers[booking.id] || [];
+    const isBalance = parseBookingReference(transaction.reference)?.paymentType === 'balance';
+
+    if (!isPaymentRecorded(booking, ledger, transaction.reference)) {
+      report.paidUnconfirmed.push({
+        reference: transaction.reference,
+        bookingId: booking.id,
+        paidAmount,
+        detail: `${isBalance ? 'Balance' : 'Deposit'} of ${formatPrice(paidAmount)} was charged but never recorded on the booking (missed webhook?)`,
+      });
+    } else if (!isBalance && !CONFIRMED_STATUSES.includes(booking.bookingStatus)) {
+      report.paidUnconfirmed.push({
+        reference: transaction.reference,
+        bookingId: booking.id,
+        paidAmount,
+        detail: `Deposit was paid but the booking is ${booking.bookingStatus}` +
+          (booking.needsReview ? ' (flagged for review)' : ''),
+      });
+    }
+
+    // Deposits must match what we priced; balances must match what the ledger recorded
+    const ledgerEntry = ledger.find(entry => entry.id === transaction.reference);
+    const expectedAmount = isBalance ? ledgerEntry?.amount : booking.depositAmount;
+
+    if (expectedAmount !== undefined && toPence(expectedAmount) !== transaction.amount) {
+      report.amountMismatches.push({
+        reference: transaction.reference,
+        bookingId: booking.id,
+        paidAmount,
+        expectedAmount,
+        detail: `Paystack charged ${formatPrice(paidAmount)} but ${formatPrice(expectedAmount)} was expected`,
+      });
+    }
+  }
+
+  // Confirmed bookings from the period need a successful charge from the period
+  for (const booking of bookings) {
+    const createdInPeriod = booking.createdAt >= from && booking.createdAt <= to;
+    if (!createdInPeriod || !CONFIRMED_STATUSES.includes(booking.bookingStatus)) continue;
+    if (paidBookingIds.has(booking.id)) continue;
+
+    report.confirmedUnpaid.push({
+      reference: booking.paymentReference,
+      bookingId: booking.id,
+      expectedAmount: booking.depositAmount,
+      detail: `Booking is ${booking.bookingStatus} but Paystack has no successful charge for it`,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Counts the issues in a report.
+ */
+export function countReconciliationIssues(report: ReconciliationReport): number {
+  return (
+    report.paidUnconfirmed.length +
+    report.confirmedUnpaid.length +
+    report.amountMismatches.length +
+    report.unmatchedTransactions.length
+  );
+}
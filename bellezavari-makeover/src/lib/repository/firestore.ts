@@ -0,0 +1,463 @@
+/**
+ * Firestore Booking Repository
+ *
+ * Stores bookings in Firebase Firestore. Dates are stored as Firestore
+ * Timestamps and converted back to JS Dates when read.
+ *
+ * COLLECTIONS:
+ * - bookings: Stores all appointment bookings
+ *   - bookings/{id}/payments: Payments ledger for the booking (see ledger.ts)
+ * - processedPayments: Tracks processed payment references for idempotency
+ * - sweeperRuns: Summary log of each abandoned-booking sweep
+ * - clientFlags: No-show history per client email and phone
+ * - paymentEvents: Audit log of refunds and disputes received from Paystack
+ * - reconciliationReports: Results of each Paystack reconciliation run
+ * - blocks: Times a stylist is unavailable, created from the admin schedule
+ * - blockNotes: The admin's reason for each block, kept apart because blocks
+ *   are readable by the booking page (same document ID as the block)
+ * - settings: A single document (settings/business) with the business settings
+ * - scheduleLocks: One document per business day, written by every
+ *   transaction that checks that day's slots (see lockSchedule)
+ * - services: The service catalog, one document per service ID
+ *   - services/{id}/versions: Every saved version of the service
+ *
+ * IMPORTANT: Firestore security rules should be configured to:
+ * - Allow clients to create bookings (pending status only)
+ * - Only allow server (webhook) to confirm bookings
+ * - Prevent direct modification of payment-related fields
+ */
+
+import {
+  collection,
+  collectionGroup,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '../firebase';
+import { Block, Booking, ClientFlag, PaymentEntry, PaymentEvent, Service, ServiceVersion, Settings } from '@/types';
+import { BookingQuery, BookingRepository, RepositoryTransaction } from './index';
+
+// ============================================================================
+// COLLECTION NAMES
+// Using constants to avoid typos and enable easy renaming
+// ============================================================================
+
+const BOOKINGS_COLLECTION = 'bookings';
+const PAYMENTS_SUBCOLLECTION = 'payments';
+const PROCESSED_PAYMENTS_COLLECTION = 'processedPayments';
+const CLIENT_FLAGS_COLLECTION = 'clientFlags';
+const PAYMENT_EVENTS_COLLECTION = 'paymentEvents';
+const BLOCKS_COLLECTION = 'blocks';
+const BLOCK_NOTES_COLLECTION = 'blockNotes';
+const SETTINGS_COLLECTION = 'settings';
+const SETTINGS_DOCUMENT = 'business';
+const SCHEDULE_LOCKS_COLLECTION = 'scheduleLocks';
+const SERVICES_COLLECTION = 'services';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+function getDb() {
+  if (!isFirebaseConfigured || !db) {
+    throw new Error('Firebase is not configured. Please set up environment variables.');
+  }
+  return db;
+}
+
+// ============================================================================
+// TYPE CONVERSION HELPERS
+// ============================================================================
+
+/**
+ * Checks for a plain object (not a Date, Timestamp or array).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Prepares data for Firestore: JS Dates become Timestamps and undefined
+ * fields are dropped (Firestore rejects them). Applies to nested objects too.
+ */
+function toFirestoreData(value: unknown): unknown {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(toFirestoreData);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => [key, toFirestoreData(field)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Converts Firestore data back: Timestamps become JS Dates, including nested ones.
+ */
+function fromFirestoreData(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestoreData);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, fromFirestoreData(field)]));
+  }
+  return value;
+}
+
+/**
+ * Converts a Firestore document to a typed record with its ID.
+ *
+ * @param id - The document ID
+ * @param data - Firestore document data
+ * @returns The record with Dates instead of Timestamps
+ */
+function docToRecord<T>(id: string, data: DocumentData): T {
+  return { ...(fromFirestoreData(data) as object), id } as T;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Builds Firestore query constraints from a BookingQuery.
+ * Equality filters come first, then ranges, then ordering, matching the
+ * composite indexes the booking queries use.
+ */
+function toQueryConstraints(filters: BookingQuery): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+
+  if (filters.paymentReference !== undefined) {
+    constraints.push(where('paymentReference', '==', filters.paymentReference));
+  }
+  if (filters.balancePaymentReference !== undefined) {
+    constraints.push(where('balancePaymentReference', '==', filters.balancePaymentReference));
+  }
+  if (filters.bookingStatuses) {
+    constraints.push(
+      filters.bookingStatuses.length === 1
+        ? where('bookingStatus', '==', filters.bookingStatuses[0])
+        : where('bookingStatus', 'in', filters.bookingStatuses)
+    );
+  }
+  if (filters.paymentStatuses) {
+    constraints.push(
+      filters.paymentStatuses.length === 1
+        ? where('paymentStatus', '==', filters.paymentStatuses[0])
+        : where('paymentStatus', 'in', filters.paymentStatuses)
+    );
+  }
+  if (filters.startTimeFrom) constraints.push(where('startTime', '>=', Timestamp.fromDate(filters.startTimeFrom)));
+  if (filters.startTimeTo) constraints.push(where('startTime', '<=', Timestamp.fromDate(filters.startTimeTo)));
+  if (filters.createdFrom) constraints.push(where('createdAt', '>=', Timestamp.fromDate(filters.createdFrom)));
+  if (filters.createdTo) constraints.push(where('createdAt', '<=', Timestamp.fromDate(filters.createdTo)));
+  if (filters.createdBefore) constraints.push(where('createdAt', '<', Timestamp.fromDate(filters.createdBefore)));
+  if (filters.orderBy) constraints.push(orderBy(filters.orderBy, 'asc'));
+
+  return constraints;
+}
+
+// ============================================================================
+// REPOSITORY
+// ============================================================================
+
+/**
+ * Creates the Firestore repository.
+ * Fails on first use (not on creation) if Firebase isn't configured.
+ */
+export function createFirestoreRepository(): BookingRepository {
+  const repository: BookingRepository = {
+    kind: 'firestore',
+
+    async createBooking(record) {
+      const docRef = await addDoc(
+        collection(getDb(), BOOKINGS_COLLECTION),
+        toFirestoreData(record) as DocumentData
+      );
+      return docRef.id;
+    },
+
+    async getBooking(bookingId) {
+      const docSnap = await getDoc(doc(getDb(), BOOKINGS_COLLECTION, bookingId));
+      return docSnap.exists() ? docToRecord<Booking>(docSnap.id, docSnap.data()) : null;
+    },
+
+    async findBookings(filters) {
+      const q = query(collection(getDb(), BOOKINGS_COLLECTION), ...toQueryConstraints(filters));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => docToRecord<Booking>(docSnap.id, docSnap.data()));
+    },
+
+    async updateBooking(bookingId, changes) {
+      await updateDoc(
+        doc(getDb(), BOOKINGS_COLLECTION, bookingId),
+        toFirestoreData(changes) as DocumentData
+      );
+    },
+
+    async getPaymentEntries(bookingId) {
+      const q = query(
+        collection(getDb(), BOOKINGS_COLLECTION, bookingId, PAYMENTS_SUBCOLLECTION),
+        orderBy('createdAt', 'asc')
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => docToRecord<PaymentEntry>(docSnap.id, docSnap.data()));
+    },
+
+    // Collection group query across every booking's ledger (needs the
+    // payments.reference collection group index, see README)
+    async findBookingIdByPaymentEntry(reference) {
+      const q = query(
+        collectionGroup(getDb(), PAYMENTS_SUBCOLLECTION),
+        where('reference', '==', reference),
+        limit(1)
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs[0]?.ref.parent.parent?.id ?? null;
+    },
+
+    async getPaymentEvents(bookingId) {
+      const q = query(
+        collection(getDb(), PAYMENT_EVENTS_COLLECTION),
+        where('bookingId', '==', bookingId)
+      );
+      const querySnapshot = await getDocs(q);
+
+      // Sorted here rather than with orderBy so no composite index is needed
+      return querySnapshot.docs
+        .map(docSnap => docToRecord<PaymentEvent>(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+    },
+
+    async getClientFlags(flagIds) {
+      const firestore = getDb();
+      const flagSnaps = await Promise.all(
+        flagIds.map(flagId => getDoc(doc(firestore, CLIENT_FLAGS_COLLECTION, flagId)))
+      );
+      return flagSnaps
+        .filter(snap => snap.exists())
+        .map(snap => docToRecord<ClientFlag>(snap.id, snap.data()));
+    },
+
+    async createBlock(record) {
+      const firestore = getDb();
+      const { reason, ...block } = record;
+      const blockRef = doc(collection(firestore, BLOCKS_COLLECTION));
+
+      const batch = writeBatch(firestore);
+      batch.set(blockRef, toFirestoreData(block) as DocumentData);
+      if (reason) {
+        batch.set(doc(firestore, BLOCK_NOTES_COLLECTION, blockRef.id), { reason });
+      }
+      await batch.commit();
+      return blockRef.id;
+    },
+
+    async findBlocks(filters) {
+      const q = query(
+        collection(getDb(), BLOCKS_COLLECTION),
+        where('startTime', '>=', Timestamp.fromDate(filters.startTimeFrom)),
+        where('startTime', '<=', Timestamp.fromDate(filters.startTimeTo)),
+        orderBy('startTime', 'asc')
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => docToRecord<Block>(docSnap.id, docSnap.data()));
+    },
+
+    async getBlockReasons(blockIds) {
+      const firestore = getDb();
+      const noteSnaps = await Promise.all(
+        blockIds.map(blockId => getDoc(doc(firestore, BLOCK_NOTES_COLLECTION, blockId)))
+      );
+      return Object.fromEntries(
+        noteSnaps
+          .filter(snap => snap.exists())
+          .map(snap => [snap.id, snap.data().reason as string])
+      );
+    },
+
+    async deleteBlock(blockId) {
+      const firestore = getDb();
+      const batch = writeBatch(firestore);
+      batch.delete(doc(firestore, BLOCKS_COLLECTION, blockId));
+      batch.delete(doc(firestore, BLOCK_NOTES_COLLECTION, blockId));
+      await batch.commit();
+    },
+
+    async getSettings() {
+      const docSnap = await getDoc(doc(getDb(), SETTINGS_COLLECTION, SETTINGS_DOCUMENT));
+      return docSnap.exists() ? (fromFirestoreData(docSnap.data()) as Partial<Settings>) : null;
+    },
+
+    async saveSettings(settings) {
+      await setDoc(
+        doc(getDb(), SETTINGS_COLLECTION, SETTINGS_DOCUMENT),
+        toFirestoreData(settings) as DocumentData
+      );
+    },
+
+    async getServices() {
+      const querySnapshot = await getDocs(collection(getDb(), SERVICES_COLLECTION));
+      return querySnapshot.docs.map(docSnap => docToRecord<Service>(docSnap.id, docSnap.data()));
+    },
+
+    async getServiceVersions(serviceId) {
+      const q = query(
+        collection(getDb(), SERVICES_COLLECTION, serviceId, VERSIONS_SUBCOLLECTION),
+        orderBy('version', 'asc')
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => fromFirestoreData(docSnap.data()) as ServiceVersion);
+    },
+
+    // The version number is the document ID, so a version can only be saved once
+    async saveServiceVersion(version) {
+      const firestore = getDb();
+      const { id, ...service } = version.service;
+      const serviceRef = doc(firestore, SERVICES_COLLECTION, id);
+
+      await runTransaction(firestore, async (transaction) => {
+        const snap = await transaction.get(serviceRef);
+        const storedVersion = snap.exists() ? (snap.data().version as number | undefined) ?? 0 : 0;
+        if (storedVersion !== version.version - 1) {
+          throw new Error(`Service ${id} has changed since it was loaded`);
+        }
+
+        transaction.set(serviceRef, toFirestoreData(service) as DocumentData);
+        transaction.set(
+          doc(firestore, SERVICES_COLLECTION, id, VERSIONS_SUBCOLLECTION, String(version.version)),
+          toFirestoreData(version) as DocumentData
+        );
+      });
+    },
+
+    // Reads every service before writing, so a concurrent seed can't overwrite an edit
+    async seedServices(versions) {
+      const firestore = getDb();
+
+      await runTransaction(firestore, async (transaction) => {
+        const serviceRefs = versions.map(version => doc(firestore, SERVICES_COLLECTION, version.service.id));
+        const snaps = await Promise.all(serviceRefs.map(serviceRef => transaction.get(serviceRef)));
+
+        versions.forEach((version, index) => {
+          if (snaps[index].exists()) return;
+          const { id, ...service } = version.service;
+          transaction.set(serviceRefs[index], toFirestoreData(service) as DocumentData);
+          transaction.set(
+            doc(firestore, SERVICES_COLLECTION, id, VERSIONS_SUBCOLLECTION, String(version.version)),
+            toFirestoreData(version) as DocumentData
+          );
+        });
+      });
+    },
+
+    async addLogEntry(log, entry) {
+      const docRef = await addDoc(collection(getDb(), log), toFirestoreData(entry) as DocumentData);
+      return docRef.id;
+    },
+
+    async runTransaction(work) {
+      const firestore = getDb();
+
+      return runTransaction(firestore, async (transaction) => {
+        const lockedDays = new Set<string>();
+
+        const repositoryTransaction: RepositoryTransaction = {
+          async getBooking(bookingId) {
+            const snap = await transaction.get(doc(firestore, BOOKINGS_COLLECTION, bookingId));
+            return snap.exists() ? docToRecord<Booking>(snap.id, snap.data()) : null;
+          },
+
+          async isPaymentProcessed(reference) {
+            const snap = await transaction.get(doc(firestore, PROCESSED_PAYMENTS_COLLECTION, reference));
+            return snap.exists();
+          },
+
+          async hasPaymentEvent(eventId) {
+            const snap = await transaction.get(doc(firestore, PAYMENT_EVENTS_COLLECTION, eventId));
+            return snap.exists();
+          },
+
+          async getClientFlag(flagId) {
+            const snap = await transaction.get(doc(firestore, CLIENT_FLAGS_COLLECTION, flagId));
+            return snap.exists() ? docToRecord<ClientFlag>(snap.id, snap.data()) : null;
+          },
+
+          // Reading the lock makes this transaction conflict with any other that writes it
+          async lockSchedule(dateKey) {
+            await transaction.get(doc(firestore, SCHEDULE_LOCKS_COLLECTION, dateKey));
+            lockedDays.add(dateKey);
+          },
+
+          findBookings(filters) {
+            return repository.findBookings(filters);
+          },
+
+          findBlocks(filters) {
+            return repository.findBlocks(filters);
+          },
+
+          updateBooking(bookingId, changes) {
+            transaction.update(
+              doc(firestore, BOOKINGS_COLLECTION, bookingId),
+              toFirestoreData(changes) as DocumentData
+            );
+          },
+
+          addPaymentEntry(bookingId, entry, entryId) {
+            const paymentsRef = collection(firestore, BOOKINGS_COLLECTION, bookingId, PAYMENTS_SUBCOLLECTION);
+            transaction.set(
+              entryId ? doc(paymentsRef, entryId) : doc(paymentsRef),
+              toFirestoreData(entry) as DocumentData
+            );
+          },
+
+          // The reference is the document ID so isPaymentProcessed can find it
+          markPaymentProcessed(reference, bookingId) {
+            transaction.set(doc(firestore, PROCESSED_PAYMENTS_COLLECTION, reference), {
+              reference,
+              bookingId,
+              processedAt: Timestamp.now(),
+            });
+          },
+
+          addPaymentEvent({ id, ...event }) {
+            transaction.set(
+              doc(firestore, PAYMENT_EVENTS_COLLECTION, id),
+              toFirestoreData(event) as DocumentData
+            );
+          },
+
+          setClientFlag({ id, ...flag }) {
+            transaction.set(
+              doc(firestore, CLIENT_FLAGS_COLLECTION, id),
+              toFirestoreData(flag) as DocumentData,
+              { merge: true }
+            );
+          },
+        };
+
+        const result = await work(repositoryTransaction);
+
+        // Written last, since every read must come before the first write
+        lockedDays.forEach(dateKey => {
+          transaction.set(doc(firestore, SCHEDULE_LOCKS_COLLECTION, dateKey), { updatedAt: Timestamp.now() });
+        });
+        return result;
+      });
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,159 @@
+/**
+ * Booking Repository
+ *
+ * The storage layer behind db.ts. All booking rules (slot holds, idempotent
+ * payment confirmation, the payments ledger, no-show flags) live in db.ts;
+ * a repository only knows how to read and write the records.
+ *
+ * IMPLEMENTATIONS:
+ * - firestore.ts: Firebase Firestore, used whenever Firebase is configured
+ * - memory.ts: In-memory store seeded with demo data, used when Firebase
+ *   isn't configured so the site can run in demo mode. Data lives in the
+ *   current browser tab or function instance and is lost on reload.
+ *
+ * SERVICE VERSIONS:
+ * saveServiceVersion fails if the stored service isn't at the version
+ * before the one being saved, so two admins editing the same service
+ * can't overwrite each other's changes.
+ *
+ * TRANSACTIONS:
+ * Anything that must be saved together (a payment, its ledger entry and the
+ * booking totals) goes through runTransaction. Like Firestore, all reads in
+ * a transaction must happen before the first write.
+ */
+
+import { isFirebaseConfigured } from '../firebase';
+import { Block, Booking, ClientFlag, PaymentEntry, PaymentEvent, Service, ServiceVersion, Settings } from '@/types';
+import { createFirestoreRepository } from './firestore';
+import { createMemoryRepository } from './memory';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A booking as stored, before it has an ID.
+ */
+export type BookingRecord = Omit<Booking, 'id'>;
+
+/**
+ * Fields to change on a stored booking.
+ */
+export type BookingChanges = Partial<BookingRecord>;
+
+/**
+ * Filters for finding bookings. All filters are combined (AND).
+ * Only the combinations db.ts uses are backed by Firestore indexes.
+ */
+export interface BookingQuery {
+  startTimeFrom?: Date;           // startTime >= (inclusive)
+  startTimeTo?: Date;             // startTime <= (inclusive)
+  createdFrom?: Date;             // createdAt >= (inclusive)
+  createdTo?: Date;               // createdAt <= (inclusive)
+  createdBefore?: Date;           // createdAt < (exclusive)
+  bookingStatuses?: Booking['bookingStatus'][];
+  paymentStatuses?: Booking['paymentStatus'][];
+  paymentReference?: string;
+  balancePaymentReference?: string;
+  orderBy?: 'startTime' | 'createdAt';  // Always ascending
+}
+
+/**
+ * Filters for finding blocks, by start time (both inclusive).
+ */
+export interface BlockQuery {
+  startTimeFrom: Date;
+  startTimeTo: Date;
+}
+
+/**
+ * Append-only logs written by the scheduled jobs.
+ */
+export type MaintenanceLog = 'sweeperRuns' | 'reconciliationReports';
+
+/**
+ * Reads and writes that are applied atomically.
+ * Reads must all happen before the first write.
+ *
+ * Firestore can't run queries inside a transaction, so findBookings and
+ * findBlocks read outside it. They are only consistent for a business day
+ * locked with lockSchedule: every transaction that locks the same day
+ * conflicts with this one, and is retried after it with fresh results.
+ */
+export interface RepositoryTransaction {
+  getBooking(bookingId: string): Promise<Booking | null>;
+  isPaymentProcessed(reference: string): Promise<boolean>;
+  hasPaymentEvent(eventId: string): Promise<boolean>;
+  getClientFlag(flagId: string): Promise<ClientFlag | null>;
+  lockSchedule(dateKey: string): Promise<void>;                    // Business day (YYYY-MM-DD) whose slots are checked
+  findBookings(query: BookingQuery): Promise<Booking[]>;
+  findBlocks(query: BlockQuery): Promise<Block[]>;
+
+  updateBooking(bookingId: string, changes: BookingChanges): void;
+  addPaymentEntry(bookingId: string, entry: Omit<PaymentEntry, 'id'>, entryId?: string): void;
+  markPaymentProcessed(reference: string, bookingId: string): void;
+  addPaymentEvent(event: PaymentEvent): void;
+  setClientFlag(flag: ClientFlag): void;
+}
+
+/**
+ * Storage for bookings and the records that hang off them.
+ */
+export interface BookingRepository {
+  readonly kind: 'firestore' | 'memory';
+
+  createBooking(record: BookingRecord): Promise<string>;
+  getBooking(bookingId: string): Promise<Booking | null>;
+  findBookings(query: BookingQuery): Promise<Booking[]>;
+  updateBooking(bookingId: string, changes: BookingChanges): Promise<void>;
+
+  getPaymentEntries(bookingId: string): Promise<PaymentEntry[]>;   // Oldest first
+  findBookingIdByPaymentEntry(reference: string): Promise<string | null>; // Booking whose ledger has this Paystack reference
+  getPaymentEvents(bookingId: string): Promise<PaymentEvent[]>;    // Oldest first
+  getClientFlags(flagIds: string[]): Promise<ClientFlag[]>;        // Missing flags are skipped
+
+  createBlock(record: Omit<Block, 'id'>): Promise<string>;        // The reason is stored apart from the block
+  findBlocks(query: BlockQuery): Promise<Block[]>;                 // Earliest first, without reasons
+  getBlockReasons(blockIds: string[]): Promise<Record<string, string>>; // By block ID; blocks without a reason are skipped
+  deleteBlock(blockId: string): Promise<void>;
+
+  getSettings(): Promise<Partial<Settings> | null>;                // null when nothing has been saved
+  saveSettings(settings: Settings): Promise<void>;                 // Replaces the saved settings
+
+  getServices(): Promise<Service[]>;                               // Empty until the catalog is first saved
+  getServiceVersions(serviceId: string): Promise<ServiceVersion[]>; // Oldest first
+  saveServiceVersion(version: ServiceVersion): Promise<void>;      // Saves the service and its version together
+  seedServices(versions: ServiceVersion[]): Promise<void>;         // Saves first versions all at once, skipping stored services
+
+  addLogEntry(log: MaintenanceLog, entry: object): Promise<string>;
+
+  runTransaction<T>(work: (transaction: RepositoryTransaction) => Promise<T>): Promise<T>;
+}
+
+// ============================================================================
+// REPOSITORY SELECTION
+// ============================================================================
+
+/**
+ * True when Firebase isn't configured and the site runs on seeded demo data.
+ */
+export const isDemoMode = !isFirebaseConfigured;
+
+let repository: BookingRepository | null = null;
+
+/**
+ * Gets the repository for this environment, creating it on first use.
+ *
+ * @returns Firestore when Firebase is configured, otherwise the in-memory demo store
+ */
+export function getBookingRepository(): BookingRepository {
+  if (!repository) {
+    if (isDemoMode) {
+      console.warn('[Repository] Firebase is not configured - using the in-memory demo store');
+      repository = createMemoryRepository({ seed: true });
+    } else {
+      repository = createFirestoreRepository();
+    }
+  }
+  return repository;
+}
@@ -0,0 +1,300 @@
+/**
+ * In-Memory Booking Repository
+ *
+ * Keeps everything in plain Maps. Used for demo mode (when Firebase isn't
+ * configured) and anywhere a throwaway store is handy, e.g. trying out the
+ * booking rules without a database.
+ *
+ * Records are copied on the way in and out, so callers can't change stored
+ * data by mutating what they were given. Transactions run one at a time and
+ * their writes are only applied if the work completes without throwing.
+ */
+
+import { Block, Booking, ClientFlag, PaymentEntry, PaymentEvent, Service, ServiceVersion, Settings } from '@/types';
+import { createDemoData } from '@/data/demoBookings';
+import { BookingQuery, BookingRepository, MaintenanceLog, RepositoryTransaction } from './index';
+
+/**
+ * Options for creating an in-memory repository.
+ */
+export interface MemoryRepositoryOptions {
+  seed?: boolean;               // Start with the demo bookings (see data/demoBookings.ts)
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generates a Firestore-style document ID (20 letters and digits),
+ * so IDs fit into BEL_ payment references the same way.
+ */
+function generateDocumentId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length: 20 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+}
+
+/**
+ * Deep-copies a record (Dates stay Dates).
+ */
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+/**
+ * Checks a booking against every filter in a query.
+ */
+function matchesQuery(booking: Booking, filters: BookingQuery): boolean {
+  const start = booking.startTime.getTime();
+  const created = booking.createdAt.getTime();
+
+  return (
+    (filters.paymentReference === undefined || booking.paymentReference === filters.paymentReference) &&
+    (filters.balancePaymentReference === undefined ||
+      booking.balancePaymentReference === filters.balancePaymentReference) &&
+    (!filters.bookingStatuses || filters.bookingStatuses.includes(booking.bookingStatus)) &&
+    (!filters.paymentStatuses || filters.paymentStatuses.includes(booking.paymentStatus)) &&
+    (!filters.startTimeFrom || start >= filters.startTimeFrom.getTime()) &&
+    (!filters.startTimeTo || start <= filters.startTimeTo.getTime()) &&
+    (!filters.createdFrom || created >= filters.createdFrom.getTime()) &&
+    (!filters.createdTo || created <= filters.createdTo.getTime()) &&
+    (!filters.createdBefore || created < filters.createdBefore.getTime())
+  );
+}
+
+// ============================================================================
+// REPOSITORY
+// ============================================================================
+
+/**
+ * Creates an in-memory repository.
+ *
+ * @param options - Whether to seed the demo data
+ * @returns A repository holding its data for as long as it is referenced
+ */
+export function createMemoryRepository(options: MemoryRepositoryOptions = {}): BookingRepository {
+  const bookings = new Map<string, Booking>();
+  const payments = new Map<string, PaymentEntry[]>();
+  const processedPayments = new Set<string>();
+  const paymentEvents = new Map<string, PaymentEvent>();
+  const clientFlags = new Map<string, ClientFlag>();
+  const blocks = new Map<string, Block>();
+  const blockReasons = new Map<string, string>();   // Kept apart from blocks, like the Firestore blockNotes
+  let savedSettings: Settings | null = null;
+  const services = new Map<string, Service>();
+  const serviceVersions = new Map<string, ServiceVersion[]>();
+  const logs: Record<MaintenanceLog, object[]> = { sweeperRuns: [], reconciliationReports: [] };
+
+  // Each transaction waits for the previous one to finish
+  let transactionQueue: Promise<unknown> = Promise.resolve();
+
+  if (options.seed) {
+    const demo = createDemoData();
+    demo.bookings.forEach(booking => bookings.set(booking.id, copy(booking)));
+    Object.entries(demo.payments).forEach(([bookingId, entries]) => payments.set(bookingId, copy(entries)));
+  }
+
+  const updateStoredBooking = (bookingId: string, changes: Partial<Booking>) => {
+    const booking = bookings.get(bookingId);
+    if (!booking) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    bookings.set(bookingId, { ...booking, ...copy(changes), id: bookingId });
+  };
+
+  const repository: BookingRepository = {
+    kind: 'memory',
+
+    async createBooking(record) {
+      const id = generateDocumentId();
+      bookings.set(id, { ...copy(record), id });
+      return id;
+    },
+
+    async getBooking(bookingId) {
+      const booking = bookings.get(bookingId);
+      return booking ? copy(booking) : null;
+    },
+
+    async findBookings(filters) {
+      const matches = [...bookings.values()].filter(booking => matchesQuery(booking, filters));
+      const sortField = filters.orderBy;
+      if (sortField) {
+        matches.sort((a, b) => a[sortField].getTime() - b[sortField].getTime());
+      }
+      return matches.map(copy);
+    },
+
+    async updateBooking(bookingId, changes) {
+      updateStoredBooking(bookingId, changes);
+    },
+
+    async getPaymentEntries(bookingId) {
+      return copy(payments.get(bookingId) || [])
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+
+    async findBookingIdByPaymentEntry(reference) {
+      const match = [...payments.entries()].find(([, entries]) =>
+        entries.some(entry => entry.reference === reference)
+      );
+      return match ? match[0] : null;
+    },
+
+    async getPaymentEvents(bookingId) {
+      return [...paymentEvents.values()]
+        .filter(event => event.bookingId === bookingId)
+        .map(copy)
+        .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+    },
+
+    async getClientFlags(flagIds) {
+      return flagIds
+        .map(flagId => clientFlags.get(flagId))
+        .filter((flag): flag is ClientFlag => Boolean(flag))
+        .map(copy);
+    },
+
+    async createBlock(record) {
+      const id = generateDocumentId();
+      const { reason, ...block } = copy(record);
+      blocks.set(id, { ...block, id });
+      if (reason) blockReasons.set(id, reason);
+      return id;
+    },
+
+    async findBlocks(filters) {
+      return [...blocks.values()]
+        .filter(block =>
+          block.startTime.getTime() >= filters.startTimeFrom.getTime() &&
+          block.startTime.getTime() <= filters.startTimeTo.getTime()
+        )
+        .map(copy)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    },
+
+    async getBlockReasons(blockIds) {
+      return Object.fromEntries(
+        blockIds
+          .filter(blockId => blockReasons.has(blockId))
+          .map(blockId => [blockId, blockReasons.get(blockId)!])
+      );
+    },
+
+    async deleteBlock(blockId) {
+      blocks.delete(blockId);
+      blockReasons.delete(blockId);
+    },
+
+    async getSettings() {
+      return savedSettings ? copy(savedSettings) : null;
+    },
+
+    async saveSettings(settings) {
+      savedSettings = copy(settings);
+    },
+
+    async getServices() {
+      return [...services.values()].map(copy);
+    },
+
+    async getServiceVersions(serviceId) {
+      return copy(serviceVersions.get(serviceId) || []);
+    },
+
+    async saveServiceVersion(version) {
+      const { id } = version.service;
+      if ((services.get(id)?.version ?? 0) !== version.version - 1) {
+        throw new Error(`Service ${id} has changed since it was loaded`);
+      }
+      services.set(id, copy(version.service));
+      serviceVersions.set(id, [...(serviceVersions.get(id) || []), copy(version)]);
+    },
+
+    async seedServices(versions) {
+      versions
+        .filter(version => !services.has(version.service.id))
+        .forEach(version => {
+          services.set(version.service.id, copy(version.service));
+          serviceVersions.set(version.service.id, [copy(version)]);
+        });
+    },
+
+    async addLogEntry(log, entry) {
+      logs[log].push(copy(entry));
+      return `${log}-${logs[log].length}`;
+    },
+
+    runTransaction<T>(work: (transaction: RepositoryTransaction) => Promise<T>): Promise<T> {
+      const run = transactionQueue.then(async () => {
+        // Writes are collected and only applied once the work succeeds
+        const writes: (() => void)[] = [];
+
+        const transaction: RepositoryTransaction = {
+          async getBooking(bookingId) {
+            const booking = bookings.get(bookingId);
+            return booking ? copy(booking) : null;
+          },
+
+          async isPaymentProcessed(reference) {
+            return processedPayments.has(reference);
+          },
+
+          async hasPaymentEvent(eventId) {
+            return paymentEvents.has(eventId);
+          },
+
+          async getClientFlag(flagId) {
+            const flag = clientFlags.get(flagId);
+            return flag ? copy(flag) : null;
+          },
+
+          // Transactions already run one at a time
+          async lockSchedule() {},
+
+          findBookings(filters) {
+            return repository.findBookings(filters);
+          },
+
+          findBlocks(filters) {
+            return repository.findBlocks(filters);
+          },
+
+          updateBooking(bookingId, changes) {
+            writes.push(() => updateStoredBooking(bookingId, changes));
+          },
+
+          addPaymentEntry(bookingId, entry, entryId) {
+            writes.push(() => {
+              const id = entryId || generateDocumentId();
+              const entries = (payments.get(bookingId) || []).filter(existing => existing.id !== id);
+              payments.set(bookingId, [...entries, { ...copy(entry), id }]);
+            });
+          },
+
+          markPaymentProcessed(reference) {
+            writes.push(() => processedPayments.add(reference));
+          },
+
+          addPaymentEvent(event) {
+            writes.push(() => paymentEvents.set(event.id, copy(event)));
+          },
+
+          setClientFlag(flag) {
+            writes.push(() => clientFlags.set(flag.id, { ...clientFlags.get(flag.id), ...copy(flag) }));
+          },
+        };
+
+        const result = await work(transaction);
+        writes.forEach(write => write());
+        return result;
+      });
+
+      // A failed transaction must not block the ones after it
+      transactionQueue = run.catch(() => undefined);
+      return run;
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,321 @@
+/**
+ * Runtime Business Settings
+ *
+ * Loads the admin-edited business settings from storage and applies them
+ * to the shared settings object in src/data/settings.ts, so every module
+ * that reads settings picks up the saved values.
+ *
+ * HOW IT WORKS:
+ * - The saved settings live in one document (settings/business)
+ * - Saved values are merged over the defaults in src/data/settings.ts, so
+ *   fields added to the code later still get a value
+ * - The result is validated; if the saved document is invalid the defaults
+ *   are used instead, so a bad save can never take the booking system down
+ * - Loaded settings are cached for SETTINGS_CACHE_MS so each request
+ *   doesn't read the document again
+ *
+ * Netlify Functions call loadSettings at the start of each request; the
+ * browser loads them once per visit through SettingsProvider.
+ *
+ * The timezone and currency can't be changed here: stored booking times
+ * and Paystack amounts depend on them, so they always come from the code.
+ */
+
+import { Settings, WorkingHours } from '@/types';
+import { defaultSettings, settings } from '@/data/settings';
+import { getSavedSettings, saveSettingsDocument } from './db';
+import { isValidEmail } from './utils';
+
+/**
+ * How long loaded settings are reused before being read again.
+ */
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+/**
+ * Settings that always come from src/data/settings.ts.
+ */
+const FIXED_FIELDS = ['timezone', 'currency', 'currencySymbol'] as const;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/; // HH:MM, 24-hour
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;       // YYYY-MM-DD
+
+let loadedAt = 0;
+let pendingLoad: Promise<Settings> | null = null;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Checks for a whole number that is at least a minimum.
+ */
+function isWholeNumber(value: unknown, min: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+/**
+ * Checks for a real calendar date in 'YYYY-MM-DD' format.
+ * Example: '2024-12-25' -> true, '2024-02-30' -> false
+ */
+function isValidDateKey(value: unknown): boolean {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Checks that a timezone is a known IANA timezone.
+ */
+function isValidTimezone(value: unknown): boolean {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the working hours: one entry for each day of the week, with
+ * valid times and, on open days, closing after opening.
+ */
+function validateWorkingHours(workingHours: unknown): string[] {
+  if (!Array.isArray(workingHours) || workingHours.length !== 7) {
+    return ['Working hours must have exactly 7 entries, one for each day of the week'];
+  }
+
+  const errors: string[] = [];
+  const seenDays = new Set<number>();
+
+  (workingHours as WorkingHours[]).forEach((day, index) => {
+    const label = isWholeNumber(day?.dayOfWeek, 0) && day.dayOfWeek <= 6
+      ? `Day ${day.dayOfWeek}`
+      : `Working hours entry ${index + 1}`;
+
+    if (!isWholeNumber(day?.dayOfWeek, 0) || day.dayOfWeek > 6) {
+      errors.push(`${label}: dayOfWeek must be 0 (Sunday) to 6 (Saturday)`);
+      return;
+    }
+    if (seenDays.has(day.dayOfWeek)) {
+      errors.push(`${label}: listed more than once`);
+    }
+    seenDays.add(day.dayOfWeek);
+
+    if (typeof day.isOpen !== 'boolean') {
+      errors.push(`${label}: isOpen must be true or false`);
+    }
+    if (!TIME_PATTERN.test(String(day.openTime))) {
+      errors.push(`${label}: opening time must be HH:MM`);
+    }
+    if (!TIME_PATTERN.test(String(day.closeTime))) {
+      errors.push(`${label}: closing time must be HH:MM`);
+    }
+    // HH:MM strings compare in time order
+    if (day.isOpen && TIME_PATTERN.test(day.openTime) && TIME_PATTERN.test(day.closeTime) &&
+        day.closeTime <= day.openTime) {
+      errors.push(`${label}: closing time must be after opening time`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validates a complete set of settings.
+ *
+ * On success, the returned settings are tidied up: text is trimmed,
+ * working hours are sorted Sunday to Saturday and off days are sorted
+ * with duplicates removed.
+ *
+ * @param values - The settings to check
+ * @returns Object with success status and the tidied settings, or every problem found
+ */
+export function validateSettings(values: Settings): {
+  success: boolean;
+  settings?: Settings;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (typeof values.businessName !== 'string' || !values.businessName.trim()) {
+    errors.push('Business name is required');
+  }
+  if (!isValidTimezone(values.timezone)) {
+    errors.push('Timezone must be a valid IANA timezone (e.g., America/Toronto)');
+  }
+
+  errors.push(...validateWorkingHours(values.workingHours));
+
+  if (!Array.isArray(values.offDays)) {
+    errors.push('Off days must be a list of dates');
+  } else {
+    values.offDays
+      .filter(day => !isValidDateKey(day))
+      .forEach(day => errors.push(`Off day "${day}" must be a valid date in YYYY-MM-DD format`));
+  }
+
+  if (!isWholeNumber(values.bufferMinutes, 0)) {
+    errors.push('Buffer time must be a whole number of minutes (0 or more)');
+  }
+  if (!isWholeNumber(values.slotHoldMinutes, 1)) {
+    errors.push('Slot hold must be a whole number of minutes (at least 1)');
+  }
+  if (!isWholeNumber(values.rescheduleNoticeHours, 0)) {
+    errors.push('Reschedule notice must be a whole number of hours (0 or more)');
+  }
+  if (!isWholeNumber(values.noShowsBeforeFullPayment, 1)) {
+    errors.push('No-shows before full payment must be a whole number (at least 1)');
+  }
+  if (typeof values.homeServiceFee !== 'number' || !(values.homeServiceFee >= 0)) {
+    errors.push('Home service fee must be 0 or more');
+  }
+
+  if (typeof values.currency !== 'string' || !/^[A-Z]{3}$/.test(values.currency)) {
+    errors.push('Currency must be a 3-letter ISO code (e.g., CAD)');
+  }
+  if (typeof values.currencySymbol !== 'string' || !values.currencySymbol) {
+    errors.push('Currency symbol is required');
+  }
+
+  const location = values.location;
+  if (!location || typeof location.city !== 'string' || !location.city.trim() ||
+      typeof location.address !== 'string' || typeof location.postcode !== 'string') {
+    errors.push('Location must include a city');
+  }
+
+  // Contact details are optional, but must be valid when given
+  if (typeof values.contactEmail !== 'string' ||
+      (values.contactEmail.trim() && !isValidEmail(values.contactEmail.trim()))) {
+    errors.push('Contact email must be a valid email address');
+  }
+  if (typeof values.contactPhone !== 'string') {
+    errors.push('Contact phone must be text');
+  }
+  if (typeof values.instagramUrl !== 'string' ||
+      (values.instagramUrl.trim() && !/^https?:\/\//.test(values.instagramUrl.trim()))) {
+    errors.push('Instagram URL must start with https://');
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    errors,
+    settings: {
+      ...values,
+      businessName: values.businessName.trim(),
+      workingHours: [...values.workingHours]
+        .map(({ dayOfWeek, isOpen, openTime, closeTime }) => ({ dayOfWeek, isOpen, openTime, closeTime }))
+        .sort((a, b) => a.dayOfWeek - b.dayOfWeek),
+      offDays: [...new Set(values.offDays)].sort(),
+      location: {
+        address: location.address.trim(),
+        city: location.city.trim(),
+        postcode: location.postcode.trim(),
+      },
+      instagramUrl: values.instagramUrl.trim(),
+      contactEmail: values.contactEmail.trim(),
+      contactPhone: values.contactPhone.trim(),
+    },
+  };
+}
+
+// ============================================================================
+// LOADING AND SAVING
+// ============================================================================
+
+/**
+ * Merges saved values over the defaults. Fixed fields always keep their
+ * default values.
+ */
+function mergeWithDefaults(saved: Partial<Settings> | null): Settings {
+  const defaults = structuredClone(defaultSettings);
+  const merged: Settings = {
+    ...defaults,
+    ...saved,
+    location: { ...defaults.location, ...saved?.location },
+  };
+
+  FIXED_FIELDS.forEach(field => {
+    merged[field] = defaults[field];
+  });
+  return merged;
+}
+
+/**
+ * Replaces the values in the shared settings object.
+ */
+function applySettings(values: Settings): void {
+  Object.assign(settings, structuredClone(values));
+  loadedAt = Date.now();
+}
+
+/**
+ * Reads, validates and applies the saved settings.
+ * Keeps the current settings if the read fails.
+ */
+async function readSettings(): Promise<Settings> {
+  try {
+    const result = validateSettings(mergeWithDefaults(await getSavedSettings()));
+
+    if (result.success && result.settings) {
+      applySettings(result.settings);
+    } else {
+      console.warn('[Settings] Saved settings are invalid - using the defaults:', result.errors);
+      applySettings(defaultSettings);
+    }
+  } catch (error) {
+    console.error('[Settings] Failed to load settings - keeping the current values:', error);
+    loadedAt = Date.now(); // Don't retry on every call while storage is down
+  }
+
+  return settings;
+}
+
+/**
+ * Loads the saved settings into the shared settings object.
+ *
+ * Safe to call often: settings loaded within the last minute are reused,
+ * and calls made while a load is in progress share it.
+ *
+ * @param options - Set force to read the saved settings even if cached
+ * @returns The settings now in use
+ */
+export async function loadSettings(options: { force?: boolean } = {}): Promise<Settings> {
+  if (!options.force && loadedAt && Date.now() - loadedAt < SETTINGS_CACHE_MS) {
+    return settings;
+  }
+
+  if (!pendingLoad) {
+    pendingLoad = readSettings().finally(() => {
+      pendingLoad = null;
+    });
+  }
+  return pendingLoad;
+}
+
+/**
+ * Validates and saves new settings, then applies them.
+ * Called from the admin settings page.
+ *
+ * @param values - The complete settings to save
+ * @returns Object with success status and the saved settings, or the validation errors
+ */
+export async function saveSettings(values: Settings): Promise<{
+  success: boolean;
+  settings?: Settings;
+  errors: string[];
+}> {
+  const result = validateSettings(mergeWithDefaults(values));
+  if (!result.success || !result.settings) {
+    return result;
+  }
+
+  await saveSettingsDocument(result.settings);
+  applySettings(result.settings);
+  return result;
+}
@@ -0,0 +1,132 @@
+/**
+ * Booking Link Tokens
+ *
+ * This module creates and verifies the signed tokens used in "manage your
+ * booking" links. A token lets a client view, reschedule or cancel one
+ * booking without an account.
+ *
+ * TOKEN FORMAT:
+ * base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+ * The payload holds the booking ID and an expiry time. Changing either one
+ * invalidates the signature.
+ *
+ * EXPIRY:
+ * Links stay valid until the appointment ends. After that there is nothing
+ * left to manage, so an old email can't be used to act on the booking.
+ *
+ * CONFIGURATION:
+ * - BOOKING_LINK_SECRET: Long random string used to sign tokens
+ *   (e.g., `openssl rand -hex 32`). Rotating it invalidates all links.
+ *
+ * IMPORTANT: This is a SERVER-SIDE ONLY module (the secret must stay secret).
+ */
+
+import * as crypto from 'crypto';
+import { Booking } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Data signed into a booking link token.
+ */
+interface BookingTokenPayload {
+  b: string;    // Booking ID
+  exp: number;  // Expiry as a Unix timestamp in seconds
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reads the signing secret from the environment.
+ * Returns null when not configured (links are then left out of emails).
+ */
+function getSecret(): string | null {
+  return process.env.BOOKING_LINK_SECRET || null;
+}
+
+/**
+ * Signs a token payload with HMAC-SHA256.
+ */
+function sign(encodedPayload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * Creates a signed management token for a booking.
+ *
+ * @param booking - The booking the link is for
+ * @returns The token, or null if BOOKING_LINK_SECRET is not configured
+ */
+export function createBookingToken(booking: Pick<Booking, 'id' | 'endTime'>): string | null {
+  const secret = getSecret();
+  if (!secret) {
+    console.warn('[Tokens] BOOKING_LINK_SECRET not configured, skipping booking link');
+    return null;
+  }
+
+  const payload: BookingTokenPayload = {
+    b: booking.id,
+    exp: Math.floor(new Date(booking.endTime).getTime() / 1000),
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+}
+
+/**
+ * Verifies a booking management token.
+ * Rejects tokens with a bad signature, a malformed payload, or a past expiry.
+ *
+ * @param token - Token from the manage link
+ * @param now - Reference time (defaults to now)
+ * @returns Object with success status and the booking ID, or an error message
+ */
+export function verifyBookingToken(
+  token: string,
+  now: Date = new Date()
+): {
+  success: boolean;
+  bookingId?: string;
+  error?: string;
+} {
+  const secret = getSecret();
+  if (!secret) {
+    return { success: false, error: 'Booking links are not configured' };
+  }
+
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { success: false, error: 'Invalid link' };
+  }
+
+  // Constant-time comparison so the signature can't be guessed byte by byte
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { success: false, error: 'Invalid link' };
+  }
+
+  let payload: BookingTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { success: false, error: 'Invalid link' };
+  }
+
+  if (typeof payload.b !== 'string' || typeof payload.exp !== 'number') {
+    return { success: false, error: 'Invalid link' };
+  }
+
+  if (payload.exp * 1000 <= now.getTime()) {
+    return { success: false, error: 'This link has expired' };
+  }
+
+  return { success: true, bookingId: payload.b };
+}
@@ -12,6 +12,7 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { getBusinessToday } from './availability';
 
 // ============================================================================
 // TAILWIND CSS UTILITIES
@@ -141,6 +142,19 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Hashes the hold secret the booking page keeps for its pending booking.
+ * Only the hash is stored on the booking, so reading the booking doesn't
+ * reveal the secret needed to release its hold.
+ * 
+ * @param secret - Secret returned by createBooking
+ * @returns SHA-256 of the secret as hex
+ */
+export async function hashHoldSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 // ============================================================================
 // VALIDATION FUNCTIONS
 // ============================================================================
@@ -182,6 +196,29 @@ export function isValidPhone(phone: string): boolean {
   return phoneRegex.test(cleaned);
 }
 
+/**
+ * Normalizes an email address for matching the same client across bookings.
+ * Example: "  Jane.Doe@Example.com " -> "jane.doe@example.com"
+ * 
+ * @param email - Email as entered by the client
+ * @returns Trimmed, lowercase email
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Normalizes a North American phone number to its 10 digits.
+ * Example: "+1 (416) 555-1234" -> "4165551234"
+ * 
+ * @param phone - Phone as entered by the client
+ * @returns Digits only, without the leading country code
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
 // ============================================================================
 // SERVICE DISPLAY HELPERS
 // ============================================================================
@@ -247,13 +284,14 @@ export function isPastDate(date: Date): boolean {
 /**
  * Gets the minimum allowed booking date (tomorrow).
  * Clients cannot book same-day appointments through the website.
+ * "Tomorrow" is in the business timezone, so a late-evening visitor
+ * elsewhere doesn't skip or gain a day.
  * 
- * @returns Date object set to tomorrow at midnight
+ * @returns Calendar date for tomorrow (local midnight)
  */
 export function getMinBookingDate(): Date {
-  const tomorrow = new Date();
+  const tomorrow = getBusinessToday();
   tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(0, 0, 0, 0);
   return tomorrow;
 }
 
@@ -20,6 +20,16 @@ export interface ServiceExtra {
   description?: string; // Optional description shown to clients
 }
 
+/**
+ * An extra offered with a particular service: which of the global extras
+ * applies, at what price, and which other extras it can't be combined with.
+ */
+export interface ServiceExtraOption {
+  extraId: string;      // ServiceExtra.id from globalExtras
+  price?: number;       // Price for this service (defaults to the global extra's price)
+  group?: string;       // Only one extra per group can be chosen (e.g., 'hair')
+}
+
 /**
  * Represents a hair styling service offered by Bellezavari.
  * This is the core entity that clients book.
@@ -33,10 +43,45 @@ export interface Service {
   durationMinutes: number;       // Expected service duration in minutes
   allowedStartTimes: string[];   // Valid start times in 24h format (e.g., ["09:00", "11:00"])
                                  // CRITICAL: Long services (7+ hours) should only have early times
-  extras: ServiceExtra[];        // Service-specific extras (currently unused, using global extras)
+  canSpanBreaks?: boolean;       // Can run through the stylist's breaks (long braiding services usually can)
+  extras: ServiceExtraOption[];  // Extras offered with this service (no others can be added)
   category: 'braids' | 'locs' | 'weaves' | 'natural' | 'other'; // Service category for filtering
   imageUrl?: string;             // Optional image URL for the service card
   isActive: boolean;             // Whether the service is currently available for booking
+  version?: number;              // Catalog version, bumped on every admin change (unset for the built-in catalog)
+  updatedAt?: Date;              // When the service was last changed from the admin
+  deletedAt?: Date;              // Removed from the catalog; kept so existing bookings still find it
+}
+
+/**
+ * A saved version of a service, kept every time the service is changed
+ * from the admin so past prices and details can be looked up.
+ */
+export interface ServiceVersion {
+  version: number;               // Matches Service.version after the change
+  change: 'created' | 'updated' | 'deleted';
+  service: Service;              // The service as saved
+  savedAt: Date;
+}
+
+// ============================================================================
+// STYLIST TYPES
+// ============================================================================
+
+/**
+ * Represents a stylist who takes bookings.
+ * Each stylist has their own hours, days off and calendar of bookings,
+ * so two stylists can be booked at the same time.
+ */
+export interface Stylist {
+  id: string;                    // Unique identifier (e.g., 'vari')
+  name: string;                  // Display name shown to clients
+  title: string;                 // Role shown under the name (e.g., "Lead Stylist")
+  serviceIds: string[];          // Services this stylist performs (Service.id)
+  categories?: Service['category'][]; // Whole categories they perform, including services added later
+  workingHours: WorkingHours[];  // Array of 7 entries, one per day of week
+  offDays: string[];             // Dates this stylist is away, in 'YYYY-MM-DD' format
+  isActive: boolean;             // Whether the stylist is currently taking bookings
 }
 
 // ============================================================================
@@ -73,36 +118,150 @@ export interface Booking {
   id: string;                   // Firestore document ID
   serviceId: string;            // Reference to the booked service
   serviceName: string;          // Service name at time of booking
+  serviceVersion?: number;      // Catalog version the booking was priced from (see ServiceVersion)
+  stylistId?: string;           // Stylist doing the appointment (Stylist.id); missing on bookings
+                                // made before stylists existed (see getBookingStylistId)
   startTime: Date;              // Appointment start datetime
   endTime: Date;                // Appointment end datetime (calculated from duration)
   client: ClientDetails;        // Client information
   extras: BookingExtras[];      // Selected add-ons
   subtotal: number;             // Service price
   extrasTotal: number;          // Sum of all extras prices
-  depositAmount: number;        // Deposit that was paid
-  totalPaid: number;            // Amount actually paid (usually equals deposit)
-  balanceDue: number;           // Remaining amount due at appointment
-  paymentReference: string;     // Paystack transaction reference
+  depositAmount: number;        // Deposit charged online at booking
+  totalPaid: number;            // Net amount paid towards the booking (derived from the payments ledger)
+  balanceDue: number;           // Remaining amount due (derived from the payments ledger)
+  paymentReference: string;     // Paystack reference of the deposit
   paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded'; // Payment state
   bookingStatus: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no-show'; // Booking state
   createdAt: Date;              // When the booking was created
   updatedAt: Date;              // Last modification timestamp
   policyAcknowledged: boolean;  // Client confirmed they read policies
+  holdExpiresAt?: Date;         // Pending bookings only block the slot until this time
+  holdSecretHash?: string;      // Hash of the secret the booking page uses to release its hold
+  needsReview?: boolean;        // Flagged for admin attention (e.g., paid after hold expired)
+  reviewReason?: string;        // Why the booking was flagged for review
+  paymentFailureReason?: string; // Gateway response from the last failed payment attempt
+  retryPaymentUrl?: string;     // Link for the client to retry payment while the hold lasts
+  cancellationReason?: string;  // Why the booking was cancelled (e.g., "abandoned")
+  previousStartTime?: Date;     // Start time before the most recent reschedule
+  rescheduleCount?: number;     // How many times the client has rescheduled
+  fullPaymentRequired?: boolean; // Full price charged upfront because of past no-shows
+  tipsTotal?: number;           // Tips recorded in the payments ledger (not part of totalPaid)
+  refundedAmount?: number;      // Total refunded through Paystack (refunds and lost disputes)
+  refundStatus?: 'processed' | 'failed'; // Outcome of the most recent refund
+  dispute?: BookingDispute;     // Chargeback raised against this booking's payment
+  balancePaymentReference?: string; // Latest online balance payment (BEL_BAL_...)
+  balancePaymentStatus?: 'pending' | 'paid' | 'failed'; // State of that balance payment
+  balanceReminderSentAt?: Date; // When the balance reminder email was sent (sent once)
+}
+
+/**
+ * A period when a stylist (or the whole salon) can't take appointments,
+ * such as a doctor's appointment from 14:00 to 16:00.
+ * Stored in the blocks collection and created from the admin schedule.
+ * The availability engine treats blocks like bookings.
+ */
+export interface Block {
+  id: string;                   // Firestore document ID
+  stylistId?: string;           // Stylist who is unavailable (omitted = every stylist)
+  startTime: Date;              // Start of the blocked period
+  endTime: Date;                // End of the blocked period
+  reason?: string;              // Admin note (e.g., "Doctor's appointment"); stored apart and only read by the admin
+  createdAt: Date;
+}
+
+/**
+ * One entry in a booking's payments ledger (bookings/{id}/payments).
+ * The booking's totalPaid, balanceDue, tipsTotal and refundedAmount are
+ * derived from these entries and updated in the same transaction.
+ */
+export interface PaymentEntry {
+  id: string;                   // Paystack reference or event ID, or an auto ID for in-person payments
+  type: 'deposit' | 'balance' | 'tip' | 'refund'; // What the money was for
+  method: 'paystack' | 'cash' | 'card' | 'e-transfer' | 'other'; // How it was paid
+  amount: number;               // Amount in dollars (always positive; refunds are subtracted)
+  reference?: string;           // Paystack transaction reference, if paid online
+  note?: string;                // Free-text note (e.g., who took the cash)
+  createdAt: Date;              // When the payment was recorded
+}
+
+/**
+ * A chargeback dispute raised by the client's bank through Paystack.
+ */
+export interface BookingDispute {
+  id: string;                   // Paystack dispute ID
+  status: string;               // Paystack dispute status (e.g., "awaiting-merchant-feedback", "resolved")
+  category?: string;            // "chargeback" or "fraud"
+  resolution?: string;          // Set when resolved: "merchant-accepted" (client refunded) or "declined"
+  refundAmount?: number;        // Amount the client is disputing
+  openedAt: Date;
+  resolvedAt?: Date;
+}
+
+/**
+ * Audit entry for a payment exception (refund or dispute) received from Paystack.
+ * Stored in the paymentEvents collection, keyed by Paystack event and ID,
+ * so repeated webhook deliveries are only recorded once.
+ */
+export interface PaymentEvent {
+  id: string;                   // e.g. "refund.processed:3018284"
+  bookingId: string;            // Booking the payment belongs to
+  event: string;                // Paystack event type
+  reference: string;            // Transaction reference the event is about
+  status: string;               // Paystack status for the refund or dispute
+  amount: number;               // Amount refunded or disputed, in dollars
+  summary: string;              // Human-readable description for the admin page
+  receivedAt: Date;
+}
+
+/**
+ * No-show history for one client identifier (email or phone).
+ * Stored in the clientFlags collection, one document per identifier,
+ * so a client is matched even if they change one of the two.
+ */
+export interface ClientFlag {
+  id: string;                   // Document ID, e.g. "email:jane@example.com" or "phone:4165551234"
+  type: 'email' | 'phone';      // Which identifier this flag is for
+  value: string;                // Normalized email or phone
+  noShowCount: number;          // All-time no-shows (kept when the flag is cleared)
+  activeNoShows: number;        // No-shows since the flag was last cleared
+  requiresFullPayment: boolean; // Must pay the full price upfront for new bookings
+  noShowBookingIds: string[];   // Bookings marked as no-show
+  lastNoShowAt?: Date;          // Most recent no-show
+  clearedAt?: Date;             // When an admin last cleared the flag
+  updatedAt: Date;
+}
+
+/**
+ * Combined no-show status for a client, across their email and phone flags.
+ */
+export interface ClientNoShowStatus {
+  requiresFullPayment: boolean; // True if either identifier is flagged
+  noShowCount: number;          // Highest all-time count across identifiers
 }
 
 // ============================================================================
 // SETTINGS TYPES
 // ============================================================================
 
+/**
+ * A range of time within a day, in 24h format.
+ */
+export interface TimeRange {
+  start: string;      // Start time (e.g., "12:30")
+  end: string;        // End time (e.g., "13:00")
+}
+
 /**
  * Defines working hours for a specific day of the week.
- * Used to determine available booking days and times.
+ * Used for the salon's opening hours and for each stylist's hours.
  */
 export interface WorkingHours {
   dayOfWeek: number;  // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-  isOpen: boolean;    // Whether the business is open this day
+  isOpen: boolean;    // Whether the salon is open (or the stylist works) this day
   openTime: string;   // Opening time in 24h format (e.g., "09:00")
   closeTime: string;  // Closing time in 24h format (e.g., "19:00")
+  breaks?: TimeRange[]; // Recurring breaks that day (e.g., lunch); only services with canSpanBreaks run through them
 }
 
 /**
@@ -112,9 +271,12 @@ export interface WorkingHours {
 export interface Settings {
   businessName: string;           // Business name (e.g., "Bellezavari")
   timezone: string;               // IANA timezone (e.g., "America/Toronto")
-  workingHours: WorkingHours[];   // Array of 7 entries, one per day of week
-  offDays: string[];              // Specific closed dates in 'YYYY-MM-DD' format
+  workingHours: WorkingHours[];   // Salon opening hours, one entry per day of week (stylists' hours are cut to these)
+  offDays: string[];              // Dates the whole salon is closed, in 'YYYY-MM-DD' format
   bufferMinutes: number;          // Minutes between appointments for cleanup/prep
+  slotHoldMinutes: number;        // How long an unpaid booking holds its slot during checkout
+  rescheduleNoticeHours: number;  // Minimum notice for a client to reschedule online
+  noShowsBeforeFullPayment: number; // No-shows after which a client must pay in full upfront
   currency: string;               // ISO currency code (e.g., "CAD")
   currencySymbol: string;         // Currency symbol for display (e.g., "$")
   location: {
@@ -139,6 +301,7 @@ export interface Settings {
 export interface BookingFlowState {
   step: 'service' | 'date' | 'time' | 'extras' | 'details' | 'review' | 'payment';
   selectedService: Service | null;      // Service chosen in step 1
+  selectedStylistId: string | null;     // Stylist chosen in step 2 (null = any stylist)
   selectedDate: Date | null;            // Date chosen in step 2
   selectedTime: string | null;          // Time slot chosen in step 3
   selectedExtras: ServiceExtra[];       // Extras chosen in step 4
@@ -155,6 +318,61 @@ export interface TimeSlot {
   time: string;       // Time in 24h format (e.g., "09:00")
   isAvailable: boolean;  // Whether this slot can be booked
   reason?: string;    // If unavailable, explains why (e.g., "Already booked")
+  stylistId?: string; // If available, the stylist who would take the appointment
+}
+
+/**
+ * Public view of a booking returned by the booking-status function.
+ * Used by the success page to show the real outcome of a payment.
+ * Contains no client contact details, since anyone with the reference can read it.
+ */
+export interface BookingStatusResponse {
+  status: 'pending' | 'confirmed' | 'failed'; // Simplified state for the client
+  paymentReceived: boolean;     // True once Paystack confirmed the charge (even if under review)
+  paymentType: 'deposit' | 'balance'; // Whether the reference was the deposit or a balance payment
+  reference: string;            // Paystack reference that was looked up
+  serviceName: string;          // Service name at time of booking
+  startTime: string;            // Appointment start (ISO 8601)
+  endTime: string;              // Appointment end (ISO 8601)
+  depositAmount: number;        // Deposit charged online
+  totalPaid: number;            // Amount paid so far
+  balanceDue: number;           // Remaining amount due at appointment
+  failureReason?: string;       // Gateway response if the payment failed
+  retryPaymentUrl?: string;     // Retry link if the payment failed and the hold is still active
+}
+
+/**
+ * Booking details returned by the manage-booking function.
+ * Only sent to holders of a valid signed link, so it includes the client's details.
+ */
+export interface ManageBookingResponse {
+  reference: string;            // Paystack reference
+  serviceName: string;          // Service name at time of booking
+  startTime: string;            // Appointment start (ISO 8601)
+  endTime: string;              // Appointment end (ISO 8601)
+  bookingStatus: Booking['bookingStatus']; // Current booking status
+  client: ClientDetails;        // Client contact details
+  extras: BookingExtras[];      // Selected add-ons
+  totalPrice: number;           // Service price + extras
+  totalPaid: number;            // Amount paid so far
+  balanceDue: number;           // Remaining amount due at appointment
+  canCancel: boolean;           // True for upcoming confirmed bookings
+  canReschedule: boolean;       // False inside the reschedule notice window
+}
+
+/**
+ * Booking details returned by the reschedule-booking function.
+ * Returned both when looking a booking up and after moving it.
+ */
+export interface RescheduleBookingResponse {
+  reference: string;            // Paystack reference (unchanged by rescheduling)
+  serviceId: string;            // Service being booked (used to list new time slots)
+  serviceName: string;          // Service name at time of booking
+  stylistId: string;            // Stylist the booking is with (kept when rescheduling)
+  startTime: string;            // Appointment start (ISO 8601)
+  endTime: string;              // Appointment end (ISO 8601)
+  canReschedule: boolean;       // False inside the notice window
+  reason?: string;              // Why the booking can't be rescheduled
 }
 
 // ============================================================================